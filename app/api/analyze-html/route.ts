@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeHtml, type AnalysisResult } from '@/lib/analyzer';
+import { createAnalysisStream, wantsEventStream } from '@/lib/analysis-stream';
+import { rememberScan } from '@/lib/scan-store';
+import { parseScoringProfile } from '@/lib/scoring-profiles';
+import { getCurrentUserId, getUserPlan } from '@/lib/user';
+import { isValidUrl } from '@/lib/utils';
+
+const MAX_HTML_BYTES = 5 * 1024 * 1024; // 5 MB
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60; // Allow up to 60 seconds for analysis
+
+/**
+ * Analyze pasted HTML or an uploaded .html file without fetching the page.
+ *
+ * Accepts either JSON `{ html, baseUrl?, scoringProfile? }` or multipart
+ * form data with a `file` (or `html`) field and optional `baseUrl` and
+ * `scoringProfile` fields. Send
+ * `Accept: text/event-stream` to receive progress events (see lib/analysis-stream).
+ */
+export async function POST(request: NextRequest) {
+  let html: string | null = null;
+  let baseUrl: string | undefined;
+  let requestedProfile: unknown;
+
+  try {
+    const contentType = request.headers.get('content-type') || '';
+
+    if (contentType.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      const pasted = form.get('html');
+      const base = form.get('baseUrl');
+      requestedProfile = form.get('scoringProfile') ?? undefined;
+
+      if (file instanceof File) {
+        if (!/\.html?$/i.test(file.name)) {
+          return NextResponse.json(
+            { error: 'Please upload an .html or .htm file' },
+            { status: 400 }
+          );
+        }
+        if (file.size > MAX_HTML_BYTES) {
+          return NextResponse.json(
+            { error: 'File is too large. The limit is 5 MB.' },
+            { status: 413 }
+          );
+        }
+        html = await file.text();
+      } else if (typeof pasted === 'string') {
+        html = pasted;
+      }
+      baseUrl = typeof base === 'string' && base.trim() ? base.trim() : undefined;
+    } else {
+      const body = await request.json();
+      html = typeof body.html === 'string' ? body.html : null;
+      baseUrl = typeof body.baseUrl === 'string' && body.baseUrl.trim() ? body.baseUrl.trim() : undefined;
+      requestedProfile = body.scoringProfile;
+    }
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  if (!html || !html.trim()) {
+    return NextResponse.json(
+      { error: 'HTML is required' },
+      { status: 400 }
+    );
+  }
+
+  if (Buffer.byteLength(html) > MAX_HTML_BYTES) {
+    return NextResponse.json(
+      { error: 'HTML is too large. The limit is 5 MB.' },
+      { status: 413 }
+    );
+  }
+
+  if (baseUrl && !isValidUrl(baseUrl)) {
+    return NextResponse.json(
+      { error: 'Invalid base URL. Please enter a valid http or https URL.' },
+      { status: 400 }
+    );
+  }
+
+  const profile = parseScoringProfile(requestedProfile);
+  if ('error' in profile) {
+    return NextResponse.json(
+      { error: profile.error },
+      { status: 400 }
+    );
+  }
+  const scoringProfile = profile.value;
+
+  console.log(`[Analyze HTML] Starting analysis${baseUrl ? ` for: ${baseUrl}` : ''}`);
+  const userId = await getCurrentUserId();
+  const plan = await getUserPlan(userId);
+
+  if (wantsEventStream(request)) {
+    const source = html;
+    return createAnalysisStream(async (progress) => {
+      const result = await analyzeHtml(source, { baseUrl, plan, scoringProfile, ...progress });
+      await finishScan(result, userId);
+      return result;
+    }, describeAnalysisError);
+  }
+
+  try {
+    const result = await analyzeHtml(html, { baseUrl, plan, scoringProfile });
+    await finishScan(result, userId);
+    return NextResponse.json(result);
+  } catch (error) {
+    const { error: message, status } = describeAnalysisError(error);
+    return NextResponse.json(
+      { error: message },
+      { status }
+    );
+  }
+}
+
+async function finishScan(result: AnalysisResult, userId: string | null): Promise<void> {
+  console.log(`[Analyze HTML] Completed with score: ${result.score}`);
+
+  // Lets the user export this exact result; pasted HTML can't become a saved report
+  if (userId) {
+    const scanId = await rememberScan(userId, result);
+    if (scanId) result.scanId = scanId;
+  }
+}
+
+function describeAnalysisError(error: unknown): { error: string; status: number } {
+  console.error('[Analyze HTML] Analysis error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return { error: `Failed to analyze: ${errorMessage}`, status: 500 };
+}
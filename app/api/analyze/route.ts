@@ -1,9 +1,9 @@
 import { NextResponse } from 'next/server';
 
-// Placeholder - use /api/demo-analyze instead
+// Placeholder - the dashboard uses /api/demo-analyze, integrations use /api/v1/analyze
 export async function POST() {
   return NextResponse.json(
-    { error: 'Use /api/demo-analyze endpoint' },
+    { error: 'Use /api/v1/analyze with an API key' },
     { status: 400 }
   );
 }
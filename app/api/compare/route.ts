@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { comparePages, MAX_COMPETITORS } from '@/lib/comparison';
+import { getCurrentUserId, getUserPlan, incrementScanCount } from '@/lib/user';
+import { isValidUrl, normalizeUrl } from '@/lib/utils';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120; // Up to six pages are analyzed
+
+/**
+ * Compare a page against competitors. Pro only; every page analyzed
+ * counts as a scan.
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (await getUserPlan(userId) !== 'pro') {
+    return NextResponse.json(
+      { error: 'Competitor comparison is a Pro feature. Upgrade to compare your page against competitors.' },
+      { status: 403 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const { url, competitors } = body;
+
+  if (!url || typeof url !== 'string' || !isValidUrl(url)) {
+    return NextResponse.json(
+      { error: 'Invalid URL. Please enter a valid http or https URL.' },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(competitors) || competitors.length === 0) {
+    return NextResponse.json(
+      { error: 'competitors must be a non-empty array of URLs' },
+      { status: 400 }
+    );
+  }
+
+  const invalid = competitors.filter((c: unknown) => typeof c !== 'string' || !isValidUrl(c));
+  if (invalid.length > 0) {
+    return NextResponse.json(
+      { error: `Invalid competitor URL: ${String(invalid[0])}` },
+      { status: 400 }
+    );
+  }
+
+  // Drop duplicates and our own page
+  const seen = new Set([normalizeUrl(url)]);
+  const competitorUrls = (competitors as string[]).filter(c => {
+    const key = normalizeUrl(c);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (competitorUrls.length === 0 || competitorUrls.length > MAX_COMPETITORS) {
+    return NextResponse.json(
+      { error: `Provide between 1 and ${MAX_COMPETITORS} competitor URLs different from your own` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    console.log(`[Compare] Comparing ${url} against ${competitorUrls.length} competitors`);
+    const report = await comparePages(url, competitorUrls);
+    console.log(`[Compare] Completed, rank ${report.rank} of ${report.competitors.filter(c => c.score !== null).length + 1}`);
+
+    const scanned = [report.target, ...report.competitors].filter(page => page.score !== null).length;
+    await incrementScanCount(userId, scanned).catch(error => {
+      console.error('[Compare] Failed to increment scan count:', error);
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('[Compare] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: `Failed to compare: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
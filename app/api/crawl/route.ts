@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { crawlSite, CRAWL_LIMITS } from '@/lib/site-crawler';
+import { getCurrentUserId, getUserPlan, incrementScanCount } from '@/lib/user';
+import { isValidUrl } from '@/lib/utils';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // Crawls analyze many pages
+
+/**
+ * Crawl and analyze a whole site. Pro only; every page analyzed counts
+ * as a scan.
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (await getUserPlan(userId) !== 'pro') {
+    return NextResponse.json(
+      { error: 'Site crawls are a Pro feature. Upgrade to analyze a whole site.' },
+      { status: 403 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const { url, mode = 'auto', maxPages, maxDepth, concurrency } = body;
+
+  if (!url || typeof url !== 'string' || !isValidUrl(url)) {
+    return NextResponse.json(
+      { error: 'Invalid URL. Please enter a valid http or https URL.' },
+      { status: 400 }
+    );
+  }
+
+  if (!['auto', 'sitemap', 'links'].includes(mode)) {
+    return NextResponse.json(
+      { error: 'mode must be one of auto, sitemap or links' },
+      { status: 400 }
+    );
+  }
+
+  for (const [name, value, max] of [
+    ['maxPages', maxPages, CRAWL_LIMITS.maxPages],
+    ['maxDepth', maxDepth, CRAWL_LIMITS.maxDepth],
+    ['concurrency', concurrency, CRAWL_LIMITS.concurrency],
+  ] as const) {
+    if (value !== undefined && (typeof value !== 'number' || value < 0 || value > max)) {
+      return NextResponse.json(
+        { error: `${name} must be a number between 0 and ${max}` },
+        { status: 400 }
+      );
+    }
+  }
+
+  try {
+    console.log(`[Crawl] Starting ${mode} crawl for: ${url}`);
+    const report = await crawlSite(url, { mode, maxPages, maxDepth, concurrency });
+    console.log(`[Crawl] Completed ${report.pagesAnalyzed} pages, average score: ${report.averageScore}`);
+
+    await incrementScanCount(userId, report.pagesAnalyzed).catch(error => {
+      console.error('[Crawl] Failed to increment scan count:', error);
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('[Crawl] Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: `Failed to crawl: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { processJobQueue } from '@/lib/jobs';
+import { runDueSchedules } from '@/lib/scheduler';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+// Each due schedule is a full page fetch and analysis
+export const maxDuration = 300;
+
+// Queued jobs stop starting scans after this, leaving in-flight ones time to finish
+const JOB_TIME_BUDGET = 180 * 1000;
+
+/**
+ * Runs due re-scans, then works off queued scan jobs. Call from any scheduler (a Netlify scheduled function, GitHub Actions, system cron) with
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('[Cron] CRON_SECRET is not configured');
+    return NextResponse.json(
+      { error: 'Cron is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const startedAt = Date.now();
+
+  try {
+    const runs = await runDueSchedules();
+    const jobs = await processJobQueue({ deadline: new Date(startedAt + JOB_TIME_BUDGET) });
+    return NextResponse.json({
+      jobs,
+      ran: runs.length,
+      alerts: runs.filter(run => run.alert).length,
+      failed: runs.filter(run => run.error).length,
+      runs,
+    });
+  } catch (error) {
+    console.error('[Cron] Scheduled run failed:', error);
+    return NextResponse.json(
+      { error: 'Scheduled run failed' },
+      { status: 500 }
+    );
+  }
+}
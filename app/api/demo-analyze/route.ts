@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { analyzeUrl } from '@/lib/analyzer';
+import { analyzeUrl, type AnalysisResult } from '@/lib/analyzer';
+import { createAnalysisStream, wantsEventStream } from '@/lib/analysis-stream';
+import { recordScan } from '@/lib/history';
+import { rememberScan } from '@/lib/scan-store';
+import { parseScoringProfile } from '@/lib/scoring-profiles';
+import { getCurrentUserId, getUserPlan } from '@/lib/user';
 import { isValidUrl } from '@/lib/utils';
 
 // Simple rate limiting for demo
@@ -50,7 +55,8 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { url } = body;
+    const { url, force = false } = body;
+    const profile = parseScoringProfile(body.scoringProfile);
 
     if (!url || typeof url !== 'string') {
       return NextResponse.json(
@@ -69,48 +75,44 @@ export async function POST(request: NextRequest) {
 
     // Analyze the URL
     console.log(`[Demo Analyze] Starting analysis for: ${url}`);
+
+    if (typeof force !== 'boolean') {
+      return NextResponse.json(
+        { error: 'force must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if ('error' in profile) {
+      return NextResponse.json(
+        { error: profile.error },
+        { status: 400 }
+      );
+    }
+    const scoringProfile = profile.value;
+
+    // Signed-in scans feed the per-URL score history; resolved before any response is sent
+    const userId = await getCurrentUserId();
+    const plan = await getUserPlan(userId);
+
+    // Streaming clients get stage events and the heuristic result before Claude finishes
+    if (wantsEventStream(request)) {
+      return createAnalysisStream(async (progress) => {
+        const result = await analyzeUrl(url, true, { ...progress, force, plan, scoringProfile });
+        await finishScan(result, userId);
+        return result;
+      }, describeAnalysisError);
+    }
     
     try {
-      const result = await analyzeUrl(url);
-      console.log(`[Demo Analyze] Completed with score: ${result.score}`);
+      const result = await analyzeUrl(url, true, { force, plan, scoringProfile });
+      await finishScan(result, userId);
       return NextResponse.json(result);
     } catch (fetchError) {
-      console.error('[Demo Analyze] Fetch/Analysis error:', fetchError);
-      
-      // Provide more helpful error messages
-      const errorMessage = fetchError instanceof Error ? fetchError.message : 'Unknown error';
-      
-      if (errorMessage.includes('timeout') || errorMessage.includes('abort')) {
-        return NextResponse.json(
-          { error: 'The page took too long to load. Please try again or try a different URL.' },
-          { status: 504 }
-        );
-      }
-      
-      if (errorMessage.includes('ENOTFOUND') || errorMessage.includes('getaddrinfo')) {
-        return NextResponse.json(
-          { error: 'Could not find that website. Please check the URL and try again.' },
-          { status: 400 }
-        );
-      }
-      
-      if (errorMessage.includes('ECONNREFUSED')) {
-        return NextResponse.json(
-          { error: 'Could not connect to the website. It may be down or blocking our requests.' },
-          { status: 502 }
-        );
-      }
-
-      if (errorMessage.includes('certificate') || errorMessage.includes('SSL')) {
-        return NextResponse.json(
-          { error: 'SSL certificate error. The website may have security issues.' },
-          { status: 502 }
-        );
-      }
-      
+      const { error, status } = describeAnalysisError(fetchError);
       return NextResponse.json(
-        { error: `Failed to analyze: ${errorMessage}` },
-        { status: 500 }
+        { error },
+        { status }
       );
     }
 
@@ -123,3 +125,42 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+async function finishScan(result: AnalysisResult, userId: string | null): Promise<void> {
+  console.log(`[Demo Analyze] Completed with score: ${result.score}`);
+
+  if (userId) {
+    await recordScan(userId, result).catch(error => {
+      console.error('[Demo Analyze] Failed to record history:', error);
+    });
+
+    // Lets the user save this exact result as a report
+    const scanId = await rememberScan(userId, result);
+    if (scanId) result.scanId = scanId;
+  }
+}
+
+function describeAnalysisError(fetchError: unknown): { error: string; status: number } {
+  console.error('[Demo Analyze] Fetch/Analysis error:', fetchError);
+  
+  // Provide more helpful error messages
+  const errorMessage = fetchError instanceof Error ? fetchError.message : 'Unknown error';
+  
+  if (errorMessage.includes('timeout') || errorMessage.includes('abort')) {
+    return { error: 'The page took too long to load. Please try again or try a different URL.', status: 504 };
+  }
+  
+  if (errorMessage.includes('ENOTFOUND') || errorMessage.includes('getaddrinfo')) {
+    return { error: 'Could not find that website. Please check the URL and try again.', status: 400 };
+  }
+  
+  if (errorMessage.includes('ECONNREFUSED')) {
+    return { error: 'Could not connect to the website. It may be down or blocking our requests.', status: 502 };
+  }
+
+  if (errorMessage.includes('certificate') || errorMessage.includes('SSL')) {
+    return { error: 'SSL certificate error. The website may have security issues.', status: 502 };
+  }
+  
+  return { error: `Failed to analyze: ${errorMessage}`, status: 500 };
+}
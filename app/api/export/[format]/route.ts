@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { EXPORT_FORMATS, PRO_EXPORT_FORMATS, exportReport, isExportFormat } from '@/lib/export';
+import { getScanStore, isValidScanId } from '@/lib/scan-store';
+import { getUserPlan } from '@/lib/user';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Export one of the user's recent, unsaved scans as pdf, markdown, csv or
+ * json: `{ scanId }`. Like saving a report, the result comes from the scan
+ * store, never from the request body. PDF needs a Pro plan.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { format: string } }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (!isExportFormat(params.format)) {
+    return NextResponse.json(
+      { error: `Unsupported format. Use one of: ${EXPORT_FORMATS.join(', ')}` },
+      { status: 404 }
+    );
+  }
+
+  if (PRO_EXPORT_FORMATS.includes(params.format) && await getUserPlan(userId) !== 'pro') {
+    return NextResponse.json(
+      { error: 'PDF export is a Pro feature. Upgrade to download branded PDF reports.' },
+      { status: 403 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const scanId = body?.scanId;
+  if (!isValidScanId(scanId)) {
+    return NextResponse.json(
+      { error: 'scanId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await getScanStore().get(userId, scanId);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Scan not found. Scans can be exported for 24 hours; please analyze the page again.' },
+        { status: 404 }
+      );
+    }
+
+    const file = exportReport(result, params.format);
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error(`[Export] ${params.format} export failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to export report' },
+      { status: 500 }
+    );
+  }
+}
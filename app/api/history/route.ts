@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { listChecks } from '@/lib/checks';
+import { getHistoryStore } from '@/lib/history';
+import { isValidUrl } from '@/lib/utils';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Without `url`, lists the URLs the current user has scanned.
+ * With `url`, returns that URL's full score history.
+ */
+export async function GET(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const url = request.nextUrl.searchParams.get('url');
+  const store = getHistoryStore();
+
+  try {
+    if (!url) {
+      return NextResponse.json({ urls: await store.list(userId) });
+    }
+
+    if (!isValidUrl(url)) {
+      return NextResponse.json(
+        { error: 'Invalid URL. Please enter a valid http or https URL.' },
+        { status: 400 }
+      );
+    }
+
+    const history = await store.get(userId, url);
+    if (!history) {
+      return NextResponse.json(
+        { error: 'No history for this URL yet' },
+        { status: 404 }
+      );
+    }
+
+    const checkNames = Object.fromEntries(listChecks().map(check => [check.id, check.name]));
+    return NextResponse.json({ ...history, checkNames });
+  } catch (error) {
+    console.error('[History] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getApiKeyStore } from '@/lib/api-keys';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Revoke a key. Revoked keys stay listed so their history is visible.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const store = getApiKeyStore();
+  const apiKey = await store.get(params.id);
+  if (!apiKey || apiKey.userId !== userId) {
+    return NextResponse.json(
+      { error: 'API key not found' },
+      { status: 404 }
+    );
+  }
+
+  const revoked = await store.revoke(params.id);
+  console.log(`[API Keys] Revoked key ${params.id}`);
+  return NextResponse.json(revoked);
+}
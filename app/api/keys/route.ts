@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { API_KEY_SCOPES, getApiKeyStore, isApiKeyScope, MAX_KEYS_PER_USER } from '@/lib/api-keys';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * List the current user's API keys (without secrets)
+ */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const keys = await getApiKeyStore().list(userId);
+    return NextResponse.json({ keys, scopes: API_KEY_SCOPES });
+  } catch (error) {
+    console.error('[API Keys] List failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to list API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a key. The secret is only ever returned in this response.
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > 60) {
+    return NextResponse.json(
+      { error: 'name is required and must be at most 60 characters' },
+      { status: 400 }
+    );
+  }
+
+  const scopes = body.scopes ?? ['analyze', 'reports:read'];
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    return NextResponse.json(
+      { error: `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const store = getApiKeyStore();
+    const active = (await store.list(userId)).filter(k => !k.revokedAt);
+    if (active.length >= MAX_KEYS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_KEYS_PER_USER} active API keys. Revoke one first.` },
+        { status: 400 }
+      );
+    }
+
+    const { apiKey, secret } = await store.create(userId, name, Array.from(new Set(scopes)));
+    console.log(`[API Keys] Created key ${apiKey.id} (${apiKey.scopes.join(', ')})`);
+    return NextResponse.json({ apiKey, secret }, { status: 201 });
+  } catch (error) {
+    console.error('[API Keys] Create failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { EXPORT_FORMATS, PRO_EXPORT_FORMATS, exportReport, isExportFormat } from '@/lib/export';
+import { getReportStore } from '@/lib/report-store';
+import { getUserPlan } from '@/lib/user';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string; format: string } }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (!isExportFormat(params.format)) {
+    return NextResponse.json(
+      { error: `Unsupported format. Use one of: ${EXPORT_FORMATS.join(', ')}` },
+      { status: 404 }
+    );
+  }
+
+  if (PRO_EXPORT_FORMATS.includes(params.format) && await getUserPlan(userId) !== 'pro') {
+    return NextResponse.json(
+      { error: 'PDF export is a Pro feature. Upgrade to download branded PDF reports.' },
+      { status: 403 }
+    );
+  }
+
+  const report = await getReportStore().get(params.id);
+  if (!report || report.userId !== userId) {
+    return NextResponse.json(
+      { error: 'Report not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const file = exportReport(report.result, params.format);
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error(`[Export] ${params.format} export failed for report ${params.id}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to export report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getReportStore } from '@/lib/report-store';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const report = await getReportStore().get(params.id);
+
+  // Other users' reports are reported as missing rather than forbidden
+  if (!report || report.userId !== userId) {
+    return NextResponse.json(
+      { error: 'Report not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(report);
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const store = getReportStore();
+  const report = await store.get(params.id);
+  if (!report || report.userId !== userId) {
+    return NextResponse.json(
+      { error: 'Report not found' },
+      { status: 404 }
+    );
+  }
+
+  await store.delete(params.id);
+  console.log(`[Reports] Deleted report ${params.id}`);
+  return NextResponse.json({ deleted: true });
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { generateShareToken, getReportStore } from '@/lib/report-store';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Create a public share link, or return the existing one
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const store = getReportStore();
+  const report = await store.get(params.id);
+  if (!report || report.userId !== userId) {
+    return NextResponse.json(
+      { error: 'Report not found' },
+      { status: 404 }
+    );
+  }
+
+  const shareToken = report.shareToken ?? (await store.setShareToken(report.id, generateShareToken()))?.shareToken;
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+
+  return NextResponse.json({ shareToken, shareUrl: `${appUrl}/share/${shareToken}` });
+}
+
+/**
+ * Revoke the share link; the old URL stops working immediately
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const store = getReportStore();
+  const report = await store.get(params.id);
+  if (!report || report.userId !== userId) {
+    return NextResponse.json(
+      { error: 'Report not found' },
+      { status: 404 }
+    );
+  }
+
+  await store.setShareToken(report.id, null);
+  return NextResponse.json({ shareToken: null });
+}
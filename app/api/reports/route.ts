@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getReportStore } from '@/lib/report-store';
+import { getScanStore, isValidScanId } from '@/lib/scan-store';
+import { saveReport } from '@/lib/user';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * List the current user's reports
+ */
+export async function GET(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const limit = Math.min(100, Math.max(1, Number(request.nextUrl.searchParams.get('limit')) || 50));
+  const offset = Math.max(0, Number(request.nextUrl.searchParams.get('offset')) || 0);
+
+  try {
+    const reports = await getReportStore().list(userId, { limit, offset });
+    return NextResponse.json({ reports });
+  } catch (error) {
+    console.error('[Reports] List failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to list reports' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save one of the user's recent scans as a report: `{ scanId }`. Results
+ * are never taken from the request body, so a report can't carry a score
+ * the server didn't compute.
+ */
+export async function POST(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const scanId = body?.scanId;
+  if (!isValidScanId(scanId)) {
+    return NextResponse.json(
+      { error: 'scanId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await getScanStore().get(userId, scanId);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Scan not found. Scans can be saved for 24 hours; please analyze the page again.' },
+        { status: 404 }
+      );
+    }
+
+    // The page's owner never served pasted HTML, so it can't be published under their URL
+    if (result.metadata.source === 'html') {
+      return NextResponse.json(
+        { error: 'Scans of pasted HTML cannot be saved as reports' },
+        { status: 400 }
+      );
+    }
+
+    const { scanId: _scanId, ...stored } = result;
+    const report = await getReportStore().save(userId, stored);
+
+    // Keep the IDs in Clerk metadata in step; the store is the source of truth
+    await saveReport(userId, report.id).catch(error => {
+      console.error('[Reports] Failed to record report ID in user metadata:', error);
+    });
+
+    console.log(`[Reports] Saved report ${report.id} for ${result.url}`);
+    const { result: _, ...summary } = report;
+    return NextResponse.json(summary, { status: 201 });
+  } catch (error) {
+    console.error('[Reports] Save failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to save report' },
+      { status: 500 }
+    );
+  }
+}
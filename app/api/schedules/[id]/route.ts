@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { computeNextRun, getScheduleStore, parseScheduleInput } from '@/lib/scheduler';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+async function getOwnedSchedule(id: string) {
+  const { userId } = await auth();
+  if (!userId) {
+    return {
+      error: NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  // Other users' schedules are reported as missing rather than forbidden
+  const schedule = await getScheduleStore().get(id);
+  if (!schedule || schedule.userId !== userId) {
+    return {
+      error: NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { schedule };
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const owned = await getOwnedSchedule(params.id);
+  if (owned.error) return owned.error;
+
+  return NextResponse.json(owned.schedule);
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const owned = await getOwnedSchedule(params.id);
+  if (owned.error) return owned.error;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseScheduleInput(body ?? {}, true);
+  if ('error' in parsed) {
+    return NextResponse.json(
+      { error: parsed.error },
+      { status: 400 }
+    );
+  }
+
+  const patch = { ...parsed.value };
+  const schedule = owned.schedule;
+
+  // A new URL needs a fresh baseline before regressions mean anything
+  const baseline = patch.url && patch.url !== schedule.url
+    ? { lastScan: null, nextRunAt: new Date().toISOString() }
+    : {};
+  const reschedule = patch.frequency && patch.frequency !== schedule.frequency && schedule.lastRunAt
+    ? { nextRunAt: computeNextRun(patch.frequency, new Date(schedule.lastRunAt)).toISOString() }
+    : {};
+
+  const updated = await getScheduleStore().update(params.id, { ...patch, ...reschedule, ...baseline });
+  return NextResponse.json(updated);
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const owned = await getOwnedSchedule(params.id);
+  if (owned.error) return owned.error;
+
+  await getScheduleStore().delete(params.id);
+  console.log(`[Schedules] Deleted schedule ${params.id}`);
+  return NextResponse.json({ deleted: true });
+}
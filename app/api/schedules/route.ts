@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { MAX_SCHEDULES_PER_PLAN, getScheduleStore, parseScheduleInput, type ScheduleInput } from '@/lib/scheduler';
+import { getUserPlan } from '@/lib/user';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * List the current user's scheduled re-scans
+ */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const schedules = await getScheduleStore().list(userId);
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error('[Schedules] List failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to list schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Schedule a URL for recurring re-scans, up to the plan's limit
+ */
+export async function POST(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseScheduleInput(body ?? {});
+  if ('error' in parsed) {
+    return NextResponse.json(
+      { error: parsed.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const plan = await getUserPlan(userId);
+    const limit = MAX_SCHEDULES_PER_PLAN[plan];
+    const schedule = await getScheduleStore().create(userId, parsed.value as ScheduleInput, limit);
+    if (!schedule) {
+      return NextResponse.json(
+        {
+          error: plan === 'pro'
+            ? `You can have at most ${limit} schedules. Delete one first.`
+            : `The free plan includes ${limit} schedule. Upgrade to Pro for up to ${MAX_SCHEDULES_PER_PLAN.pro}.`,
+        },
+        { status: 403 }
+      );
+    }
+    console.log(`[Schedules] Created ${schedule.frequency} schedule ${schedule.id} for ${schedule.url}`);
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (error) {
+    console.error('[Schedules] Create failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to create schedule' },
+      { status: 500 }
+    );
+  }
+}
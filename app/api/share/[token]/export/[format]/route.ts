@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { EXPORT_FORMATS, PRO_EXPORT_FORMATS, exportReport, isExportFormat } from '@/lib/export';
+import { getReportStore } from '@/lib/report-store';
+import { getUserPlan } from '@/lib/user';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public download of a shared report. PDF is offered when the report's
+ * owner is on Pro.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { token: string; format: string } }
+) {
+  if (!isExportFormat(params.format)) {
+    return NextResponse.json(
+      { error: `Unsupported format. Use one of: ${EXPORT_FORMATS.join(', ')}` },
+      { status: 404 }
+    );
+  }
+
+  const report = await getReportStore().getByShareToken(params.token);
+  if (!report) {
+    return NextResponse.json(
+      { error: 'Shared report not found' },
+      { status: 404 }
+    );
+  }
+
+  if (PRO_EXPORT_FORMATS.includes(params.format) && await getUserPlan(report.userId) !== 'pro') {
+    return NextResponse.json(
+      { error: 'PDF download is not available for this report' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const file = exportReport(report.result, params.format);
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        // Revoking the link must take effect immediately
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error(`[Export] ${params.format} export failed for shared report:`, error);
+    return NextResponse.json(
+      { error: 'Failed to export report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getReportStore } from '@/lib/report-store';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public, read-only access to a shared report
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { token: string } }
+) {
+  const report = await getReportStore().getByShareToken(params.token);
+
+  if (!report) {
+    return NextResponse.json(
+      { error: 'Shared report not found' },
+      { status: 404 }
+    );
+  }
+
+  // Don't expose the owner or the token itself
+  return NextResponse.json({
+    id: report.id,
+    createdAt: report.createdAt,
+    result: report.result,
+  });
+}
@@ -0,0 +1,146 @@
+import { NextResponse } from 'next/server';
+import { analyzeUrl } from '@/lib/analyzer';
+import { authenticateApiKey } from '@/lib/api-keys';
+import { toExportJson } from '@/lib/export';
+import { recordScan } from '@/lib/history';
+import { countPendingScans, getJobStore, isActiveJob } from '@/lib/jobs';
+import { getReportStore } from '@/lib/report-store';
+import { parseScoringProfile } from '@/lib/scoring-profiles';
+import { resolveTokenBudget } from '@/lib/llm';
+import { commitScans, getPlan, releaseScans, reserveScans } from '@/lib/user';
+import { isValidUrl } from '@/lib/utils';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60; // Allow up to 60 seconds for analysis
+
+/**
+ * Analyze a URL. Authenticated with an API key with the "analyze" scope;
+ * `save: true` also needs "reports:write". Counts against the key owner's
+ * monthly scan quota.
+ */
+export async function POST(request: Request) {
+  const authResult = await authenticateApiKey(request, 'analyze');
+  if ('error' in authResult) {
+    return NextResponse.json(
+      { error: authResult.error },
+      { status: authResult.status }
+    );
+  }
+  const { apiKey } = authResult;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const { url, includeAI = true, save = false, force = false, tokenBudget } = body ?? {};
+
+  if (!url || typeof url !== 'string' || !isValidUrl(url)) {
+    return NextResponse.json(
+      { error: 'Invalid URL. Please enter a valid http or https URL.' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof includeAI !== 'boolean' || typeof save !== 'boolean' || typeof force !== 'boolean') {
+    return NextResponse.json(
+      { error: 'includeAI, save and force must be booleans' },
+      { status: 400 }
+    );
+  }
+
+  const profile = parseScoringProfile(body.scoringProfile);
+  if ('error' in profile) {
+    return NextResponse.json(
+      { error: profile.error },
+      { status: 400 }
+    );
+  }
+
+  if (tokenBudget !== undefined && (!Number.isInteger(tokenBudget) || tokenBudget < 0)) {
+    return NextResponse.json(
+      { error: 'tokenBudget must be a non-negative integer' },
+      { status: 400 }
+    );
+  }
+
+  if (save && !apiKey.scopes.includes('reports:write')) {
+    return NextResponse.json(
+      { error: 'This API key is missing the "reports:write" scope needed for save: true' },
+      { status: 403 }
+    );
+  }
+
+  // Hold the scan before analyzing so parallel requests can't overrun the
+  // quota, leaving room for the scans the owner's jobs still have to make
+  let reservation;
+  try {
+    const jobs = await getJobStore().list(apiKey.userId, { limit: 100 });
+    const pending = countPendingScans(jobs.filter(isActiveJob));
+    reservation = await reserveScans(apiKey.userId, 1, { pending });
+  } catch (error) {
+    console.error('[API v1] Failed to check quota:', error);
+    return NextResponse.json(
+      { error: 'Usage tracking is unavailable. Please try again later.' },
+      { status: 503 }
+    );
+  }
+
+  if (!reservation.allowed) {
+    return NextResponse.json(
+      { error: reservation.reason, remaining: reservation.remaining },
+      { status: 429 }
+    );
+  }
+  const { user } = reservation;
+
+  console.log(`[API v1] Key ${apiKey.id} analyzing: ${url}`);
+
+  let result;
+  try {
+    // A scan can spend less than its plan allows, never more
+    const plan = getPlan(user);
+    const budget = tokenBudget === undefined ? undefined : Math.min(tokenBudget, resolveTokenBudget(plan));
+    result = await analyzeUrl(url, includeAI, { force, plan, tokenBudget: budget, scoringProfile: profile.value });
+  } catch (error) {
+    releaseScans(user.id);
+    console.error('[API v1] Analysis error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = message.includes('timeout') || message.includes('abort') ? 504 : 502;
+    return NextResponse.json(
+      { error: `Failed to analyze: ${message}` },
+      { status }
+    );
+  }
+
+  // Only successful scans use up quota
+  await commitScans(user.id).catch(error => {
+    console.error('[API v1] Failed to increment scan count:', error);
+  });
+  await recordScan(user.id, result).catch(error => {
+    console.error('[API v1] Failed to record history:', error);
+  });
+
+  let reportId: string | null = null;
+  if (save) {
+    try {
+      reportId = (await getReportStore().save(user.id, result)).id;
+    } catch (error) {
+      console.error('[API v1] Failed to save report:', error);
+    }
+  }
+
+  return NextResponse.json({
+    reportId,
+    report: toExportJson(result),
+    usage: {
+      remaining: reservation.remaining ?? 'unlimited',
+    },
+  });
+}
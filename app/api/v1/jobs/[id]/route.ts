@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys';
+import { toExportJson } from '@/lib/export';
+import { cancelJob, getJobStore, isActiveJob, summarizeJob } from '@/lib/jobs';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Job status and progress. Finished scans include their report in the
+ * versioned export format. Needs the "analyze" scope.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await authenticateApiKey(request, 'analyze');
+  if ('error' in authResult) {
+    return NextResponse.json(
+      { error: authResult.error },
+      { status: authResult.status }
+    );
+  }
+
+  const store = getJobStore();
+  const job = await store.get(params.id);
+  if (!job || job.userId !== authResult.apiKey.userId) {
+    return NextResponse.json(
+      { error: 'Job not found' },
+      { status: 404 }
+    );
+  }
+
+  const results = await store.getResults(job.id);
+  const summary = summarizeJob(job);
+
+  return NextResponse.json({
+    job: {
+      ...summary,
+      items: summary.items.map(item => ({
+        ...item,
+        report: results[item.url] ? toExportJson(results[item.url]) : null,
+      })),
+    },
+  });
+}
+
+/**
+ * Cancel a queued or running job. Scans already in flight still finish.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await authenticateApiKey(request, 'analyze');
+  if ('error' in authResult) {
+    return NextResponse.json(
+      { error: authResult.error },
+      { status: authResult.status }
+    );
+  }
+
+  const job = await getJobStore().get(params.id);
+  if (!job || job.userId !== authResult.apiKey.userId) {
+    return NextResponse.json(
+      { error: 'Job not found' },
+      { status: 404 }
+    );
+  }
+
+  // The job may finish between the read above and the cancel
+  const cancelled = await cancelJob(job.id);
+  if (!cancelled || cancelled.status !== 'cancelled' || !isActiveJob(job)) {
+    return NextResponse.json(
+      { error: `Job is already ${cancelled?.status ?? job.status}` },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ job: summarizeJob(cancelled) });
+}
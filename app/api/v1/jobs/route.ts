@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys';
+import {
+  MAX_ACTIVE_JOBS_PER_USER,
+  countPendingScans,
+  getJobStore,
+  isActiveJob,
+  kickJobQueue,
+  parseJobInput,
+  summarizeJob,
+} from '@/lib/jobs';
+import { canScan, getPlan, getUserById, type UserData } from '@/lib/user';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * List the key owner's jobs, newest first. Needs the "analyze" scope.
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await authenticateApiKey(request, 'analyze');
+  if ('error' in authResult) {
+    return NextResponse.json(
+      { error: authResult.error },
+      { status: authResult.status }
+    );
+  }
+
+  const limit = Math.min(100, Math.max(1, Number(request.nextUrl.searchParams.get('limit')) || 50));
+
+  try {
+    const jobs = await getJobStore().list(authResult.apiKey.userId, { limit });
+    return NextResponse.json({ jobs: jobs.map(summarizeJob) });
+  } catch (error) {
+    console.error('[API v1] List jobs failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to list jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Queue a batch of scans: `{ urls, includeAI?, callbackUrl? }`. Responds
+ * 202 with the job straight away; poll GET /api/v1/jobs/:id or wait for
+ * the callback. Each scan counts against the key owner's quota, which must
+ * also cover the scans still pending in their other jobs.
+ */
+export async function POST(request: Request) {
+  const authResult = await authenticateApiKey(request, 'analyze');
+  if ('error' in authResult) {
+    return NextResponse.json(
+      { error: authResult.error },
+      { status: authResult.status }
+    );
+  }
+  const { apiKey } = authResult;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseJobInput(body ?? {});
+  if ('error' in parsed) {
+    return NextResponse.json(
+      { error: parsed.error },
+      { status: 400 }
+    );
+  }
+
+  let user: UserData;
+  try {
+    user = await getUserById(apiKey.userId);
+  } catch (error) {
+    console.error('[API v1] Failed to load key owner:', error);
+    return NextResponse.json(
+      { error: 'Usage tracking is unavailable. Please try again later.' },
+      { status: 503 }
+    );
+  }
+
+  const store = getJobStore();
+  const active = (await store.list(user.id, { limit: 100 })).filter(isActiveJob);
+  if (active.length >= MAX_ACTIVE_JOBS_PER_USER) {
+    return NextResponse.json(
+      { error: `You can have up to ${MAX_ACTIVE_JOBS_PER_USER} queued or running jobs` },
+      { status: 429 }
+    );
+  }
+
+  // Scans already queued in other jobs are spoken for
+  const quota = await canScan(user);
+  const available = quota.remaining === undefined ? undefined : Math.max(0, quota.remaining - countPendingScans(active));
+  if (!quota.allowed || (available !== undefined && available < parsed.value.urls.length)) {
+    return NextResponse.json(
+      {
+        error: quota.reason ?? `This job needs ${parsed.value.urls.length} scans but only ${available} remain this month after your queued jobs.`,
+        remaining: available ?? 0,
+      },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const job = await store.create(user.id, { ...parsed.value, plan: getPlan(user) });
+    console.log(`[API v1] Key ${apiKey.id} queued job ${job.id} (${job.items.length} URLs)`);
+    kickJobQueue();
+
+    return NextResponse.json(
+      { job: summarizeJob(job) },
+      { status: 202, headers: { Location: `/api/v1/jobs/${job.id}` } }
+    );
+  } catch (error) {
+    console.error('[API v1] Create job failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue job' },
+      { status: 500 }
+    );
+  }
+}
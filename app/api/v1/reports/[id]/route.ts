@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys';
+import { toExportJson } from '@/lib/export';
+import { getReportStore } from '@/lib/report-store';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Fetch a saved report in the versioned export format. Needs the
+ * "reports:read" scope.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await authenticateApiKey(request, 'reports:read');
+  if ('error' in authResult) {
+    return NextResponse.json(
+      { error: authResult.error },
+      { status: authResult.status }
+    );
+  }
+
+  const report = await getReportStore().get(params.id);
+  if (!report || report.userId !== authResult.apiKey.userId) {
+    return NextResponse.json(
+      { error: 'Report not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    id: report.id,
+    createdAt: report.createdAt,
+    report: toExportJson(report.result),
+  });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys';
+import { getReportStore } from '@/lib/report-store';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * List the key owner's saved reports. Needs the "reports:read" scope.
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await authenticateApiKey(request, 'reports:read');
+  if ('error' in authResult) {
+    return NextResponse.json(
+      { error: authResult.error },
+      { status: authResult.status }
+    );
+  }
+
+  const limit = Math.min(100, Math.max(1, Number(request.nextUrl.searchParams.get('limit')) || 50));
+  const offset = Math.max(0, Number(request.nextUrl.searchParams.get('offset')) || 0);
+
+  try {
+    const reports = await getReportStore().list(authResult.apiKey.userId, { limit, offset });
+    return NextResponse.json({
+      reports: reports.map(({ id, url, title, score, grade, createdAt }) => ({ id, url, title, score, grade, createdAt })),
+    });
+  } catch (error) {
+    console.error('[API v1] List reports failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to list reports' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  Search,
+  Loader2,
+  AlertCircle,
+  ArrowLeft,
+  KeyRound,
+  Copy,
+  Trash2,
+  Plus,
+} from 'lucide-react';
+import type { ApiKey, ApiKeyScope } from '@/lib/api-keys';
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  analyze: 'Run scans with /api/v1/analyze and /api/v1/jobs (uses your scan quota)',
+  'reports:read': 'List and fetch saved reports',
+  'reports:write': 'Save scan results as reports (save: true)',
+};
+
+export default function ApiKeysPage() {
+  const [keys, setKeys] = useState<ApiKey[] | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['analyze', 'reports:read']);
+  const [creating, setCreating] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [origin, setOrigin] = useState('');
+
+  const loadKeys = async () => {
+    try {
+      const response = await fetch('/api/keys');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load API keys');
+      setKeys(data.keys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+      setKeys([]);
+    }
+  };
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+    loadKeys();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || scopes.length === 0) return;
+
+    setCreating(true);
+    setError(null);
+    setNewSecret(null);
+
+    try {
+      const response = await fetch('/api/keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create API key');
+
+      setNewSecret(data.secret);
+      setName('');
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke "${apiKey.name}"? Requests using it will fail immediately.`)) return;
+
+    try {
+      const response = await fetch(`/api/keys/${apiKey.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to revoke API key');
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    }
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(current => (current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]));
+  };
+
+  const formatDate = (timestamp: string | null) =>
+    timestamp ? new Date(timestamp).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : 'Never';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-zinc-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-zinc-900 border-b border-gray-200 dark:border-zinc-800">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <Search className="w-5 h-5 text-white" />
+            </div>
+            <span className="font-bold text-lg">AI Search Optimizer</span>
+          </Link>
+
+          <Link href="/dashboard" className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="w-4 h-4" />
+            Back to analyzer
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-blue-600" />
+          <h1 className="font-semibold text-lg">API Keys</h1>
+        </div>
+
+        {error && (
+          <div className="card p-4 border-red-200 bg-red-50 dark:bg-red-900/20">
+            <div className="flex items-center gap-3 text-red-700 dark:text-red-400">
+              <AlertCircle className="w-5 h-5" />
+              <p>{error}</p>
+            </div>
+          </div>
+        )}
+
+        {/* New key */}
+        <form onSubmit={handleCreate} className="card p-6 space-y-4">
+          <h3 className="font-semibold">Create a key</h3>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. CI pipeline"
+            maxLength={60}
+            className="w-full px-4 py-2 rounded-lg border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800"
+          />
+          <div className="space-y-2">
+            {(Object.keys(SCOPE_DESCRIPTIONS) as ApiKeyScope[]).map((scope) => (
+              <label key={scope} className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  className="mt-1"
+                />
+                <span>
+                  <code className="font-mono text-xs bg-gray-100 dark:bg-zinc-800 px-1 rounded">{scope}</code>
+                  <span className="text-gray-500 ml-2">{SCOPE_DESCRIPTIONS[scope]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={creating || !name.trim() || scopes.length === 0}
+            className="px-5 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-medium rounded-lg flex items-center gap-2"
+          >
+            {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Create key
+          </button>
+
+          {newSecret && (
+            <div className="p-4 rounded-lg bg-green-50 dark:bg-green-900/20 space-y-2">
+              <p className="text-sm font-medium text-green-800 dark:text-green-300">
+                Copy your key now - it won&apos;t be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <input
+                  readOnly
+                  value={newSecret}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 text-xs font-mono rounded-lg border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800"
+                  aria-label="New API key"
+                />
+                <button
+                  type="button"
+                  onClick={() => navigator.clipboard.writeText(newSecret)}
+                  className="p-2 text-gray-500 hover:text-gray-700"
+                  aria-label="Copy API key"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </form>
+
+        {/* Existing keys */}
+        <div className="card p-6">
+          <h3 className="font-semibold mb-4">Your keys</h3>
+          {keys === null ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : keys.length === 0 ? (
+            <p className="text-sm text-gray-500">No API keys yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200 dark:border-zinc-800">
+                    <th className="py-2 pr-4 font-medium">Name</th>
+                    <th className="py-2 pr-4 font-medium">Key</th>
+                    <th className="py-2 pr-4 font-medium">Scopes</th>
+                    <th className="py-2 pr-4 font-medium">Created</th>
+                    <th className="py-2 pr-4 font-medium">Last used</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {keys.map((apiKey) => (
+                    <tr key={apiKey.id} className={`border-b border-gray-100 dark:border-zinc-800 ${apiKey.revokedAt ? 'text-gray-400' : ''}`}>
+                      <td className="py-3 pr-4 font-medium">{apiKey.name}</td>
+                      <td className="py-3 pr-4 font-mono text-xs">{apiKey.prefix}…</td>
+                      <td className="py-3 pr-4 text-xs">{apiKey.scopes.join(', ')}</td>
+                      <td className="py-3 pr-4">{formatDate(apiKey.createdAt)}</td>
+                      <td className="py-3 pr-4">{formatDate(apiKey.lastUsedAt)}</td>
+                      <td className="py-3 text-right">
+                        {apiKey.revokedAt ? (
+                          <span className="text-xs">Revoked</span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => handleRevoke(apiKey)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            aria-label={`Revoke ${apiKey.name}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Usage */}
+        <div className="card p-6">
+          <h3 className="font-semibold mb-2">Usage</h3>
+          <p className="text-sm text-gray-500 mb-3">
+            Scans made with a key count against your monthly scan quota.
+          </p>
+          <pre className="text-xs bg-gray-100 dark:bg-zinc-800 p-3 rounded-lg overflow-x-auto">
+{`curl -X POST ${origin}/api/v1/analyze \\
+  -H "Authorization: Bearer $AI_SEARCH_API_KEY" \\
+  -H "Content-Type: application/json" \\
+  -d '{"url": "https://example.com"}'`}
+          </pre>
+        </div>
+      </main>
+    </div>
+  );
+}
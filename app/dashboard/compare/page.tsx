@@ -0,0 +1,348 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  Search,
+  Loader2,
+  AlertCircle,
+  Plus,
+  X,
+  Trophy,
+  XCircle,
+  Target,
+  Lightbulb,
+  ArrowLeft,
+  Swords,
+} from 'lucide-react';
+import type { ComparisonReport, ComparedPage } from '@/lib/comparison';
+
+const MAX_COMPETITORS = 5;
+
+const CATEGORY_NAMES: Record<string, string> = {
+  contentStructure: 'Content Structure',
+  citationReadiness: 'Citation Readiness',
+  technicalSeo: 'Technical SEO',
+  credibilitySignals: 'Credibility Signals',
+  aiSpecificFactors: 'AI-Specific Factors',
+  crawlerAccess: 'AI Crawler Access',
+};
+
+export default function ComparePage() {
+  const [url, setUrl] = useState('');
+  const [competitors, setCompetitors] = useState<string[]>(['']);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ComparisonReport | null>(null);
+
+  const filledCompetitors = competitors.map(c => c.trim()).filter(Boolean);
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim() || filledCompetitors.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    setReport(null);
+
+    try {
+      const response = await fetch('/api/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: url.trim(), competitors: filledCompetitors }),
+      });
+
+      const contentType = response.headers.get('content-type');
+      if (!contentType || !contentType.includes('application/json')) {
+        throw new Error('Server error. Please try again in a moment.');
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Comparison failed');
+      }
+
+      setReport(data);
+    } catch (err) {
+      console.error('Comparison error:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateCompetitor = (index: number, value: string) => {
+    setCompetitors(current => current.map((c, i) => (i === index ? value : c)));
+  };
+
+  const getDeltaColor = (delta: number | null | undefined) => {
+    if (delta === null || delta === undefined || delta === 0) return 'text-gray-500';
+    // Positive deltas mean the competitor is ahead of us
+    return delta > 0 ? 'text-red-600' : 'text-green-600';
+  };
+
+  const formatDelta = (delta: number | null | undefined) => {
+    if (delta === null || delta === undefined) return '';
+    return delta > 0 ? `+${delta}` : `${delta}`;
+  };
+
+  const pages: ComparedPage[] = report ? [report.target, ...report.competitors] : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-zinc-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-zinc-900 border-b border-gray-200 dark:border-zinc-800">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <Search className="w-5 h-5 text-white" />
+            </div>
+            <span className="font-bold text-lg">AI Search Optimizer</span>
+          </Link>
+
+          <Link href="/dashboard" className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="w-4 h-4" />
+            Back to analyzer
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8">
+        {/* Input */}
+        <div className="card p-6 mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <Swords className="w-5 h-5 text-blue-600" />
+            <h1 className="font-semibold text-lg">Compare Against Competitors</h1>
+          </div>
+          <form onSubmit={handleCompare} className="space-y-4">
+            <div>
+              <label htmlFor="url" className="text-sm font-medium">Your page</label>
+              <input
+                id="url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/blog/article"
+                className="mt-1 w-full px-4 py-3 rounded-lg border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 focus:ring-2 focus:ring-blue-500"
+                disabled={loading}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Competitor pages (up to {MAX_COMPETITORS})</span>
+              {competitors.map((competitor, i) => (
+                <div key={i} className="flex gap-2">
+                  <input
+                    type="url"
+                    value={competitor}
+                    onChange={(e) => updateCompetitor(i, e.target.value)}
+                    placeholder="https://competitor.com/their-article"
+                    className="flex-1 px-4 py-2 rounded-lg border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 focus:ring-2 focus:ring-blue-500 text-sm"
+                    disabled={loading}
+                  />
+                  {competitors.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setCompetitors(current => current.filter((_, j) => j !== i))}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      aria-label="Remove competitor"
+                      disabled={loading}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {competitors.length < MAX_COMPETITORS && (
+                <button
+                  type="button"
+                  onClick={() => setCompetitors(current => [...current, ''])}
+                  className="text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1"
+                  disabled={loading}
+                >
+                  <Plus className="w-4 h-4" />
+                  Add competitor
+                </button>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading || !url.trim() || filledCompetitors.length === 0}
+              className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-medium rounded-lg flex items-center justify-center gap-2 min-w-[180px]"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  Analyzing {filledCompetitors.length + 1} pages...
+                </>
+              ) : (
+                'Compare'
+              )}
+            </button>
+          </form>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="card p-4 mb-8 border-red-200 bg-red-50 dark:bg-red-900/20">
+            <div className="flex items-center gap-3 text-red-700 dark:text-red-400">
+              <AlertCircle className="w-5 h-5" />
+              <p>{error}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Results */}
+        {report && !loading && (
+          <div className="space-y-6">
+            {/* Side-by-side scores */}
+            <div className="card p-6 overflow-x-auto">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold">Side by Side</h3>
+                <span className="text-sm text-gray-500 flex items-center gap-1">
+                  <Trophy className="w-4 h-4 text-yellow-500" />
+                  Your page ranks #{report.rank} of {pages.filter(p => p.score !== null).length}
+                </span>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-zinc-700">
+                    <th className="text-left py-2 pr-4 font-medium text-gray-500"></th>
+                    {pages.map((page, i) => (
+                      <th key={page.url} className="text-left py-2 px-3 font-medium">
+                        <span className={i === 0 ? 'text-blue-600' : ''}>{i === 0 ? 'You' : page.domain}</span>
+                        <a href={page.url} target="_blank" rel="noopener noreferrer" className="block text-xs text-gray-400 font-normal truncate max-w-[160px]">
+                          {new URL(page.url).pathname}
+                        </a>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-gray-100 dark:border-zinc-800">
+                    <td className="py-2 pr-4 font-medium">Overall</td>
+                    {pages.map((page) => (
+                      <td key={page.url} className="py-2 px-3">
+                        {page.error ? (
+                          <span className="text-xs text-red-600 flex items-center gap-1" title={page.error}>
+                            <XCircle className="w-3 h-3" />
+                            Failed
+                          </span>
+                        ) : (
+                          <>
+                            <span className="font-semibold">{page.score}</span>
+                            <span className="text-gray-400"> ({page.grade})</span>
+                            <span className={`ml-2 text-xs ${getDeltaColor(page.scoreDelta)}`}>{formatDelta(page.scoreDelta)}</span>
+                          </>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                  {Object.keys(CATEGORY_NAMES).map((category) => (
+                    <tr key={category} className="border-b border-gray-100 dark:border-zinc-800">
+                      <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">{CATEGORY_NAMES[category]}</td>
+                      {pages.map((page) => {
+                        const key = category as keyof ComparedPage['categories'];
+                        const value = page.categories[key];
+                        const delta = page.categoryDeltas[key];
+                        return (
+                          <td key={page.url} className="py-2 px-3">
+                            {value === undefined ? '–' : `${value}%`}
+                            <span className={`ml-2 text-xs ${getDeltaColor(delta)}`}>{formatDelta(delta)}</span>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">Words</td>
+                    {pages.map((page) => (
+                      <td key={page.url} className="py-2 px-3">{page.wordCount ?? '–'}</td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {/* Check gaps */}
+            <div className="card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Target className="w-5 h-5 text-red-600" />
+                <h3 className="font-semibold">Checks Competitors Pass That You Fail</h3>
+              </div>
+              {report.checkGaps.length === 0 ? (
+                <p className="text-sm text-gray-500">No competitor passes a check that you fail.</p>
+              ) : (
+                <div className="space-y-3">
+                  {report.checkGaps.map((gap) => (
+                    <div key={gap.id} className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-sm">{gap.name}</span>
+                        <span className="text-xs text-gray-500">
+                          passed by {gap.passedBy.length} of {report.competitors.length}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">You: {gap.ourDetails}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Coverage gaps */}
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="card p-6">
+                <div className="flex items-center gap-2 mb-2">
+                  <Lightbulb className="w-5 h-5 text-purple-600" />
+                  <h3 className="font-semibold">Terms You Never Mention</h3>
+                </div>
+                <p className="text-sm text-gray-500 mb-4">
+                  Used repeatedly by at least half of your competitors
+                </p>
+                {report.termGaps.length === 0 ? (
+                  <p className="text-sm text-gray-500">No term gaps found.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {report.termGaps.map((gap) => (
+                      <span
+                        key={gap.term}
+                        className="px-3 py-1 bg-purple-50 dark:bg-purple-900/20 rounded-full text-sm text-purple-700 dark:text-purple-300"
+                        title={`${gap.totalMentions} mentions across ${gap.usedBy.length} competitor(s)`}
+                      >
+                        {gap.term}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="card p-6">
+                <div className="flex items-center gap-2 mb-2">
+                  <Lightbulb className="w-5 h-5 text-blue-600" />
+                  <h3 className="font-semibold">Topics Only Competitors Cover</h3>
+                </div>
+                <p className="text-sm text-gray-500 mb-4">
+                  Competitor sections whose subject your page doesn&apos;t address
+                </p>
+                {report.topicGaps.length === 0 ? (
+                  <p className="text-sm text-gray-500">No topic gaps found.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {report.topicGaps.map((gap) => (
+                      <li key={`${gap.url}-${gap.heading}`} className="text-sm flex items-center justify-between gap-2">
+                        <span>{gap.heading}</span>
+                        <span className="text-xs text-gray-400 truncate max-w-[140px]">{new URL(gap.url).hostname}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  Search,
+  Loader2,
+  AlertCircle,
+  ArrowLeft,
+  ArrowRight,
+  History,
+  CheckCircle,
+  XCircle,
+} from 'lucide-react';
+import type { TrackedUrl, UrlHistory } from '@/lib/history';
+
+type HistoryResponse = UrlHistory & { checkNames: Record<string, string> };
+
+const CATEGORY_SERIES: Array<{ key: string; label: string; color: string }> = [
+  { key: 'contentStructure', label: 'Content Structure', color: '#2563eb' },
+  { key: 'citationReadiness', label: 'Citation Readiness', color: '#9333ea' },
+  { key: 'technicalSeo', label: 'Technical SEO', color: '#0891b2' },
+  { key: 'credibilitySignals', label: 'Credibility Signals', color: '#16a34a' },
+  { key: 'aiSpecificFactors', label: 'AI-Specific Factors', color: '#ea580c' },
+  { key: 'crawlerAccess', label: 'AI Crawler Access', color: '#dc2626' },
+];
+
+const GRADE_LINES = [
+  { value: 90, label: 'A' },
+  { value: 80, label: 'B' },
+  { value: 70, label: 'C' },
+  { value: 60, label: 'D' },
+];
+
+// ============================================
+// Chart
+// ============================================
+
+interface Series {
+  label: string;
+  color: string;
+  values: Array<number | null>;
+}
+
+function LineChart({
+  series,
+  labels,
+  max,
+  guides = [],
+}: {
+  series: Series[];
+  labels: string[];
+  max: number;
+  guides?: Array<{ value: number; label: string }>;
+}) {
+  const width = 640;
+  const height = 220;
+  const pad = { top: 10, right: 16, bottom: 24, left: 40 };
+  const innerWidth = width - pad.left - pad.right;
+  const innerHeight = height - pad.top - pad.bottom;
+
+  const x = (i: number) => pad.left + (labels.length === 1 ? innerWidth / 2 : (i / (labels.length - 1)) * innerWidth);
+  const y = (value: number) => pad.top + innerHeight - (value / Math.max(1, max)) * innerHeight;
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(f => Math.round(max * f));
+  // Show at most ~6 date labels so they don't overlap
+  const labelStep = Math.max(1, Math.ceil(labels.length / 6));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img">
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={pad.left} x2={width - pad.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" strokeWidth={1} />
+          <text x={pad.left - 6} y={y(tick) + 4} textAnchor="end" fontSize={10} fill="#9ca3af">{tick.toLocaleString()}</text>
+        </g>
+      ))}
+      {guides.map((guide) => (
+        <g key={guide.label}>
+          <line x1={pad.left} x2={width - pad.right} y1={y(guide.value)} y2={y(guide.value)} stroke="#d1d5db" strokeDasharray="4 4" />
+          <text x={width - pad.right} y={y(guide.value) - 3} textAnchor="end" fontSize={10} fill="#9ca3af">{guide.label}</text>
+        </g>
+      ))}
+      {labels.map((label, i) => (i % labelStep === 0 || i === labels.length - 1) && (
+        <text key={i} x={x(i)} y={height - 6} textAnchor="middle" fontSize={10} fill="#9ca3af">{label}</text>
+      ))}
+      {series.map((s) => {
+        const points = s.values
+          .map((value, i) => (value === null ? null : `${x(i)},${y(value)}`))
+          .filter(Boolean)
+          .join(' ');
+        return (
+          <g key={s.label}>
+            <polyline points={points} fill="none" stroke={s.color} strokeWidth={2} />
+            {s.values.map((value, i) => value !== null && (
+              <circle key={i} cx={x(i)} cy={y(value)} r={3} fill={s.color}>
+                <title>{`${s.label}: ${value.toLocaleString()} (${labels[i]})`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+// ============================================
+// Page
+// ============================================
+
+export default function HistoryPage() {
+  const [urls, setUrls] = useState<TrackedUrl[] | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/history');
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load history');
+        setUrls(data.urls);
+
+        const requested = new URLSearchParams(window.location.search).get('url');
+        setSelected(requested || data.urls[0]?.url || null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+        setUrls([]);
+      }
+    };
+    load();
+  }, []);
+
+  useEffect(() => {
+    if (!selected) return;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/history?url=${encodeURIComponent(selected)}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load history');
+        setHistory(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+        setHistory(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [selected]);
+
+  const formatDate = (timestamp: string) =>
+    new Date(timestamp).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
+  const entries = history?.entries ?? [];
+  const labels = entries.map(e => formatDate(e.timestamp));
+  const first = entries[0];
+  const latest = entries[entries.length - 1];
+  const maxWords = Math.max(100, ...entries.map(e => e.wordCount));
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-zinc-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-zinc-900 border-b border-gray-200 dark:border-zinc-800">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <Search className="w-5 h-5 text-white" />
+            </div>
+            <span className="font-bold text-lg">AI Search Optimizer</span>
+          </Link>
+
+          <Link href="/dashboard" className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="w-4 h-4" />
+            Back to analyzer
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8">
+        <div className="flex items-center gap-2 mb-6">
+          <History className="w-5 h-5 text-blue-600" />
+          <h1 className="font-semibold text-lg">Score History</h1>
+        </div>
+
+        {error && (
+          <div className="card p-4 mb-6 border-red-200 bg-red-50 dark:bg-red-900/20">
+            <div className="flex items-center gap-3 text-red-700 dark:text-red-400">
+              <AlertCircle className="w-5 h-5" />
+              <p>{error}</p>
+            </div>
+          </div>
+        )}
+
+        {urls === null ? (
+          <div className="card p-12 flex justify-center">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+          </div>
+        ) : urls.length === 0 ? (
+          <div className="card p-12 text-center text-gray-500">
+            No scans yet. <Link href="/dashboard" className="text-blue-600 hover:underline">Analyze a page</Link> to start tracking it.
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-[260px_1fr] gap-6">
+            {/* Tracked URLs */}
+            <div className="card p-2 h-fit">
+              {urls.map((tracked) => (
+                <button
+                  key={tracked.key}
+                  type="button"
+                  onClick={() => setSelected(tracked.url)}
+                  className={`w-full text-left p-3 rounded-lg ${
+                    selected === tracked.url ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-zinc-800'
+                  }`}
+                >
+                  <span className="block text-sm font-medium truncate">{tracked.url.replace(/^https?:\/\//, '')}</span>
+                  <span className="text-xs text-gray-500 flex items-center gap-1">
+                    {tracked.firstGrade}
+                    <ArrowRight className="w-3 h-3" />
+                    {tracked.latestGrade}
+                    <span className="ml-1">· {tracked.scans} {tracked.scans === 1 ? 'scan' : 'scans'}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {/* Selected URL */}
+            <div className="space-y-6">
+              {loading || !history ? (
+                <div className="card p-12 flex justify-center">
+                  <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                </div>
+              ) : (
+                <>
+                  {/* Summary */}
+                  <div className="card p-6 flex flex-wrap items-center gap-6">
+                    <div className="text-center">
+                      <span className="text-xs text-gray-500 uppercase">First scan</span>
+                      <p className="text-3xl font-bold">{first.grade}</p>
+                      <p className="text-sm text-gray-500">{first.score}/100</p>
+                    </div>
+                    <ArrowRight className="w-6 h-6 text-gray-400" />
+                    <div className="text-center">
+                      <span className="text-xs text-gray-500 uppercase">Latest</span>
+                      <p className="text-3xl font-bold">{latest.grade}</p>
+                      <p className="text-sm text-gray-500">{latest.score}/100</p>
+                    </div>
+                    <div className="ml-auto text-sm text-gray-500">
+                      <p className={latest.score >= first.score ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+                        {latest.score >= first.score ? '+' : ''}{latest.score - first.score} points
+                      </p>
+                      <p>{entries.length} scans since {formatDate(first.timestamp)}</p>
+                    </div>
+                  </div>
+
+                  {/* Overall score */}
+                  <div className="card p-6">
+                    <h3 className="font-semibold mb-4">Overall Score</h3>
+                    <LineChart
+                      series={[{ label: 'Score', color: '#2563eb', values: entries.map(e => e.score) }]}
+                      labels={labels}
+                      max={100}
+                      guides={GRADE_LINES}
+                    />
+                  </div>
+
+                  {/* Categories */}
+                  <div className="card p-6">
+                    <h3 className="font-semibold mb-4">Categories</h3>
+                    <LineChart
+                      series={CATEGORY_SERIES.map(c => ({
+                        label: c.label,
+                        color: c.color,
+                        values: entries.map(e => e.categories[c.key as keyof typeof e.categories] ?? null),
+                      }))}
+                      labels={labels}
+                      max={100}
+                    />
+                    <div className="flex flex-wrap gap-4 mt-3">
+                      {CATEGORY_SERIES.map((c) => (
+                        <span key={c.key} className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: c.color }} />
+                          {c.label}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Word count */}
+                  <div className="card p-6">
+                    <h3 className="font-semibold mb-4">Word Count</h3>
+                    <LineChart
+                      series={[{ label: 'Words', color: '#9333ea', values: entries.map(e => e.wordCount) }]}
+                      labels={labels}
+                      max={maxWords}
+                    />
+                  </div>
+
+                  {/* Scan log */}
+                  <div className="card p-6">
+                    <h3 className="font-semibold mb-4">Scans</h3>
+                    <div className="space-y-3">
+                      {[...entries].reverse().map((entry, i) => (
+                        <div key={`${entry.timestamp}-${i}`} className="border-b border-gray-100 dark:border-zinc-800 pb-3 last:border-0">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-gray-500">{new Date(entry.timestamp).toLocaleString('en-GB')}</span>
+                            <span className="font-medium">{entry.score} ({entry.grade})</span>
+                          </div>
+                          {entry.flipped.nowPassing.map((id) => (
+                            <p key={id} className="text-xs text-green-700 dark:text-green-300 flex items-center gap-1 mt-1">
+                              <CheckCircle className="w-3 h-3" />
+                              Now passing: {history.checkNames[id] || id}
+                            </p>
+                          ))}
+                          {entry.flipped.nowFailing.map((id) => (
+                            <p key={id} className="text-xs text-red-700 dark:text-red-300 flex items-center gap-1 mt-1">
+                              <XCircle className="w-3 h-3" />
+                              Now failing: {history.checkNames[id] || id}
+                            </p>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -24,9 +24,26 @@ import {
   FileEdit,
   TrendingUp,
   MessageCircle,
-  Wand2
+  Wand2,
+  Share2,
+  Copy,
+  Download
 } from 'lucide-react';
-import type { AnalysisResult } from '@/lib/analyzer';
+import type { AnalysisResult, AnalysisStage } from '@/lib/analyzer';
+import { readAnalysisStream } from '@/lib/analysis-stream';
+import type { ExportFormat } from '@/lib/export';
+import { listScoringProfiles } from '@/lib/scoring-profiles';
+
+const SCORING_PROFILES = listScoringProfiles();
+
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  fetch: 'Fetching page',
+  parse: 'Parsing content',
+  checks: 'Running checks',
+  insights: 'Generating insights',
+  ai: 'Claude analysis',
+  scoring: 'Scoring',
+};
 
 export default function DashboardPage() {
   const [url, setUrl] = useState('');
@@ -35,28 +52,75 @@ export default function DashboardPage() {
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [mounted, setMounted] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'ai-analysis' | 'improvements' | 'citations'>('overview');
+  const [inputMode, setInputMode] = useState<'url' | 'html'>('url');
+  const [htmlInput, setHtmlInput] = useState('');
+  const [htmlFile, setHtmlFile] = useState<File | null>(null);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [stage, setStage] = useState<AnalysisStage | null>(null);
+  // Empty means the analyzer picks the profile from the detected page type
+  const [scoringProfile, setScoringProfile] = useState('');
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  const handleAnalyze = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!url.trim()) return;
+  const handleAnalyze = async (e?: React.FormEvent, force = false) => {
+    e?.preventDefault();
+    if (inputMode === 'url' ? !url.trim() : !htmlFile && !htmlInput.trim()) return;
 
     setLoading(true);
     setError(null);
     setResult(null);
+    setShareUrl(null);
+    setStage(null);
 
     try {
-      const response = await fetch('/api/demo-analyze', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: url.trim() }),
-      });
+      let response: Response;
+      if (inputMode === 'html') {
+        const form = new FormData();
+        if (htmlFile) {
+          form.append('file', htmlFile);
+        } else {
+          form.append('html', htmlInput);
+        }
+        if (baseUrl.trim()) form.append('baseUrl', baseUrl.trim());
+        if (scoringProfile) form.append('scoringProfile', scoringProfile);
+        response = await fetch('/api/analyze-html', {
+          method: 'POST',
+          headers: { Accept: 'text/event-stream' },
+          body: form,
+        });
+      } else {
+        response = await fetch('/api/demo-analyze', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+          body: JSON.stringify({ url: url.trim(), force, scoringProfile: scoringProfile || undefined }),
+        });
+      }
 
       // Check content type before parsing
       const contentType = response.headers.get('content-type');
+
+      // Progress stream: show the heuristic report first, then swap in the final one
+      if (response.ok && contentType?.includes('text/event-stream')) {
+        let showedPartial = false;
+        const final = await readAnalysisStream(response, (event) => {
+          if (event.event === 'stage') {
+            setStage(event.data.stage);
+          } else {
+            setResult(event.data);
+            if (!showedPartial) setActiveTab('overview');
+            showedPartial = true;
+          }
+        });
+        // Keep whichever tab the user moved to while Claude was running
+        setResult(final);
+        if (!showedPartial) setActiveTab('overview');
+        return;
+      }
       
       if (!contentType || !contentType.includes('application/json')) {
         // Server returned HTML error page
@@ -84,6 +148,68 @@ export default function DashboardPage() {
       }
     } finally {
       setLoading(false);
+      setStage(null);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!result?.scanId) return;
+    setSharing(true);
+    setError(null);
+
+    try {
+      const saveResponse = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scanId: result.scanId }),
+      });
+      const saved = await saveResponse.json();
+      if (!saveResponse.ok) {
+        throw new Error(saved.error || 'Failed to save report');
+      }
+
+      const shareResponse = await fetch(`/api/reports/${saved.id}/share`, { method: 'POST' });
+      const shared = await shareResponse.json();
+      if (!shareResponse.ok) {
+        throw new Error(shared.error || 'Failed to create share link');
+      }
+
+      setShareUrl(shared.shareUrl);
+    } catch (err) {
+      console.error('Share error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to share report');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!result?.scanId) return;
+    setExporting(format);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/export/${format}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scanId: result.scanId }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export report');
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `ai-search-report.${format}`;
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(await response.blob());
+      link.download = filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 0);
+    } catch (err) {
+      console.error('Export error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export report');
+    } finally {
+      setExporting(null);
     }
   };
 
@@ -146,9 +272,20 @@ export default function DashboardPage() {
             <span className="font-bold text-lg">AI Search Optimizer</span>
           </Link>
           
-          <div className="flex items-center gap-2">
-            <Brain className="w-4 h-4 text-purple-600" />
-            <span className="text-sm text-purple-600 font-medium">Powered by Claude AI</span>
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard/history" className="text-sm text-gray-600 hover:text-gray-900 font-medium">
+              History
+            </Link>
+            <Link href="/dashboard/compare" className="text-sm text-gray-600 hover:text-gray-900 font-medium">
+              Compare competitors
+            </Link>
+            <Link href="/dashboard/api-keys" className="text-sm text-gray-600 hover:text-gray-900 font-medium">
+              API keys
+            </Link>
+            <div className="flex items-center gap-2">
+              <Brain className="w-4 h-4 text-purple-600" />
+              <span className="text-sm text-purple-600 font-medium">Powered by Claude AI</span>
+            </div>
           </div>
         </div>
       </header>
@@ -156,27 +293,91 @@ export default function DashboardPage() {
       <main className="max-w-6xl mx-auto px-4 py-8">
         {/* URL Input */}
         <div className="card p-6 mb-8">
+          <div className="flex gap-1 mb-4 text-sm">
+            <button
+              type="button"
+              onClick={() => setInputMode('url')}
+              className={`px-3 py-1 rounded-md ${inputMode === 'url' ? 'bg-blue-100 text-blue-700 font-medium' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              URL
+            </button>
+            <button
+              type="button"
+              onClick={() => setInputMode('html')}
+              className={`px-3 py-1 rounded-md ${inputMode === 'html' ? 'bg-blue-100 text-blue-700 font-medium' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              Paste or upload HTML
+            </button>
+          </div>
           <form onSubmit={handleAnalyze} className="flex flex-col md:flex-row gap-4">
             <div className="flex-1">
-              <label htmlFor="url" className="sr-only">URL to analyze</label>
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
-                <input
-                  id="url"
-                  type="url"
-                  value={url}
-                  onChange={(e) => setUrl(e.target.value)}
-                  placeholder="Enter URL to analyze (e.g., https://example.com/blog/article)"
-                  className="w-full pl-10 pr-4 py-3 rounded-lg border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 focus:ring-2 focus:ring-blue-500"
-                  disabled={loading}
-                  required
-                />
-              </div>
+              {inputMode === 'url' ? (
+                <>
+                  <label htmlFor="url" className="sr-only">URL to analyze</label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                    <input
+                      id="url"
+                      type="url"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      placeholder="Enter URL to analyze (e.g., https://example.com/blog/article)"
+                      className="w-full pl-10 pr-4 py-3 rounded-lg border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 focus:ring-2 focus:ring-blue-500"
+                      disabled={loading}
+                      required
+                    />
+                  </div>
+                </>
+              ) : (
+                <div className="space-y-3">
+                  <label htmlFor="html" className="sr-only">HTML to analyze</label>
+                  <textarea
+                    id="html"
+                    value={htmlInput}
+                    onChange={(e) => setHtmlInput(e.target.value)}
+                    placeholder="Paste the page HTML here..."
+                    rows={6}
+                    className="w-full px-4 py-3 rounded-lg border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 focus:ring-2 focus:ring-blue-500 font-mono text-xs"
+                    disabled={loading || !!htmlFile}
+                  />
+                  <div className="flex flex-col md:flex-row gap-3">
+                    <input
+                      type="file"
+                      accept=".html,.htm,text/html"
+                      onChange={(e) => setHtmlFile(e.target.files?.[0] || null)}
+                      className="text-sm text-gray-500"
+                      disabled={loading}
+                    />
+                    <input
+                      type="url"
+                      value={baseUrl}
+                      onChange={(e) => setBaseUrl(e.target.value)}
+                      placeholder="Base URL (optional, e.g. https://staging.example.com/post)"
+                      className="flex-1 px-4 py-2 rounded-lg border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 focus:ring-2 focus:ring-blue-500 text-sm"
+                      disabled={loading}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
+            <label htmlFor="scoring-profile" className="sr-only">Scoring profile</label>
+            <select
+              id="scoring-profile"
+              value={scoringProfile}
+              onChange={(e) => setScoringProfile(e.target.value)}
+              className="px-3 py-3 rounded-lg border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 focus:ring-2 focus:ring-blue-500 text-sm md:self-start"
+              title={SCORING_PROFILES.find(p => p.id === scoringProfile)?.description ?? 'Weights are picked from the detected page type'}
+              disabled={loading}
+            >
+              <option value="">Auto-detect page type</option>
+              {SCORING_PROFILES.map((profile) => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
             <button
               type="submit"
-              disabled={loading || !url.trim()}
-              className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-medium rounded-lg flex items-center justify-center gap-2 min-w-[180px]"
+              disabled={loading || (inputMode === 'url' ? !url.trim() : !htmlFile && !htmlInput.trim())}
+              className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-medium rounded-lg flex items-center justify-center gap-2 min-w-[180px] md:self-start"
             >
               {loading ? (
                 <>
@@ -208,29 +409,57 @@ export default function DashboardPage() {
         )}
 
         {/* Loading */}
-        {loading && (
+        {loading && !result && (
           <div className="card p-12 text-center">
             <div className="relative w-16 h-16 mx-auto mb-4">
               <Loader2 className="w-16 h-16 animate-spin text-blue-600" />
               <Brain className="w-6 h-6 text-purple-600 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2" />
             </div>
             <p className="text-gray-600 dark:text-gray-400 font-medium">
-              Claude is analyzing your page...
+              {stage ? `${STAGE_LABELS[stage]}...` : 'Claude is analyzing your page...'}
             </p>
             <p className="text-sm text-gray-500 mt-2">
               Simulating AI citations, identifying improvements, and generating recommendations
             </p>
-            <div className="flex justify-center gap-2 mt-4">
-              <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded">Fetching content</span>
-              <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded">AI analysis</span>
-              <span className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded">Generating insights</span>
+            <div className="flex flex-wrap justify-center gap-2 mt-4">
+              {(Object.keys(STAGE_LABELS) as AnalysisStage[])
+                .filter((name) => inputMode === 'url' || name !== 'fetch')
+                .map((name, i, stages) => {
+                  const current = stage ? stages.indexOf(stage) : -1;
+                  return (
+                    <span
+                      key={name}
+                      className={`px-2 py-1 text-xs rounded ${
+                        i < current
+                          ? 'bg-green-100 text-green-700'
+                          : i === current
+                            ? 'bg-blue-100 text-blue-700'
+                            : 'bg-gray-100 text-gray-500 dark:bg-zinc-800'
+                      }`}
+                    >
+                      {STAGE_LABELS[name]}
+                    </span>
+                  );
+                })}
             </div>
           </div>
         )}
 
         {/* Results */}
-        {result && !loading && (
+        {result && (
           <div className="space-y-6">
+            {/* Heuristic results are in; Claude's pass will replace them */}
+            {loading && (
+              <div className="card p-4 border-purple-200 bg-purple-50 dark:bg-purple-900/20">
+                <div className="flex items-center gap-3 text-purple-700 dark:text-purple-300">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  <p className="text-sm">
+                    Showing the heuristic score while Claude analyzes the page. The score and AI insights will update when it finishes.
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Score Overview Card */}
             <div className="card p-6">
               <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
@@ -248,7 +477,11 @@ export default function DashboardPage() {
                     <div className="flex flex-wrap gap-3 mt-2 text-sm text-gray-500">
                       <span>{result.metadata.wordCount.toLocaleString()} words</span>
                       <span>•</span>
-                      <span>{(result.metadata.loadTime / 1000).toFixed(1)}s load</span>
+                      {result.metadata.source === 'html' ? (
+                        <span>Pasted HTML</span>
+                      ) : (
+                        <span>{(result.metadata.loadTime / 1000).toFixed(1)}s load</span>
+                      )}
                       <span>•</span>
                       <span>Readability: {result.metadata.readabilityScore}/100</span>
                     </div>
@@ -258,6 +491,91 @@ export default function DashboardPage() {
                         <span className="text-sm text-purple-600 font-medium">AI-Powered Analysis</span>
                       </div>
                     )}
+                    {result.scoring && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Scored as {result.scoring.profileName}:{' '}
+                        {result.scoring.overridden ? 'chosen for this scan' : result.scoring.contentType.evidence}
+                      </p>
+                    )}
+                    {result.aiAnalysis?.provenance && result.aiAnalysis.provenance.defaultedFields.length > 0 && (
+                      <p
+                        className="mt-1 text-xs text-yellow-700 dark:text-yellow-400"
+                        title={result.aiAnalysis.provenance.defaultedFields.join(', ')}
+                      >
+                        Part of the AI response was missing or malformed; {result.aiAnalysis.provenance.defaultedFields.length} field(s) show defaults.
+                      </p>
+                    )}
+                    {result.metadata.cache?.aiAnalysisReused && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Page unchanged since the last scan, so Claude&apos;s analysis was reused.{' '}
+                        <button
+                          type="button"
+                          onClick={() => handleAnalyze(undefined, true)}
+                          disabled={loading}
+                          className="font-medium text-blue-600 hover:underline disabled:opacity-50"
+                        >
+                          Re-analyze from scratch
+                        </button>
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-col items-start md:items-end gap-2">
+                  {shareUrl ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        readOnly
+                        value={shareUrl}
+                        onFocus={(e) => e.target.select()}
+                        className="w-64 px-3 py-2 text-xs rounded-lg border border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800"
+                        aria-label="Share link"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => navigator.clipboard.writeText(shareUrl)}
+                        className="p-2 text-gray-500 hover:text-gray-700"
+                        aria-label="Copy share link"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={handleShare}
+                      disabled={sharing || loading || !result.scanId || result.metadata.source === 'html'}
+                      title={result.scanId && result.metadata.source !== 'html' ? undefined : 'Only signed-in URL scans can be saved and shared'}
+                      className="px-4 py-2 text-sm font-medium rounded-lg border border-gray-200 dark:border-zinc-700 hover:bg-gray-50 dark:hover:bg-zinc-800 disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {sharing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />}
+                      Save &amp; share
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleExport('pdf')}
+                    disabled={exporting !== null || loading || !result.scanId}
+                    title={result.scanId ? undefined : 'Export is available for signed-in scans'}
+                    className="px-4 py-2 text-sm font-medium rounded-lg border border-gray-200 dark:border-zinc-700 hover:bg-gray-50 dark:hover:bg-zinc-800 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {exporting === 'pdf' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    Download PDF
+                  </button>
+                  <div className="flex items-center gap-3 text-xs text-gray-500">
+                    <span>Also as</span>
+                    {([['markdown', 'Markdown'], ['csv', 'CSV'], ['json', 'JSON']] as const).map(([format, label]) => (
+                      <button
+                        key={format}
+                        type="button"
+                        onClick={() => handleExport(format)}
+                        disabled={exporting !== null || loading || !result.scanId}
+                        className="font-medium text-blue-600 hover:underline disabled:opacity-50 flex items-center gap-1"
+                      >
+                        {exporting === format && <Loader2 className="w-3 h-3 animate-spin" />}
+                        {label}
+                      </button>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -338,6 +656,7 @@ export default function DashboardPage() {
                         technicalSeo: 'Technical SEO',
                         credibilitySignals: 'Credibility Signals',
                         aiSpecificFactors: 'AI-Specific Factors',
+                        crawlerAccess: 'AI Crawler Access',
                       };
                       
                       return (
@@ -398,6 +717,158 @@ export default function DashboardPage() {
                   </div>
                 )}
 
+                {/* Content Extraction */}
+                {result.contentExtraction && (
+                  <div className="card p-6 md:col-span-2">
+                    <h3 className="font-semibold mb-1">Content Analyzed</h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                      {result.contentExtraction.method === 'scored'
+                        ? `Kept ${result.contentExtraction.keptWordCount.toLocaleString()} words of main content, discarded ${result.contentExtraction.discardedWordCount.toLocaleString()} words of boilerplate`
+                        : 'No clear main content block was found, so the whole page was analyzed'}
+                    </p>
+                    <div className="grid md:grid-cols-2 gap-4">
+                      <div>
+                        <h4 className="text-xs text-green-700 dark:text-green-300 uppercase font-medium mb-2">Kept</h4>
+                        <ul className="space-y-2">
+                          {result.contentExtraction.kept.map((block, i) => (
+                            <li key={i} className="p-2 bg-green-50 dark:bg-green-900/20 rounded text-sm">
+                              <div className="flex justify-between gap-2">
+                                <code className="text-xs">{block.label}</code>
+                                <span className="text-xs text-gray-500">{block.wordCount} words</span>
+                              </div>
+                              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{block.preview}</p>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                      <div>
+                        <h4 className="text-xs text-red-700 dark:text-red-300 uppercase font-medium mb-2">Discarded</h4>
+                        <ul className="space-y-2">
+                          {result.contentExtraction.discarded.map((block, i) => (
+                            <li key={i} className="p-2 bg-red-50 dark:bg-red-900/20 rounded text-sm">
+                              <div className="flex justify-between gap-2">
+                                <code className="text-xs">{block.label}</code>
+                                <span className="text-xs text-gray-500">{block.reason}</span>
+                              </div>
+                              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{block.preview}</p>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Structured Data */}
+                {result.structuredData && (
+                  <div className="card p-6 md:col-span-2">
+                    <h3 className="font-semibold mb-1">Structured Data</h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                      {result.structuredData.jsonLdBlocks} JSON-LD block(s), {result.structuredData.microdataItems} microdata item(s)
+                    </p>
+                    {result.structuredData.parseErrors.map((err) => (
+                      <div key={err.block} className="mb-2 p-3 bg-red-50 dark:bg-red-900/20 rounded text-sm text-red-700 dark:text-red-300 flex items-start gap-2">
+                        <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <span>JSON-LD block {err.block}{err.line !== null && ` (line ${err.line}, column ${err.column})`}: {err.message}</span>
+                      </div>
+                    ))}
+                    <div className="space-y-2">
+                      {result.structuredData.items.map((item, i) => {
+                        const problems = [...item.missingRequired.map((p) => `missing ${p}`), ...item.issues];
+                        return (
+                          <div key={i} className="p-3 bg-gray-50 dark:bg-zinc-800 rounded text-sm">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2">
+                                {problems.length === 0 ? (
+                                  <CheckCircle className="w-4 h-4 text-green-500" />
+                                ) : (
+                                  <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                                )}
+                                <span className="font-medium">{item.types.join(', ')}</span>
+                              </div>
+                              <span className="text-xs text-gray-500">{item.source}</span>
+                            </div>
+                            {problems.length > 0 && (
+                              <p className="mt-1 text-xs text-yellow-700 dark:text-yellow-300">{problems.join('; ')}</p>
+                            )}
+                            {item.missingRecommended.length > 0 && (
+                              <p className="mt-1 text-xs text-gray-500">Recommended: {item.missingRecommended.join(', ')}</p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {/* AI Crawler Access */}
+                {result.crawlerAccess && (
+                  <div className="card p-6 md:col-span-2">
+                    <h3 className="font-semibold mb-1">AI Crawler Access</h3>
+                    <p className="text-sm text-gray-500 mb-4">
+                      {result.crawlerAccess.robotsTxt.status === 'found'
+                        ? `Rules from ${result.crawlerAccess.robotsTxt.url} for ${result.crawlerAccess.path}`
+                        : result.crawlerAccess.robotsTxt.status === 'not-checked'
+                          ? 'robots.txt was not checked for pasted HTML'
+                          : result.crawlerAccess.robotsTxt.status === 'error'
+                            ? `${result.crawlerAccess.robotsTxt.url} failed to load - crawlers treat the site as blocked`
+                            : 'robots.txt missing - all crawlers allowed by default'}
+                    </p>
+                    <div className="grid sm:grid-cols-2 md:grid-cols-3 gap-2">
+                      {result.crawlerAccess.crawlers.map((crawler) => (
+                        <div key={crawler.userAgent} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-zinc-800 rounded text-sm">
+                          <div className="flex items-center gap-2">
+                            {crawler.allowed ? (
+                              <CheckCircle className="w-4 h-4 text-green-500" />
+                            ) : (
+                              <XCircle className="w-4 h-4 text-red-500" />
+                            )}
+                            <span className="font-medium">{crawler.userAgent}</span>
+                          </div>
+                          <span className="text-xs text-gray-500" title={crawler.matchedRule || undefined}>
+                            {crawler.operator}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    {result.crawlerAccess.pageDirectives.sources.length > 0 && (
+                      <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 rounded text-sm text-red-700 dark:text-red-300 flex items-start gap-2">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <span>{result.crawlerAccess.pageDirectives.sources.join('; ')}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Entities */}
+                {result.insights.entities.length > 0 && (
+                  <div className="card p-6 md:col-span-2">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Users className="w-5 h-5 text-indigo-600" />
+                      <h3 className="font-semibold">Entities</h3>
+                    </div>
+                    <p className="text-sm text-gray-500 mb-4">
+                      People, organizations and concepts AI assistants can attribute this content to
+                    </p>
+                    <div className="grid sm:grid-cols-2 gap-2">
+                      {result.insights.entities.map((entity) => (
+                        <div key={`${entity.type}-${entity.name}`} className="p-3 bg-gray-50 dark:bg-zinc-800 rounded text-sm" title={entity.context}>
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium truncate">{entity.name}</span>
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300 flex-shrink-0">
+                              {entity.type}
+                            </span>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {entity.mentions} {entity.mentions === 1 ? 'mention' : 'mentions'}
+                            {entity.source === 'structured-data' && ' · declared in schema'}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Competitive Analysis */}
                 {result.aiAnalysis?.competitiveAnalysis && (
                   <div className="card p-6 md:col-span-2">
@@ -492,6 +963,78 @@ export default function DashboardPage() {
                   </div>
                 )}
 
+                {/* Chunk Citability */}
+                {result.chunks.chunks.length > 0 && (
+                  <div className="card p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <div className="flex items-center gap-2">
+                        <BookOpen className="w-5 h-5 text-orange-600" />
+                        <h3 className="font-semibold">Section Citability</h3>
+                      </div>
+                      <span className="text-sm text-gray-500">
+                        {result.chunks.chunks.length} sections · average {result.chunks.averageScore}/100
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500 mb-6">
+                      AI assistants quote sections, not pages. Each section should make sense on its own.
+                    </p>
+
+                    {result.chunks.weakest.length > 0 ? (
+                      <div className="space-y-4">
+                        {result.chunks.weakest.map((chunk, i) => (
+                          <div key={i} className="p-4 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
+                            <div className="flex items-center justify-between gap-2 mb-1">
+                              <span className="text-sm font-medium">{chunk.headingPath.join(' › ') || 'Introduction'}</span>
+                              <span className="text-sm font-semibold text-orange-700 dark:text-orange-300">{chunk.score}/100</span>
+                            </div>
+                            <p className="text-sm text-gray-600 dark:text-gray-400 italic mb-2">{chunk.preview}</p>
+                            <ul className="space-y-1">
+                              {chunk.issues.map((issue, j) => (
+                                <li key={j} className="text-xs text-orange-700 dark:text-orange-300">• {issue}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg text-sm text-green-700 dark:text-green-300 flex items-center gap-2">
+                        <CheckCircle className="w-4 h-4" />
+                        Every section stands on its own
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Local Retrieval Previews */}
+                {result.insights.citationPreviews.length > 0 && (
+                  <div className="card p-6">
+                    <div className="flex items-center gap-2 mb-4">
+                      <Quote className="w-5 h-5 text-green-600" />
+                      <h3 className="font-semibold">Passages Retrieved for Likely Queries</h3>
+                    </div>
+                    <p className="text-sm text-gray-500 mb-6">
+                      The passage a search engine&apos;s retriever would most likely pull for each query, ranked locally with BM25.
+                    </p>
+
+                    <div className="space-y-4">
+                      {result.insights.citationPreviews.map((preview, i) => (
+                        <div key={i} className="border border-gray-200 dark:border-zinc-700 rounded-lg p-4">
+                          <div className="flex items-center justify-between gap-2 mb-2">
+                            <p className="text-sm font-medium">&quot;{preview.query}&quot;</p>
+                            <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${getConfidenceColor(preview.confidence)}`}>
+                              {preview.confidence} match
+                            </span>
+                          </div>
+                          <p className="text-sm italic text-gray-700 dark:text-gray-300 border-l-4 border-green-400 pl-3">
+                            {preview.citation}
+                          </p>
+                          <p className="text-xs text-gray-500 mt-2">{preview.source}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Likely Queries */}
                 {result.aiAnalysis?.citationSimulation?.likelyQueries && (
                   <div className="card p-6">
@@ -534,6 +1077,9 @@ export default function DashboardPage() {
                               {imp.priority}
                             </span>
                           </div>
+                          {imp.section && (
+                            <p className="text-xs text-gray-500 mb-2">Section: {imp.section}</p>
+                          )}
                           <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">{imp.recommendation}</p>
                           {imp.exampleFix && (
                             <div className="p-3 bg-green-50 dark:bg-green-900/20 rounded text-sm">
@@ -559,6 +1105,9 @@ export default function DashboardPage() {
                       {result.aiAnalysis.missingContent.map((content, i) => (
                         <div key={i} className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-100 dark:border-red-900">
                           <h4 className="font-medium text-red-800 dark:text-red-200">{content.topic}</h4>
+                          {content.section && (
+                            <p className="text-xs text-red-600 dark:text-red-400 mt-0.5">Section: {content.section}</p>
+                          )}
                           <p className="text-sm text-red-700 dark:text-red-300 mt-1">{content.reason}</p>
                           <div className="mt-3 p-3 bg-white dark:bg-zinc-800 rounded">
                             <span className="text-xs text-gray-500 uppercase">Suggested content:</span>
@@ -575,6 +1124,36 @@ export default function DashboardPage() {
             {/* AI Deep Dive Tab */}
             {activeTab === 'ai-analysis' && (
               <div className="space-y-6">
+                {/* Long-document coverage */}
+                {result.aiAnalysis?.longDocument && (
+                  <div className="card p-6">
+                    <div className="flex items-center gap-2 mb-2">
+                      <BookOpen className="w-5 h-5 text-purple-600" />
+                      <h3 className="font-semibold">Sections Reviewed</h3>
+                    </div>
+                    <p className="text-sm text-gray-500 mb-4">
+                      This page was too long for a single pass, so Claude reviewed it section by section
+                      ({result.aiAnalysis.longDocument.tokensUsed.toLocaleString()} of {result.aiAnalysis.longDocument.tokenBudget.toLocaleString()} tokens).
+                    </p>
+                    <div className="space-y-2">
+                      {result.aiAnalysis.longDocument.sections.map((section, i) => (
+                        <div key={i} className="flex items-center justify-between gap-3 text-sm">
+                          <span className="truncate">{section.heading}</span>
+                          <span className={`text-xs px-2 py-0.5 rounded shrink-0 ${
+                            section.status === 'analyzed'
+                              ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                              : section.status === 'failed'
+                                ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+                                : 'bg-gray-100 text-gray-600 dark:bg-zinc-800 dark:text-gray-400'
+                          }`}>
+                            {section.status === 'analyzed' ? `${section.findings} findings` : section.status}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Rewrite Suggestions */}
                 {result.aiAnalysis?.rewriteSuggestions && result.aiAnalysis.rewriteSuggestions.length > 0 && (
                   <div className="card p-6">
@@ -593,6 +1172,9 @@ export default function DashboardPage() {
                             <div className="flex items-center gap-2 mb-2">
                               <XCircle className="w-4 h-4 text-red-500" />
                               <span className="text-xs text-red-600 dark:text-red-400 uppercase font-medium">Original (weak)</span>
+                              {rewrite.section && (
+                                <span className="text-xs text-gray-500 ml-auto">{rewrite.section}</span>
+                              )}
                             </div>
                             <p className="text-sm text-red-800 dark:text-red-200">&quot;{rewrite.original}&quot;</p>
                           </div>
@@ -611,12 +1193,22 @@ export default function DashboardPage() {
                 )}
 
                 {/* No AI Analysis Fallback */}
-                {!result.aiAnalysis && (
+                {!result.aiAnalysis && loading && (
+                  <div className="card p-12 text-center">
+                    <Loader2 className="w-12 h-12 animate-spin text-purple-600 mx-auto mb-4" />
+                    <h3 className="font-medium text-gray-600 mb-2">Claude is analyzing your page...</h3>
+                    <p className="text-sm text-gray-500">
+                      The AI analysis will appear here when it finishes.
+                    </p>
+                  </div>
+                )}
+
+                {!result.aiAnalysis && !loading && (
                   <div className="card p-12 text-center">
                     <Brain className="w-12 h-12 text-gray-300 mx-auto mb-4" />
                     <h3 className="font-medium text-gray-600 mb-2">AI Analysis Not Available</h3>
                     <p className="text-sm text-gray-500">
-                      Configure your ANTHROPIC_API_KEY to enable Claude-powered analysis.
+                      Configure ANTHROPIC_API_KEY or another LLM_PROVIDER to enable AI-powered analysis.
                     </p>
                   </div>
                 )}
@@ -203,6 +203,7 @@ export default function DemoPage() {
                     technicalSeo: 'Technical SEO',
                     credibilitySignals: 'Credibility Signals',
                     aiSpecificFactors: 'AI-Specific Factors',
+                    crawlerAccess: 'AI Crawler Access',
                   };
                   
                   return (
@@ -0,0 +1,160 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Search, CheckCircle, XCircle, ExternalLink, Download } from 'lucide-react';
+import { getReportStore } from '@/lib/report-store';
+import { getUserPlan } from '@/lib/user';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const CATEGORY_NAMES: Record<string, string> = {
+  contentStructure: 'Content Structure',
+  citationReadiness: 'Citation Readiness',
+  technicalSeo: 'Technical SEO',
+  credibilitySignals: 'Credibility Signals',
+  aiSpecificFactors: 'AI-Specific Factors',
+  crawlerAccess: 'AI Crawler Access',
+};
+
+const GRADE_COLORS: Record<string, string> = {
+  A: 'bg-green-500',
+  B: 'bg-lime-500',
+  C: 'bg-yellow-500',
+  D: 'bg-orange-500',
+  F: 'bg-red-500',
+};
+
+const PRIORITY_COLORS: Record<string, string> = {
+  critical: 'bg-red-100 text-red-700',
+  high: 'bg-orange-100 text-orange-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  low: 'bg-blue-100 text-blue-700',
+};
+
+export default async function SharedReportPage({ params }: { params: { token: string } }) {
+  const report = await getReportStore().getByShareToken(params.token);
+  if (!report) notFound();
+
+  const { result } = report;
+  // PDF downloads follow the owner's plan
+  const pdfAvailable = await getUserPlan(report.userId) === 'pro';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-zinc-950">
+      {/* Header */}
+      <header className="bg-white dark:bg-zinc-900 border-b border-gray-200 dark:border-zinc-800">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <Search className="w-5 h-5 text-white" />
+            </div>
+            <span className="font-bold text-lg">AI Search Optimizer</span>
+          </Link>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-gray-500">Shared report</span>
+            {pdfAvailable && (
+              <a
+                href={`/api/share/${params.token}/export/pdf`}
+                className="text-sm font-medium text-blue-600 hover:underline flex items-center gap-1"
+              >
+                <Download className="w-4 h-4" />
+                PDF
+              </a>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {/* Score */}
+        <div className="card p-6 flex items-center gap-6">
+          <div className={`w-20 h-20 rounded-full ${GRADE_COLORS[result.grade] || 'bg-gray-500'} flex flex-col items-center justify-center text-white flex-shrink-0`}>
+            <span className="text-3xl font-bold">{result.grade}</span>
+            <span className="text-xs">{result.score}/100</span>
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold truncate">{result.metadata.title || result.metadata.domain}</h1>
+            <a href={result.url} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:underline flex items-center gap-1 truncate">
+              {result.url}
+              <ExternalLink className="w-3 h-3 flex-shrink-0" />
+            </a>
+            <p className="text-xs text-gray-500 mt-1">
+              Analyzed {new Date(result.timestamp).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+              {' · '}{result.metadata.wordCount} words
+            </p>
+          </div>
+        </div>
+
+        {/* Categories */}
+        <div className="card p-6">
+          <h2 className="font-semibold mb-4">Category Breakdown</h2>
+          <div className="space-y-4">
+            {Object.entries(result.categories).map(([key, cat]) => (
+              <div key={key}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium">{CATEGORY_NAMES[key] || key}</span>
+                  <span className="text-sm font-medium">{cat.percentage}%</span>
+                </div>
+                <div className="progress-bar">
+                  <div
+                    className={`progress-fill ${
+                      cat.status === 'good' ? 'bg-green-500' :
+                      cat.status === 'warning' ? 'bg-yellow-500' : 'bg-red-500'
+                    }`}
+                    style={{ width: `${cat.percentage}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Recommendations */}
+        {result.topRecommendations.length > 0 && (
+          <div className="card p-6">
+            <h2 className="font-semibold mb-4">Top Recommendations</h2>
+            <div className="space-y-4">
+              {result.topRecommendations.map((rec) => (
+                <div key={rec.id} className="border-b border-gray-100 dark:border-zinc-800 pb-4 last:border-0 last:pb-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${PRIORITY_COLORS[rec.priority] || 'bg-gray-100 text-gray-600'}`}>
+                      {rec.priority}
+                    </span>
+                    <h3 className="font-medium text-sm">{rec.title}</h3>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{rec.description}</p>
+                  <p className="text-sm mt-1">{rec.howToFix}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Checks */}
+        <div className="card p-6">
+          <h2 className="font-semibold mb-4">All Checks</h2>
+          <div className="grid sm:grid-cols-2 gap-2">
+            {result.checks.map((check) => (
+              <div key={check.id} className="flex items-start gap-2 p-2 bg-gray-50 dark:bg-zinc-800 rounded text-sm">
+                {check.passed ? (
+                  <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                )}
+                <div>
+                  <span className="font-medium">{check.name}</span>
+                  <p className="text-xs text-gray-500">{check.details}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-center text-sm text-gray-500">
+          Want a report like this for your own pages?{' '}
+          <Link href="/dashboard" className="text-blue-600 hover:underline">Try AI Search Optimizer</Link>
+        </p>
+      </main>
+    </div>
+  );
+}
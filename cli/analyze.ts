@@ -0,0 +1,312 @@
+/**
+ * Command-line Analyzer
+ *
+ * Scans URLs or local HTML files, prints a report and exits non-zero when
+ * a threshold fails, so it can gate deploys in CI:
+ *
+ *   npm run analyze -- https://example.com/pricing --min-score 70 --no-ai
+ *   npm run analyze -- dist/index.html --base-url https://example.com --fail-on schema-markup
+ *
+ * Exit codes: 0 all inputs passed, 1 a threshold failed, 2 usage or analysis error.
+ */
+
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { analyzeHtml, analyzeUrl, type AnalysisResult } from '../lib/analyzer';
+import { CATEGORY_NAMES, CHECK_CATEGORIES } from '../lib/checks';
+import { toExportJson, type ReportExportV1 } from '../lib/export';
+import { listScoringProfiles, parseScoringProfile } from '../lib/scoring-profiles';
+import { evaluateThresholds, isCheckCategory, type ThresholdFailure, type Thresholds } from '../lib/thresholds';
+import { isValidUrl } from '../lib/utils';
+
+const USAGE = `Usage: npm run analyze -- [options] <url-or-html-file...>
+
+Options:
+  --min-score <n>        Fail when the overall score is below n (0-100)
+  --category <key=n>     Fail when a category is below n percent (repeatable)
+                         Keys: ${CHECK_CATEGORIES.join(', ')}
+  --fail-on <ids>        Fail when any of these check IDs fail (comma-separated, repeatable)
+  --json                 Print JSON (the export format) instead of a report
+  --no-ai                Skip the Claude analysis
+  --force                Ignore cached analyses (URLs only; see ANALYSIS_CACHE_DIR)
+  --token-budget <n>     Tokens the AI pass may spend on long pages (default: LLM_TOKEN_BUDGET)
+  --profile <id>         Scoring profile (default: detected from the content type)
+                         Profiles: ${listScoringProfiles().map(p => p.id).join(', ')}
+  --base-url <url>       URL local HTML files are served from; enables robots.txt/llms.txt checks
+  --verbose              Show analyzer logs on stderr
+  -h, --help             Show this help
+
+AI analysis runs when ANTHROPIC_API_KEY or LLM_PROVIDER is set, unless --no-ai is passed.`;
+
+const EXIT_PASSED = 0;
+const EXIT_THRESHOLD_FAILED = 1;
+const EXIT_ERROR = 2;
+
+interface CliOptions {
+  inputs: string[];
+  thresholds: Thresholds;
+  json: boolean;
+  includeAI: boolean;
+  force: boolean;
+  tokenBudget?: number;
+  scoringProfile?: string;
+  baseUrl?: string;
+  verbose: boolean;
+}
+
+type InputResult =
+  | { input: string; passed: boolean; failures: ThresholdFailure[]; result: AnalysisResult }
+  | { input: string; passed: false; error: string };
+
+// ============================================
+// Arguments
+// ============================================
+
+function parseCliArgs(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'min-score': { type: 'string' },
+      category: { type: 'string', multiple: true },
+      'fail-on': { type: 'string', multiple: true },
+      json: { type: 'boolean', default: false },
+      'no-ai': { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      'token-budget': { type: 'string' },
+      profile: { type: 'string' },
+      'base-url': { type: 'string' },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) return null;
+  if (positionals.length === 0) {
+    throw new Error('Pass at least one URL or HTML file');
+  }
+
+  const thresholds: Thresholds = {};
+
+  if (values['min-score'] !== undefined) {
+    thresholds.minScore = parsePercentage(values['min-score'], '--min-score');
+  }
+
+  for (const entry of values.category ?? []) {
+    const [key, value] = entry.split('=');
+    if (!isCheckCategory(key) || value === undefined) {
+      throw new Error(`--category expects <key>=<n> with a key from: ${CHECK_CATEGORIES.join(', ')}`);
+    }
+    thresholds.categories = { ...thresholds.categories, [key]: parsePercentage(value, `--category ${key}`) };
+  }
+
+  const requiredChecks = (values['fail-on'] ?? []).flatMap(v => v.split(',')).map(id => id.trim()).filter(Boolean);
+  if (requiredChecks.length > 0) {
+    thresholds.requiredChecks = Array.from(new Set(requiredChecks));
+  }
+
+  let tokenBudget: number | undefined;
+  if (values['token-budget'] !== undefined) {
+    tokenBudget = Number(values['token-budget']);
+    if (!Number.isInteger(tokenBudget) || tokenBudget < 0) {
+      throw new Error('--token-budget must be a non-negative integer');
+    }
+  }
+
+  const profile = parseScoringProfile(values.profile);
+  if ('error' in profile) {
+    throw new Error(`--profile must be one of: ${listScoringProfiles().map(p => p.id).join(', ')}`);
+  }
+
+  const baseUrl = values['base-url'];
+  if (baseUrl !== undefined && !isValidUrl(baseUrl)) {
+    throw new Error('--base-url must be an http or https URL');
+  }
+
+  return {
+    inputs: positionals,
+    thresholds,
+    json: values.json ?? false,
+    includeAI: !values['no-ai'],
+    force: values.force ?? false,
+    tokenBudget,
+    scoringProfile: profile.value,
+    baseUrl,
+    verbose: values.verbose ?? false,
+  };
+}
+
+function parsePercentage(value: string, flag: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number < 0 || number > 100) {
+    throw new Error(`${flag} must be a number between 0 and 100`);
+  }
+  return number;
+}
+
+// ============================================
+// Running
+// ============================================
+
+async function analyzeInput(input: string, options: CliOptions): Promise<InputResult> {
+  try {
+    let result: AnalysisResult;
+
+    if (/^https?:\/\//i.test(input)) {
+      if (!isValidUrl(input)) throw new Error('Invalid URL');
+      result = await analyzeUrl(input, options.includeAI, {
+        force: options.force,
+        tokenBudget: options.tokenBudget,
+        scoringProfile: options.scoringProfile,
+      });
+    } else {
+      const html = await fs.readFile(input, 'utf8').catch(() => {
+        throw new Error('Not a URL or a readable HTML file');
+      });
+      result = await analyzeHtml(html, {
+        baseUrl: options.baseUrl,
+        includeAI: options.includeAI,
+        tokenBudget: options.tokenBudget,
+        scoringProfile: options.scoringProfile,
+      });
+    }
+
+    const failures = evaluateThresholds(result, options.thresholds);
+    return { input, passed: failures.length === 0, failures, result };
+  } catch (error) {
+    return { input, passed: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\n${USAGE}\n`);
+    return EXIT_ERROR;
+  }
+
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_PASSED;
+  }
+
+  // Library logs would corrupt --json output; keep them off stdout
+  console.log = options.verbose ? console.error : () => {};
+
+  const results: InputResult[] = [];
+  for (const input of options.inputs) {
+    if (!options.json) process.stderr.write(`Analyzing ${input}...\n`);
+    results.push(await analyzeInput(input, options));
+  }
+
+  if (options.json) {
+    process.stdout.write(JSON.stringify(toJsonOutput(results), null, 2) + '\n');
+  } else {
+    for (const result of results) {
+      process.stdout.write(formatReport(result) + '\n');
+    }
+    process.stdout.write(formatSummary(results) + '\n');
+  }
+
+  if (results.some(r => 'error' in r)) return EXIT_ERROR;
+  return results.every(r => r.passed) ? EXIT_PASSED : EXIT_THRESHOLD_FAILED;
+}
+
+// ============================================
+// Output
+// ============================================
+
+function toJsonOutput(results: InputResult[]): {
+  passed: boolean;
+  results: Array<{ input: string; passed: boolean; failures: ThresholdFailure[]; error: string | null; report: ReportExportV1 | null }>;
+} {
+  return {
+    passed: results.every(r => r.passed),
+    results: results.map(r => ('error' in r
+      ? { input: r.input, passed: false, failures: [], error: r.error, report: null }
+      : { input: r.input, passed: r.passed, failures: r.failures, error: null, report: toExportJson(r.result) })),
+  };
+}
+
+const useColor = process.stdout.isTTY && !process.env.NO_COLOR;
+const paint = (code: number) => (text: string) => (useColor ? `\x1b[${code}m${text}\x1b[0m` : text);
+const bold = paint(1);
+const dim = paint(2);
+const red = paint(31);
+const green = paint(32);
+const yellow = paint(33);
+
+function formatReport(entry: InputResult): string {
+  const lines: string[] = ['', bold(entry.input)];
+
+  if ('error' in entry) {
+    lines.push(`  ${red('✖ Analysis failed:')} ${entry.error}`);
+    return lines.join('\n');
+  }
+
+  const { result } = entry;
+  const gradeColor = result.score >= 80 ? green : result.score >= 60 ? yellow : red;
+  lines.push(`  Score ${bold(gradeColor(`${result.score}/100 (${result.grade})`))}${result.aiAnalysis ? dim('  AI analysis included') : ''}`);
+  if (result.scoring) {
+    const reason = result.scoring.overridden ? 'requested' : result.scoring.contentType.evidence;
+    lines.push(dim(`  Scored as ${result.scoring.profileName} (${reason})`));
+  }
+  lines.push('');
+
+  for (const category of CHECK_CATEGORIES) {
+    const score = result.categories[category];
+    if (!score) continue;
+    const color = score.status === 'good' ? green : score.status === 'warning' ? yellow : red;
+    const filled = Math.round(score.percentage / 5);
+    const bar = color('█'.repeat(filled)) + dim('░'.repeat(20 - filled));
+    lines.push(`  ${CATEGORY_NAMES[category].padEnd(20)} ${bar} ${String(score.percentage).padStart(3)}%`);
+  }
+
+  const failed = result.checks.filter(c => !c.passed);
+  if (failed.length > 0) {
+    lines.push('', `  Failed checks (${failed.length})`);
+    for (const check of failed) {
+      lines.push(`    ${red('✖')} ${check.name} ${dim(`[${check.id}]`)} - ${check.details}`);
+    }
+  }
+
+  const top = result.topRecommendations.slice(0, 3);
+  if (top.length > 0) {
+    lines.push('', '  Top recommendations');
+    for (const rec of top) {
+      lines.push(`    ${dim(`[${rec.priority}]`)} ${rec.title}`);
+    }
+  }
+
+  if (entry.failures.length > 0) {
+    lines.push('', `  ${red('Thresholds failed')}`);
+    for (const failure of entry.failures) {
+      lines.push(`    ${red('✖')} ${failure.message}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatSummary(results: InputResult[]): string {
+  const errored = results.filter(r => 'error' in r).length;
+  const failed = results.filter(r => !r.passed).length - errored;
+  const passed = results.length - failed - errored;
+
+  const parts = [green(`${passed} passed`)];
+  if (failed > 0) parts.push(red(`${failed} below threshold`));
+  if (errored > 0) parts.push(red(`${errored} errored`));
+  return `\n${bold('Summary:')} ${parts.join(', ')} (${results.length} ${results.length === 1 ? 'input' : 'inputs'})`;
+}
+
+main().then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    process.stderr.write(`Unexpected error: ${error instanceof Error ? error.stack : error}\n`);
+    process.exitCode = EXIT_ERROR;
+  }
+);
@@ -0,0 +1,271 @@
+/**
+ * AI Analysis Schema
+ *
+ * Runtime validation for the model's JSON reply. Each field is checked
+ * against the AIAnalysis shape: the score is clamped to 0-100, list items
+ * missing their text are dropped, and anything absent or malformed gets a
+ * default. The errors describe what was wrong in terms the model can act
+ * on, so they double as the body of the repair prompt.
+ */
+
+import type { AIAnalysis } from './claude-analyzer';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AIAnalysisValidation {
+  analysis: AIAnalysis;
+  /** Empty when the reply matched the schema */
+  errors: string[];
+  /** Field paths taken from the reply */
+  modelFields: string[];
+  /** Field paths filled with defaults */
+  defaultedFields: string[];
+  /** False when the reply wasn't a JSON object at all */
+  parsed: boolean;
+}
+
+type Improvement = AIAnalysis['improvements'][number];
+type Citation = AIAnalysis['citationSimulation']['sampleCitations'][number];
+type Entity = NonNullable<AIAnalysis['entities']>[number];
+
+const ENTITY_TYPES: Entity['type'][] = ['person', 'organization', 'product', 'concept', 'location', 'date'];
+const IMPROVEMENT_CATEGORIES: Improvement['category'][] = ['content', 'structure', 'credibility', 'technical'];
+const PRIORITIES: Improvement['priority'][] = ['critical', 'high', 'medium', 'low'];
+const CONFIDENCES: Citation['confidence'][] = ['high', 'medium', 'low'];
+
+// Used when the reply has no usable score; analyzePage doesn't blend it in
+export const DEFAULT_READINESS_SCORE = 50;
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Parses and validates a raw model reply. Tolerates markdown code fences
+ * and prose around the JSON object.
+ */
+export function parseAIAnalysis(text: string, defaults: { title: string }): AIAnalysisValidation {
+  let value: unknown;
+  try {
+    value = parseJsonReply(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const validation = validateAIAnalysis(undefined, defaults);
+    return { ...validation, errors: [`The reply is not valid JSON (${message})`] };
+  }
+
+  return validateAIAnalysis(value, defaults);
+}
+
+/**
+ * JSON.parse for model replies, which may wrap the object in fences or prose
+ */
+export function parseJsonReply(text: string): unknown {
+  return JSON.parse(extractJson(text));
+}
+
+function extractJson(text: string): string {
+  let jsonText = text.trim();
+  if (jsonText.startsWith('```json')) {
+    jsonText = jsonText.slice(7);
+  }
+  if (jsonText.startsWith('```')) {
+    jsonText = jsonText.slice(3);
+  }
+  if (jsonText.endsWith('```')) {
+    jsonText = jsonText.slice(0, -3);
+  }
+  jsonText = jsonText.trim();
+
+  // "Here is the analysis: {...}" or "{...} Hope this helps!"
+  const start = jsonText.indexOf('{');
+  const end = jsonText.lastIndexOf('}');
+  if (start >= 0 && end > start) {
+    jsonText = jsonText.slice(start, end + 1);
+  }
+  return jsonText;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+export function validateAIAnalysis(value: unknown, defaults: { title: string }): AIAnalysisValidation {
+  const errors: string[] = [];
+  const modelFields: string[] = [];
+  const defaultedFields: string[] = [];
+
+  const parsed = isRecord(value);
+  if (!parsed && value !== undefined) {
+    errors.push('The reply must be a JSON object');
+  }
+  const root = parsed ? value : {};
+
+  const useDefault = <T>(path: string, fallback: T, problem: string | null): T => {
+    defaultedFields.push(path);
+    if (problem) errors.push(`${path}: ${problem}`);
+    return fallback;
+  };
+
+  const string = (source: Record<string, unknown>, key: string, path: string, fallback: string): string => {
+    const field = source[key];
+    if (typeof field === 'string' && field.trim()) {
+      modelFields.push(path);
+      return field.trim();
+    }
+    return useDefault(path, fallback, field === undefined ? 'missing' : 'expected a non-empty string');
+  };
+
+  const object = (key: string): Record<string, unknown> => {
+    const field = root[key];
+    if (isRecord(field)) return field;
+    if (field !== undefined) errors.push(`${key}: expected an object`);
+    return {};
+  };
+
+  /**
+   * Keeps the items `parse` accepts. The field counts as the model's when
+   * it was an array, even if some items were dropped.
+   */
+  const list = <T>(
+    source: Record<string, unknown>,
+    key: string,
+    path: string,
+    parse: (item: unknown, itemPath: string) => T | null,
+    required = true
+  ): T[] => {
+    const field = source[key];
+    if (!Array.isArray(field)) {
+      if (field === undefined && !required) return useDefault(path, [], null);
+      return useDefault(path, [], field === undefined ? 'missing' : 'expected an array');
+    }
+
+    modelFields.push(path);
+    const items: T[] = [];
+    field.forEach((item, index) => {
+      const parsedItem = parse(item, `${path}[${index}]`);
+      if (parsedItem !== null) items.push(parsedItem);
+    });
+    return items;
+  };
+
+  const text = (item: unknown, itemPath: string): string | null => {
+    if (typeof item === 'string' && item.trim()) return item.trim();
+    errors.push(`${itemPath}: expected a non-empty string`);
+    return null;
+  };
+
+  /** Required text fields of a list item; null (dropping the item) when any is missing */
+  const record = <K extends string>(item: unknown, itemPath: string, keys: K[]): Record<K, string> | null => {
+    if (!isRecord(item)) {
+      errors.push(`${itemPath}: expected an object`);
+      return null;
+    }
+    const missing = keys.filter(key => typeof item[key] !== 'string' || !(item[key] as string).trim());
+    if (missing.length > 0) {
+      errors.push(`${itemPath}: ${missing.join(', ')} must be non-empty strings`);
+      return null;
+    }
+    return Object.fromEntries(keys.map(key => [key, (item[key] as string).trim()])) as Record<K, string>;
+  };
+
+  const oneOf = <T extends string>(item: Record<string, unknown>, key: string, itemPath: string, allowed: T[], fallback: T): T => {
+    const field = typeof item[key] === 'string' ? (item[key] as string).toLowerCase() : item[key];
+    if (allowed.includes(field as T)) return field as T;
+    errors.push(`${itemPath}.${key}: expected one of ${allowed.join(', ')}`);
+    return fallback;
+  };
+
+  // Score
+  let aiReadinessScore: number;
+  const rawScore = typeof root.aiReadinessScore === 'string' ? Number(root.aiReadinessScore) : root.aiReadinessScore;
+  if (typeof rawScore === 'number' && Number.isFinite(rawScore)) {
+    modelFields.push('aiReadinessScore');
+    aiReadinessScore = Math.round(Math.min(100, Math.max(0, rawScore)));
+  } else {
+    aiReadinessScore = useDefault(
+      'aiReadinessScore',
+      DEFAULT_READINESS_SCORE,
+      root.aiReadinessScore === undefined ? 'missing' : 'expected a number from 0 to 100'
+    );
+  }
+
+  const summary = string(root, 'summary', 'summary', 'No summary was provided.');
+
+  const understanding = object('contentUnderstanding');
+  const contentUnderstanding: AIAnalysis['contentUnderstanding'] = {
+    mainTopic: string(understanding, 'mainTopic', 'contentUnderstanding.mainTopic', defaults.title || 'Unknown'),
+    targetAudience: string(understanding, 'targetAudience', 'contentUnderstanding.targetAudience', 'General audience'),
+    contentType: string(understanding, 'contentType', 'contentUnderstanding.contentType', 'webpage'),
+    keyMessages: list(understanding, 'keyMessages', 'contentUnderstanding.keyMessages', text),
+  };
+
+  const entities = list<Entity>(root, 'entities', 'entities', (item, itemPath) => {
+    const fields = record(item, itemPath, ['name']);
+    return fields && { name: fields.name, type: oneOf(item as Record<string, unknown>, 'type', itemPath, ENTITY_TYPES, 'concept') };
+  }, false);
+
+  const citations = object('citationSimulation');
+  const citationSimulation: AIAnalysis['citationSimulation'] = {
+    likelyQueries: list(citations, 'likelyQueries', 'citationSimulation.likelyQueries', text),
+    sampleCitations: list<Citation>(citations, 'sampleCitations', 'citationSimulation.sampleCitations', (item, itemPath) => {
+      const fields = record(item, itemPath, ['userQuery', 'aiResponse', 'citedText']);
+      return fields && {
+        ...fields,
+        confidence: oneOf(item as Record<string, unknown>, 'confidence', itemPath, CONFIDENCES, 'medium'),
+      };
+    }),
+  };
+
+  const improvements = list<Improvement>(root, 'improvements', 'improvements', (item, itemPath) => {
+    const fields = record(item, itemPath, ['issue', 'recommendation']);
+    if (!fields) return null;
+    const source = item as Record<string, unknown>;
+    const exampleFix = typeof source.exampleFix === 'string' && source.exampleFix.trim() ? source.exampleFix.trim() : undefined;
+    return {
+      ...fields,
+      category: oneOf(source, 'category', itemPath, IMPROVEMENT_CATEGORIES, 'content'),
+      priority: oneOf(source, 'priority', itemPath, PRIORITIES, 'medium'),
+      ...(exampleFix ? { exampleFix } : {}),
+    };
+  });
+
+  const missingContent = list(root, 'missingContent', 'missingContent', (item, itemPath) =>
+    record(item, itemPath, ['topic', 'reason', 'suggestedContent'])
+  );
+
+  const rewriteSuggestions = list(root, 'rewriteSuggestions', 'rewriteSuggestions', (item, itemPath) =>
+    record(item, itemPath, ['original', 'improved', 'reason'])
+  );
+
+  const competitive = object('competitiveAnalysis');
+  const competitiveAnalysis: AIAnalysis['competitiveAnalysis'] = {
+    strengths: list(competitive, 'strengths', 'competitiveAnalysis.strengths', text),
+    weaknesses: list(competitive, 'weaknesses', 'competitiveAnalysis.weaknesses', text),
+    opportunities: list(competitive, 'opportunities', 'competitiveAnalysis.opportunities', text),
+  };
+
+  return {
+    analysis: {
+      summary,
+      aiReadinessScore,
+      contentUnderstanding,
+      entities,
+      citationSimulation,
+      improvements,
+      missingContent,
+      rewriteSuggestions,
+      competitiveAnalysis,
+    },
+    errors,
+    modelFields,
+    defaultedFields,
+    parsed,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
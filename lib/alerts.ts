@@ -0,0 +1,147 @@
+/**
+ * Regression Alerts
+ *
+ * Delivers regression and failed-scan alerts to outbound webhooks, either
+ * as a generic JSON payload or as a Slack-compatible incoming-webhook
+ * message.
+ */
+
+import type { AnalysisResult } from './analyzer';
+
+// ============================================
+// Types
+// ============================================
+
+export interface WebhookTarget {
+  url: string;
+  format: 'json' | 'slack';
+}
+
+export interface RegressionAlert {
+  scheduleId: string;
+  url: string;
+  timestamp: string;
+  previousScore: number;
+  score: number;
+  previousGrade: AnalysisResult['grade'];
+  grade: AnalysisResult['grade'];
+  /** Positive when the score went down */
+  scoreDrop: number;
+  /** Checks that passed on the previous scan and fail now */
+  newlyFailing: Array<{ id: string; name: string; details: string }>;
+  reasons: string[];
+}
+
+/**
+ * A scheduled scan that couldn't run, e.g. the page is down
+ */
+export interface ScanErrorAlert {
+  scheduleId: string;
+  url: string;
+  timestamp: string;
+  error: string;
+}
+
+export type ScheduleAlert = RegressionAlert | ScanErrorAlert;
+
+export interface DeliveryResult {
+  url: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+// ============================================
+// Payloads
+// ============================================
+
+export function buildWebhookPayload(alert: ScheduleAlert, format: WebhookTarget['format']): unknown {
+  if ('error' in alert) return buildErrorPayload(alert, format);
+
+  if (format === 'json') {
+    return { type: 'regression', ...alert };
+  }
+
+  const summary = `:rotating_light: AI search score regression on ${alert.url}: ` +
+    `${alert.previousScore} (${alert.previousGrade}) → ${alert.score} (${alert.grade})`;
+
+  return {
+    text: summary,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*${summary}*` },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: alert.reasons.map(reason => `• ${reason}`).join('\n'),
+        },
+      },
+      ...(alert.newlyFailing.length > 0
+        ? [{
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: '*Now failing*\n' + alert.newlyFailing.map(c => `• ${c.name}: ${c.details}`).join('\n'),
+            },
+          }]
+        : []),
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `Checked ${alert.timestamp}` }],
+      },
+    ],
+  };
+}
+
+function buildErrorPayload(alert: ScanErrorAlert, format: WebhookTarget['format']): unknown {
+  if (format === 'json') {
+    return { type: 'scan-error', ...alert };
+  }
+
+  const summary = `:warning: Scheduled AI search scan failed for ${alert.url}`;
+
+  return {
+    text: summary,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*${summary}*\n${alert.error}` },
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `Checked ${alert.timestamp}` }],
+      },
+    ],
+  };
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+export async function sendAlert(alert: ScheduleAlert, targets: WebhookTarget[]): Promise<DeliveryResult[]> {
+  return Promise.all(targets.map(async (target): Promise<DeliveryResult> => {
+    try {
+      const response = await fetch(target.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'AISearchOptimizer/2.0 (+alerts)',
+        },
+        body: JSON.stringify(buildWebhookPayload(alert, target.format)),
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (!response.ok) {
+        console.error(`[Alerts] Webhook ${target.url} returned ${response.status}`);
+      }
+      return { url: target.url, ok: response.ok, status: response.status };
+    } catch (error) {
+      console.error(`[Alerts] Webhook ${target.url} failed:`, error);
+      return { url: target.url, ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }));
+}
@@ -0,0 +1,150 @@
+/**
+ * Analysis Progress Streaming
+ *
+ * Server-Sent Events for long scans. The stream carries one `stage` event
+ * per pipeline stage, a `partial` event with the heuristic report before
+ * the Claude pass, then a single `result` or `error` event:
+ *
+ *   event: stage
+ *   data: {"stage":"checks"}
+ *
+ *   event: partial
+ *   data: {...AnalysisResult without aiAnalysis}
+ *
+ *   event: result
+ *   data: {...AnalysisResult}
+ *
+ * Uses only web APIs, so the dashboard imports the reader from here too.
+ */
+
+import type { AnalysisResult, AnalysisStage, AnalyzeOptions } from './analyzer';
+
+// ============================================
+// Types
+// ============================================
+
+export type AnalysisStreamEvent =
+  | { event: 'stage'; data: { stage: AnalysisStage } }
+  | { event: 'partial'; data: AnalysisResult }
+  | { event: 'result'; data: AnalysisResult }
+  | { event: 'error'; data: { error: string; status: number } };
+
+export type AnalysisProgress = Pick<AnalyzeOptions, 'onStage' | 'onPartialResult'>;
+
+// Comment lines keep proxies from closing the connection while Claude runs
+const KEEP_ALIVE_INTERVAL = 15 * 1000;
+
+// ============================================
+// Server
+// ============================================
+
+/**
+ * True when the client asked for a stream with `Accept: text/event-stream` or `?stream=1`
+ */
+export function wantsEventStream(request: Request): boolean {
+  if (request.headers.get('accept')?.includes('text/event-stream')) return true;
+  return new URL(request.url).searchParams.get('stream') === '1';
+}
+
+/**
+ * Runs an analysis and streams its progress. Errors become an `error`
+ * event, since the 200 status has already been sent by then.
+ */
+export function createAnalysisStream(
+  run: (progress: AnalysisProgress) => Promise<AnalysisResult>,
+  describeError: (error: unknown) => { error: string; status: number }
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+  let keepAlive: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = ({ event, data }: AnalysisStreamEvent) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepAlive);
+        controller.close();
+      };
+
+      keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+
+      run({
+        onStage: stage => send({ event: 'stage', data: { stage } }),
+        onPartialResult: result => send({ event: 'partial', data: result }),
+      })
+        .then(result => send({ event: 'result', data: result }))
+        .catch(error => send({ event: 'error', data: describeError(error) }))
+        .finally(close);
+    },
+
+    // The client went away; the analysis finishes but nothing more is sent
+    cancel() {
+      closed = true;
+      clearInterval(keepAlive);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+// ============================================
+// Client
+// ============================================
+
+/**
+ * Reads an analysis stream, calling `onEvent` for stage and partial events.
+ * Resolves with the final result and rejects with the streamed error message.
+ */
+export async function readAnalysisStream(
+  response: Response,
+  onEvent: (event: Extract<AnalysisStreamEvent, { event: 'stage' | 'partial' }>) => void
+): Promise<AnalysisResult> {
+  if (!response.body) throw new Error('Empty response');
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value.replace(/\r\n?/g, '\n');
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const message = parseMessage(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (!message) continue;
+
+      if (message.event === 'result') return message.data;
+      if (message.event === 'error') throw new Error(message.data.error);
+      if (message.event === 'stage' || message.event === 'partial') onEvent(message);
+    }
+  }
+
+  throw new Error('The analysis stream ended before a result arrived');
+}
+
+function parseMessage(block: string): AnalysisStreamEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  }
+
+  if (data.length === 0) return null;
+  return { event, data: JSON.parse(data.join('\n')) } as AnalysisStreamEvent;
+}
@@ -6,7 +6,47 @@
  */
 
 import * as cheerio from 'cheerio';
-import { analyzeWithClaude, type AIAnalysis } from './claude-analyzer';
+import { analyzeWithClaude, getAnalysisModel, type AIAnalysis } from './claude-analyzer';
+import {
+  conditionalHeaders,
+  getAnalysisCache,
+  hashContent,
+  pickCachedHeaders,
+  type CachedPage,
+  type CacheUsage,
+} from './cache';
+import { auditCrawlerAccess, fetchRobotsTxt, type CrawlerAccessReport } from './crawler-access';
+import { buildLlmsTxtReport, fetchLlmsTxt, type LlmsTxtReport } from './llms-txt';
+import { extractStructuredData, type StructuredDataReport } from './structured-data';
+import { extractMainContent, type ContentExtractionReport } from './content-extractor';
+import { extractEntities, mergeAIEntities } from './entities';
+import { buildCitationPreviews } from './passage-retrieval';
+import { analyzeChunks, splitChunks, type ChunkAnalysis } from './chunks';
+import { analyzeLongDocument, isLongDocument, splitSections } from './long-document';
+import {
+  blendAIScore,
+  checkWeight,
+  detectContentType,
+  resolveScoringProfile,
+  scoreToGrade,
+  weightChecks,
+  weightedScore,
+  type ScoringSummary,
+} from './scoring-profiles';
+import {
+  CHECK_CATEGORIES,
+  buildRecommendation,
+  resolveChecks,
+  runChecks,
+  type CheckCategory,
+  type CheckContext,
+  type CheckSelection,
+} from './checks';
+import { isLLMConfigured } from './llm';
+import type { Plan } from './user';
+
+/** Bump when checks, scoring or the Claude prompt change, so cached analyses aren't reused */
+export const ANALYZER_VERSION = '2.2.0';
 
 // ============================================
 // Types
@@ -24,23 +64,37 @@ export interface AnalysisResult {
     technicalSeo: CategoryScore;
     credibilitySignals: CategoryScore;
     aiSpecificFactors: CategoryScore;
+    crawlerAccess: CategoryScore;
   };
   
   checks: Check[];
   
+  crawlerAccess: CrawlerAccessReport;
+  llmsTxt: LlmsTxtReport;
+  structuredData: StructuredDataReport;
+  contentExtraction: ContentExtractionReport;
+  chunks: ChunkAnalysis;
+  
   metadata: {
     title: string;
     description: string;
     wordCount: number;
     loadTime: number;
     domain: string;
+    /** 'html' when the page was pasted or uploaded instead of fetched */
+    source: 'url' | 'html';
     readabilityScore: number;
     readabilityGrade: string;
+    /** Set on URL scans */
+    cache?: CacheUsage;
   };
   
   topRecommendations: Recommendation[];
   allRecommendations: Recommendation[];
   
+  /** Profile the score was computed with; absent on reports saved before profiles */
+  scoring?: ScoringSummary;
+  
   insights: {
     citationPreviews: CitationPreview[];
     questionsAnswered: string[];
@@ -51,6 +105,9 @@ export interface AnalysisResult {
   };
   
   aiAnalysis?: AIAnalysis;
+
+  /** Set by the API on signed-in URL scans; saves the result as a report (see lib/scan-store) */
+  scanId?: string;
 }
 
 export interface CategoryScore {
@@ -93,6 +150,8 @@ export interface ExtractedEntity {
   type: 'person' | 'organization' | 'product' | 'concept' | 'location' | 'date';
   mentions: number;
   context: string;
+  /** Where the entity was found; 'ai' means the Claude pass named or retyped it */
+  source?: 'text' | 'structured-data' | 'ai';
 }
 
 export interface QuotableSnippet {
@@ -115,43 +174,237 @@ export interface PlatformTip {
   implemented: boolean;
 }
 
+/** Pipeline stages, in the order they run; 'fetch' is skipped for pasted HTML and 'ai' when Claude doesn't run */
+export type AnalysisStage = 'fetch' | 'parse' | 'checks' | 'insights' | 'ai' | 'scoring';
+
+export interface AnalyzeOptions {
+  /** Enable or disable registered checks for this scan */
+  checks?: CheckSelection;
+  /** Called with the parsed document before anything is stripped from it */
+  onDocument?: ($: cheerio.CheerioAPI, url: string) => void;
+  /** Called as each pipeline stage starts */
+  onStage?: (stage: AnalysisStage) => void;
+  /** Called with the heuristic result before the Claude pass starts (only when it runs) */
+  onPartialResult?: (result: AnalysisResult) => void;
+  /** Skip the cache: no conditional request and no reused Claude analysis (URL scans only) */
+  force?: boolean;
+  /** Plan whose model, max tokens and temperature the AI pass uses (default 'free') */
+  plan?: Plan;
+  /** Tokens the AI pass may spend on a long page; defaults to the plan's budget */
+  tokenBudget?: number;
+  /** Scoring profile ID; defaults to the one for the detected content type */
+  scoringProfile?: string;
+  /** robots.txt and llms.txt already fetched for the page's origin, e.g. once per site crawl */
+  siteFiles?: Promise<SiteFiles>;
+}
+
+export interface AnalyzeHtmlOptions extends AnalyzeOptions {
+  /** URL the HTML is (or will be) served from; used to resolve links and find robots.txt/llms.txt */
+  baseUrl?: string;
+  includeAI?: boolean;
+  /** Fetch robots.txt and llms.txt from the baseUrl origin (default: only when baseUrl is set) */
+  fetchSiteFiles?: boolean;
+}
+
+const DEFAULT_BASE_URL = 'http://localhost/';
+
 // ============================================
 // Main Analysis Function
 // ============================================
 
-export async function analyzeUrl(url: string, includeAI: boolean = true): Promise<AnalysisResult> {
+export async function analyzeUrl(
+  url: string,
+  includeAI: boolean = true,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> {
   const startTime = Date.now();
+  const cache = getAnalysisCache();
+  const cacheKey = analysisCacheKey(url);
+
+  const stored = options.force ? null : await cache.get(cacheKey).catch(error => {
+    console.error('[Analyzer] Cache read failed:', error);
+    return null;
+  });
+  // Validators and HTML of another page must never stand in for this one
+  const cached = stored && analysisCacheKey(stored.url) === cacheKey ? stored : null;
   
-  console.log(`[Analyzer] Fetching: ${url}`);
+  console.log(`[Analyzer] Fetching: ${url}${cached ? ' (conditional)' : ''}`);
+  options.onStage?.('fetch');
   
+  // robots.txt and llms.txt are fetched alongside the page
+  const siteFiles = options.siteFiles ?? fetchSiteFiles(url);
+
   // Fetch the page
   const response = await fetch(url, {
     headers: {
       'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
       'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
       'Accept-Language': 'en-US,en;q=0.5',
+      ...conditionalHeaders(cached),
     },
     signal: AbortSignal.timeout(20000),
     redirect: 'follow',
   });
 
-  if (!response.ok) {
+  const notModified = response.status === 304 && cached !== null;
+  if (!response.ok && !notModified) {
     throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
   }
 
-  const html = await response.text();
-  const loadTime = Date.now() - startTime;
+  const html = notModified ? cached.html : await response.text();
+  const loadTime = notModified ? cached.loadTime : Date.now() - startTime;
+  const contentHash = hashContent(html);
+
+  // A 304 may leave out headers the full response had
+  const headers = notModified ? new Headers({ ...cached.headers, ...pickCachedHeaders(response.headers) }) : response.headers;
+
+  // Claude sees nothing but the page content, so its analysis holds while that and the model are unchanged
+  const unchanged = cached !== null && cached.contentHash === contentHash;
+  const aiModel = getAnalysisModel(options.plan);
+  const reusableAI = unchanged && cached.aiModel === aiModel ? cached.aiAnalysis ?? undefined : undefined;
   
-  console.log(`[Analyzer] Fetched in ${loadTime}ms, parsing...`);
+  console.log(`[Analyzer] ${notModified ? 'Not modified' : `Fetched in ${loadTime}ms`}, parsing...`);
+
+  const result = await analyzePage(
+    { url, html, loadTime, headers, source: 'url', siteFiles, cachedAIAnalysis: reusableAI },
+    includeAI,
+    options
+  );
+
+  result.metadata.cache = {
+    status: options.force ? 'bypassed' : !cached ? 'miss' : notModified ? 'not-modified' : unchanged ? 'unchanged' : 'changed',
+    aiAnalysisReused: reusableAI !== undefined && result.aiAnalysis === reusableAI,
+  };
+
+  // Fallbacks and partly defaulted replies aren't kept, so the next scan asks the model again
+  const ai = result.aiAnalysis;
+  const freshAI = ai && !ai.fallback && !ai.provenance?.errors.length ? ai : undefined;
+  const entry: CachedPage = {
+    url,
+    analyzerVersion: ANALYZER_VERSION,
+    etag: notModified ? response.headers.get('etag') ?? cached.etag : response.headers.get('etag'),
+    lastModified: notModified ? response.headers.get('last-modified') ?? cached.lastModified : response.headers.get('last-modified'),
+    headers: pickCachedHeaders(headers),
+    contentHash,
+    html,
+    loadTime,
+    fetchedAt: notModified ? cached.fetchedAt : new Date().toISOString(),
+    // Heuristic-only scans (e.g. scheduled monitoring) keep the stored analysis for the next AI scan
+    aiAnalysis: freshAI ?? (unchanged ? cached.aiAnalysis : null),
+    aiModel: freshAI ? aiModel : unchanged ? cached.aiModel : null,
+  };
+  await cache.set(cacheKey, entry).catch(error => {
+    console.error('[Analyzer] Cache write failed:', error);
+  });
+
+  return result;
+}
+
+/**
+ * The exact URL less its fragment, prefixed with the analyzer version so
+ * entries are dropped when it changes. Unlike `normalizeUrl`, the query
+ * string and path case are kept, since they can select different pages.
+ */
+export function analysisCacheKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return `${ANALYZER_VERSION}:${parsed.href}`;
+  } catch {
+    return `${ANALYZER_VERSION}:${url}`;
+  }
+}
+
+/**
+ * Analyze HTML that was pasted or uploaded rather than fetched, e.g.
+ * staging pages behind a VPN or unpublished drafts.
+ */
+export async function analyzeHtml(
+  html: string,
+  options: AnalyzeHtmlOptions = {}
+): Promise<AnalysisResult> {
+  const url = options.baseUrl || DEFAULT_BASE_URL;
+  const withSiteFiles = options.fetchSiteFiles ?? Boolean(options.baseUrl);
+
+  console.log(`[Analyzer] Analyzing ${html.length} chars of HTML as ${url}`);
+
+  // Nothing was fetched, so checks that measure the fetch or the live site don't apply
+  const disable = [...(options.checks?.disable || []), 'page-speed'];
+  if (!withSiteFiles) disable.push('ai-crawler-access', 'llms-txt');
+
+  return analyzePage(
+    {
+      url,
+      html,
+      loadTime: 0,
+      headers: null,
+      source: 'html',
+      siteFiles: withSiteFiles ? fetchSiteFiles(url) : Promise.resolve(uncheckedSiteFiles(url)),
+    },
+    options.includeAI ?? true,
+    { ...options, checks: { ...options.checks, disable } }
+  );
+}
+
+export interface SiteFiles {
+  robots: Parameters<typeof auditCrawlerAccess>[0]['robots'];
+  llmsTxt: Parameters<typeof buildLlmsTxtReport>[0];
+}
+
+interface PageInput {
+  url: string;
+  html: string;
+  loadTime: number;
+  headers: Headers | null;
+  source: AnalysisResult['metadata']['source'];
+  siteFiles: Promise<SiteFiles>;
+  /** Claude analysis of the same content from an earlier scan */
+  cachedAIAnalysis?: AIAnalysis;
+}
+
+export async function fetchSiteFiles(url: string): Promise<SiteFiles> {
+  const [robots, llmsTxt] = await Promise.all([fetchRobotsTxt(url), fetchLlmsTxt(url)]);
+  return { robots, llmsTxt };
+}
+
+function uncheckedSiteFiles(url: string): SiteFiles {
+  return {
+    robots: { url: new URL('/robots.txt', url).toString(), status: 'not-checked', content: null },
+    llmsTxt: { url: new URL('/llms.txt', url).toString(), status: 'not-checked', content: null },
+  };
+}
+
+async function analyzePage(
+  page: PageInput,
+  includeAI: boolean,
+  options: AnalyzeOptions
+): Promise<AnalysisResult> {
+  const { url, html, loadTime } = page;
+  const siteFiles = await page.siteFiles;
 
   // Parse with cheerio (fast!)
+  options.onStage?.('parse');
   const $ = cheerio.load(html);
+  options.onDocument?.($, url);
   
+  // Audit crawler access before anything is stripped from the document
+  const crawlerAccess = auditCrawlerAccess({
+    url,
+    $,
+    headers: page.headers,
+    robots: siteFiles.robots,
+  });
+
+  // JSON-LD lives in <script> tags, so parse it before they are removed
+  const structuredData = extractStructuredData($);
+
   // Remove script/style content
   $('script, style, noscript, iframe').remove();
   
-  // Extract text content
-  const textContent = $('body').text().replace(/\s+/g, ' ').trim();
+  // Isolate the main article from navigation, banners and footers
+  const fullText = $('body').text().replace(/\s+/g, ' ').trim();
+  const mainContent = extractMainContent($);
+  const textContent = mainContent.text;
   const wordCount = textContent.split(/\s+/).filter(w => w.length > 0).length;
 
   // Extract metadata
@@ -159,85 +412,137 @@ export async function analyzeUrl(url: string, includeAI: boolean = true): Promis
   const description = $('meta[name="description"]').attr('content') || '';
   const domain = new URL(url).hostname.replace(/^www\./, '');
   
+  const llmsTxt = buildLlmsTxtReport(siteFiles.llmsTxt);
+  const chunks = analyzeChunks($, mainContent.paragraphs);
+
   // Calculate readability
   const { score: readabilityScore, grade: readabilityGrade } = calculateReadability(textContent);
 
   // Run checks
-  const checks = runAllChecks($, html, textContent, loadTime);
+  options.onStage?.('checks');
+  const checkContext: CheckContext = {
+    $,
+    html,
+    textContent,
+    fullText,
+    paragraphs: mainContent.paragraphs,
+    url,
+    title,
+    description,
+    loadTime,
+    crawlerAccess,
+    llmsTxt,
+    structuredData,
+    chunks,
+  };
+  // The content type picks the scoring profile unless the scan names one
+  const contentType = detectContentType($, structuredData, textContent);
+  const { profile, overridden } = resolveScoringProfile(contentType.type, options.scoringProfile);
+  const scoring: ScoringSummary = { profile: profile.id, profileName: profile.name, contentType, overridden };
+
+  const checks = weightChecks(runChecks(resolveChecks(options.checks), checkContext), profile);
   
   // Calculate scores
   const categories = calculateCategoryScores(checks);
+  let score = weightedScore(categories, profile);
   
-  const totalScore = Object.values(categories).reduce((sum, cat) => sum + cat.score, 0);
-  const maxScore = Object.values(categories).reduce((sum, cat) => sum + cat.maxScore, 0);
-  let score = Math.round((totalScore / maxScore) * 100);
-  
-  // Generate recommendations
-  const allRecommendations = generateRecommendations(checks);
+  // Generate recommendations, leaving out checks the profile doesn't score
+  const allRecommendations = generateRecommendations(
+    checks.filter(check => checkWeight(profile, check.id) > 0),
+    checkContext
+  );
   const topRecommendations = allRecommendations.slice(0, 5);
 
-  // Generate insights
-  const insights = generateInsights($, textContent, title, domain, checks);
-
-  // Extract headings for Claude
+  // Headings feed both the local retriever and Claude
   const headings: string[] = [];
   $('h1, h2, h3').each((_, el) => {
     const text = $(el).text().trim();
     if (text) headings.push(text);
   });
 
-  // Run Claude AI analysis
-  let aiAnalysis: AIAnalysis | undefined;
-  
-  if (includeAI && process.env.ANTHROPIC_API_KEY) {
-    try {
-      console.log('[Analyzer] Running Claude analysis...');
-      aiAnalysis = await analyzeWithClaude(
-        textContent.slice(0, 8000),
-        title,
-        url,
-        {
-          wordCount,
-          hasSchema: checks.find(c => c.id === 'schema-markup')?.passed || false,
-          hasFAQ: checks.find(c => c.id === 'faq-section')?.passed || false,
-          hasAuthor: checks.find(c => c.id === 'author-info')?.passed || false,
-          headings: headings.slice(0, 10),
-        }
-      );
-      
-      // Blend scores if AI analysis succeeded
-      if (aiAnalysis.aiReadinessScore && aiAnalysis.aiReadinessScore > 0) {
-        score = Math.round(aiAnalysis.aiReadinessScore * 0.6 + score * 0.4);
-      }
-      console.log('[Analyzer] Claude analysis complete');
-    } catch (error) {
-      console.error('[Analyzer] Claude analysis failed:', error);
-    }
-  }
-  
-  const grade = scoreToGrade(score);
+  // Generate insights
+  options.onStage?.('insights');
+  let insights = generateInsights($, textContent, mainContent.paragraphs, headings, title, domain, checks, structuredData);
 
-  return {
+  // Pages AI crawlers can't read or quote are capped regardless of content
+  const capScore = (value: number) =>
+    crawlerAccess.scoreCap !== null ? Math.min(value, crawlerAccess.scoreCap) : value;
+
+  const buildResult = (finalScore: number, aiAnalysis?: AIAnalysis): AnalysisResult => ({
     url,
     timestamp: new Date().toISOString(),
-    score,
-    grade,
+    score: finalScore,
+    grade: scoreToGrade(finalScore, profile),
     categories,
     checks,
+    crawlerAccess,
+    llmsTxt,
+    structuredData,
+    contentExtraction: mainContent.report,
+    chunks,
     metadata: {
       title,
       description,
       wordCount,
       loadTime,
       domain,
+      source: page.source,
       readabilityScore,
       readabilityGrade,
     },
     topRecommendations,
     allRecommendations,
+    scoring,
     insights,
     aiAnalysis,
-  };
+  });
+
+  // Run Claude AI analysis
+  let aiAnalysis: AIAnalysis | undefined;
+  
+  if (includeAI && page.cachedAIAnalysis) {
+    console.log('[Analyzer] Content unchanged, reusing Claude analysis');
+    options.onStage?.('ai');
+    aiAnalysis = page.cachedAIAnalysis;
+  } else if (includeAI && isLLMConfigured()) {
+    // The heuristic report is complete; streaming clients can show it while Claude runs
+    options.onPartialResult?.(buildResult(capScore(score)));
+
+    try {
+      console.log('[Analyzer] Running Claude analysis...');
+      options.onStage?.('ai');
+      const metadata = {
+        wordCount,
+        hasSchema: checks.find(c => c.id === 'schema-markup')?.passed || false,
+        hasFAQ: checks.find(c => c.id === 'faq-section')?.passed || false,
+        hasAuthor: checks.find(c => c.id === 'author-info')?.passed || false,
+        headings: headings.slice(0, 10),
+      };
+
+      // Pages too long for one prompt are analyzed section by section
+      const sections = isLongDocument(textContent) ? splitSections(splitChunks($, mainContent.paragraphs)) : [];
+      aiAnalysis = sections.length > 1
+        ? await analyzeLongDocument({ sections, title, url, metadata, plan: options.plan, tokenBudget: options.tokenBudget })
+        : await analyzeWithClaude(textContent.slice(0, 8000), title, url, metadata, { plan: options.plan });
+      console.log('[Analyzer] Claude analysis complete');
+    } catch (error) {
+      console.error('[Analyzer] Claude analysis failed:', error);
+    }
+  }
+
+  if (aiAnalysis) {
+    // Blend scores if AI analysis succeeded
+    // A defaulted score would only pull the result towards the placeholder value
+    const scoreDefaulted = aiAnalysis.provenance?.defaultedFields.includes('aiReadinessScore') ?? false;
+    if (!scoreDefaulted && aiAnalysis.aiReadinessScore && aiAnalysis.aiReadinessScore > 0) {
+      score = blendAIScore(score, aiAnalysis.aiReadinessScore, profile);
+    }
+    // A new object, so the partial result already handed out is left untouched
+    insights = { ...insights, entities: mergeAIEntities(insights.entities, aiAnalysis.entities, textContent) };
+  }
+  
+  options.onStage?.('scoring');
+  return buildResult(capScore(score), aiAnalysis);
 }
 
 // ============================================
@@ -278,213 +583,21 @@ function countSyllables(word: string): number {
   return matches ? matches.length : 1;
 }
 
-// ============================================
-// Checks
-// ============================================
-
-function runAllChecks(
-  $: cheerio.CheerioAPI,
-  html: string,
-  textContent: string,
-  loadTime: number
-): Check[] {
-  const checks: Check[] = [];
-  const textLower = textContent.toLowerCase();
-
-  // Content Structure
-  const h1Count = $('h1').length;
-  checks.push({
-    id: 'single-h1',
-    category: 'contentStructure',
-    name: 'Single H1 Tag',
-    passed: h1Count === 1,
-    score: h1Count === 1 ? 10 : 0,
-    maxScore: 10,
-    details: h1Count === 1 ? 'Good: Page has one H1' : `Found ${h1Count} H1 tags`,
-  });
-
-  const h2Count = $('h2').length;
-  checks.push({
-    id: 'subheadings',
-    category: 'contentStructure',
-    name: 'Uses Subheadings',
-    passed: h2Count >= 2,
-    score: h2Count >= 2 ? 10 : h2Count >= 1 ? 5 : 0,
-    maxScore: 10,
-    details: `Found ${h2Count} H2 subheadings`,
-  });
-
-  const wordCount = textContent.split(/\s+/).length;
-  checks.push({
-    id: 'content-length',
-    category: 'contentStructure',
-    name: 'Sufficient Content',
-    passed: wordCount >= 500,
-    score: wordCount >= 500 ? 10 : wordCount >= 300 ? 5 : 0,
-    maxScore: 10,
-    details: `${wordCount} words`,
-  });
-
-  const hasFAQ = textLower.includes('faq') || textLower.includes('frequently asked') || $('*[itemtype*="FAQPage"]').length > 0;
-  checks.push({
-    id: 'faq-section',
-    category: 'contentStructure',
-    name: 'FAQ Section',
-    passed: hasFAQ,
-    score: hasFAQ ? 15 : 0,
-    maxScore: 15,
-    details: hasFAQ ? 'FAQ section detected' : 'No FAQ section found',
-  });
-
-  // Citation Readiness
-  const hasStats = /\d+%|\$[\d,]+|\d+\s*(million|billion|percent)/i.test(textContent);
-  checks.push({
-    id: 'statistics',
-    category: 'citationReadiness',
-    name: 'Contains Statistics',
-    passed: hasStats,
-    score: hasStats ? 15 : 0,
-    maxScore: 15,
-    details: hasStats ? 'Statistics/numbers found' : 'No statistics found',
-  });
-
-  const hasDefinitions = /\b(is defined as|refers to|is a type of|means)\b/i.test(textContent);
-  checks.push({
-    id: 'definitions',
-    category: 'citationReadiness',
-    name: 'Clear Definitions',
-    passed: hasDefinitions,
-    score: hasDefinitions ? 10 : 0,
-    maxScore: 10,
-    details: hasDefinitions ? 'Definition patterns found' : 'No clear definitions',
-  });
-
-  // Technical SEO
-  const hasSchema = html.includes('application/ld+json') || html.includes('itemtype=');
-  checks.push({
-    id: 'schema-markup',
-    category: 'technicalSeo',
-    name: 'Schema Markup',
-    passed: hasSchema,
-    score: hasSchema ? 15 : 0,
-    maxScore: 15,
-    details: hasSchema ? 'Structured data found' : 'No schema markup',
-  });
-
-  const metaDesc = $('meta[name="description"]').attr('content') || '';
-  const hasMetaDesc = metaDesc.length >= 50 && metaDesc.length <= 160;
-  checks.push({
-    id: 'meta-description',
-    category: 'technicalSeo',
-    name: 'Meta Description',
-    passed: hasMetaDesc,
-    score: hasMetaDesc ? 10 : metaDesc.length > 0 ? 5 : 0,
-    maxScore: 10,
-    details: metaDesc.length > 0 ? `${metaDesc.length} chars` : 'Missing',
-  });
-
-  const hasCanonical = $('link[rel="canonical"]').length > 0;
-  checks.push({
-    id: 'canonical-url',
-    category: 'technicalSeo',
-    name: 'Canonical URL',
-    passed: hasCanonical,
-    score: hasCanonical ? 5 : 0,
-    maxScore: 5,
-    details: hasCanonical ? 'Canonical set' : 'No canonical URL',
-  });
-
-  checks.push({
-    id: 'page-speed',
-    category: 'technicalSeo',
-    name: 'Page Speed',
-    passed: loadTime < 3000,
-    score: loadTime < 2000 ? 10 : loadTime < 3000 ? 5 : 0,
-    maxScore: 10,
-    details: `Loaded in ${(loadTime / 1000).toFixed(1)}s`,
-  });
-
-  // Credibility
-  const hasAuthor = /\b(author|written by|by\s+[A-Z])/i.test(html) || $('[rel="author"], .author, #author').length > 0;
-  checks.push({
-    id: 'author-info',
-    category: 'credibilitySignals',
-    name: 'Author Information',
-    passed: hasAuthor,
-    score: hasAuthor ? 10 : 0,
-    maxScore: 10,
-    details: hasAuthor ? 'Author info found' : 'No author information',
-  });
-
-  const hasDate = /\b(published|updated|posted)\s*(on|:)?\s*\w+\s+\d/i.test(html) || $('time, [datetime]').length > 0;
-  checks.push({
-    id: 'publish-date',
-    category: 'credibilitySignals',
-    name: 'Publish Date',
-    passed: hasDate,
-    score: hasDate ? 10 : 0,
-    maxScore: 10,
-    details: hasDate ? 'Date found' : 'No publish date',
-  });
-
-  const externalLinks = $('a[href^="http"]').filter((_, el) => {
-    const href = $(el).attr('href') || '';
-    return !href.includes(new URL(html).hostname);
-  }).length;
-  checks.push({
-    id: 'external-links',
-    category: 'credibilitySignals',
-    name: 'Source Citations',
-    passed: externalLinks >= 2,
-    score: externalLinks >= 2 ? 10 : externalLinks >= 1 ? 5 : 0,
-    maxScore: 10,
-    details: `${externalLinks} external links`,
-  });
-
-  // AI-Specific
-  const firstPara = $('p').first().text();
-  const answersUpfront = firstPara.length > 50 && /\b(is|are|was|means|refers)\b/i.test(firstPara);
-  checks.push({
-    id: 'upfront-answer',
-    category: 'aiSpecificFactors',
-    name: 'Answers Upfront',
-    passed: answersUpfront,
-    score: answersUpfront ? 15 : 0,
-    maxScore: 15,
-    details: answersUpfront ? 'Direct answer in first paragraph' : 'No upfront answer',
-  });
-
-  const hasTOC = textLower.includes('table of contents') || $('nav a[href^="#"], .toc, #toc').length > 3;
-  checks.push({
-    id: 'table-of-contents',
-    category: 'aiSpecificFactors',
-    name: 'Table of Contents',
-    passed: hasTOC,
-    score: hasTOC ? 5 : 0,
-    maxScore: 5,
-    details: hasTOC ? 'TOC found' : 'No table of contents',
-  });
-
-  return checks;
-}
-
 // ============================================
 // Score Calculation
 // ============================================
 
 function calculateCategoryScores(checks: Check[]): AnalysisResult['categories'] {
-  const categoryMap: Record<string, { score: number; maxScore: number }> = {
-    contentStructure: { score: 0, maxScore: 0 },
-    citationReadiness: { score: 0, maxScore: 0 },
-    technicalSeo: { score: 0, maxScore: 0 },
-    credibilitySignals: { score: 0, maxScore: 0 },
-    aiSpecificFactors: { score: 0, maxScore: 0 },
-  };
+  const categoryMap = {} as Record<CheckCategory, { score: number; maxScore: number }>;
+  for (const category of CHECK_CATEGORIES) {
+    categoryMap[category] = { score: 0, maxScore: 0 };
+  }
 
   for (const check of checks) {
-    if (categoryMap[check.category]) {
-      categoryMap[check.category].score += check.score;
-      categoryMap[check.category].maxScore += check.maxScore;
+    const category = categoryMap[check.category as CheckCategory];
+    if (category) {
+      category.score += check.score;
+      category.maxScore += check.maxScore;
     }
   }
 
@@ -492,7 +605,7 @@ function calculateCategoryScores(checks: Check[]): AnalysisResult['categories']
   
   for (const [key, value] of Object.entries(categoryMap)) {
     const percentage = value.maxScore > 0 ? Math.round((value.score / value.maxScore) * 100) : 0;
-    result[key as keyof AnalysisResult['categories']] = {
+    result[key as CheckCategory] = {
       score: value.score,
       maxScore: value.maxScore,
       percentage,
@@ -503,25 +616,17 @@ function calculateCategoryScores(checks: Check[]): AnalysisResult['categories']
   return result;
 }
 
-function scoreToGrade(score: number): 'A' | 'B' | 'C' | 'D' | 'F' {
-  if (score >= 90) return 'A';
-  if (score >= 80) return 'B';
-  if (score >= 70) return 'C';
-  if (score >= 60) return 'D';
-  return 'F';
-}
-
 // ============================================
 // Recommendations
 // ============================================
 
-function generateRecommendations(checks: Check[]): Recommendation[] {
+function generateRecommendations(checks: Check[], ctx: CheckContext): Recommendation[] {
   const recommendations: Recommendation[] = [];
 
   const failedChecks = checks.filter(c => !c.passed);
   
   for (const check of failedChecks) {
-    const rec = getRecommendation(check);
+    const rec = buildRecommendation(check, ctx);
     if (rec) recommendations.push(rec);
   }
 
@@ -532,65 +637,6 @@ function generateRecommendations(checks: Check[]): Recommendation[] {
   return recommendations;
 }
 
-function getRecommendation(check: Check): Recommendation | null {
-  const recs: Record<string, Omit<Recommendation, 'id'>> = {
-    'schema-markup': {
-      category: 'Technical',
-      priority: 'critical',
-      title: 'Add Schema.org Markup',
-      description: 'Structured data helps AI understand your content.',
-      impact: 'High - significantly improves AI discoverability',
-      howToFix: 'Add JSON-LD structured data to your page.',
-      codeExample: '<script type="application/ld+json">{"@context":"https://schema.org","@type":"Article",...}</script>',
-    },
-    'faq-section': {
-      category: 'Content',
-      priority: 'high',
-      title: 'Add FAQ Section',
-      description: 'FAQs are highly cited by AI assistants.',
-      impact: 'High - FAQs provide perfect citation material',
-      howToFix: 'Add 5-10 frequently asked questions with concise answers.',
-    },
-    'statistics': {
-      category: 'Content',
-      priority: 'high',
-      title: 'Add Statistics',
-      description: 'AI prefers citing specific numbers and data.',
-      impact: 'High - statistics make content more authoritative',
-      howToFix: 'Include specific percentages, dollar amounts, or measurable outcomes.',
-    },
-    'author-info': {
-      category: 'Credibility',
-      priority: 'high',
-      title: 'Add Author Information',
-      description: 'Author attribution increases credibility.',
-      impact: 'Medium - helps AI trust your content',
-      howToFix: 'Add author name, bio, and credentials.',
-    },
-    'upfront-answer': {
-      category: 'AI Optimization',
-      priority: 'high',
-      title: 'Answer Questions Upfront',
-      description: 'AI prefers content that answers directly.',
-      impact: 'High - first paragraph is often quoted',
-      howToFix: 'Start with a clear answer or definition in your first paragraph.',
-    },
-    'meta-description': {
-      category: 'Technical',
-      priority: 'medium',
-      title: 'Improve Meta Description',
-      description: 'Meta description helps AI understand page content.',
-      impact: 'Medium - improves content discovery',
-      howToFix: 'Write a 120-160 character description summarizing your content.',
-    },
-  };
-
-  const rec = recs[check.id];
-  if (!rec) return null;
-
-  return { id: check.id, ...rec };
-}
-
 // ============================================
 // Insights (simplified)
 // ============================================
@@ -598,14 +644,19 @@ function getRecommendation(check: Check): Recommendation | null {
 function generateInsights(
   $: cheerio.CheerioAPI,
   textContent: string,
+  paragraphs: string[],
+  headings: string[],
   title: string,
   domain: string,
-  checks: Check[]
+  checks: Check[],
+  structuredData: StructuredDataReport
 ): AnalysisResult['insights'] {
+  const questionsAnswered = extractQuestions(textContent, title);
+
   return {
-    citationPreviews: [],
-    questionsAnswered: extractQuestions(textContent, title),
-    entities: [],
+    citationPreviews: buildCitationPreviews({ $, paragraphs, questions: questionsAnswered, headings, title, domain }),
+    questionsAnswered,
+    entities: extractEntities(textContent, structuredData),
     quotableSnippets: findQuotableSnippets(textContent),
     contentGaps: identifyContentGaps(checks),
     platformTips: generatePlatformTips(checks),
@@ -0,0 +1,197 @@
+/**
+ * API Keys
+ *
+ * Per-user keys for the public /api/v1 endpoints. Only a SHA-256 hash of
+ * each key is stored; the plaintext is shown once, at creation. Keys
+ * carry scopes that limit what they can do.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import path from 'path';
+import { createWriteQueue, readJsonFile, writeJsonFile } from './json-file';
+
+// ============================================
+// Types
+// ============================================
+
+export const API_KEY_SCOPES = ['analyze', 'reports:read', 'reports:write'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  /** First characters of the key, safe to display */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+interface StoredApiKey extends ApiKey {
+  hash: string;
+}
+
+export interface ApiKeyStore {
+  /** Returns the plaintext key - it can't be recovered later */
+  create(userId: string, name: string, scopes: ApiKeyScope[]): Promise<{ apiKey: ApiKey; secret: string }>;
+  list(userId: string): Promise<ApiKey[]>;
+  get(id: string): Promise<ApiKey | null>;
+  revoke(id: string): Promise<ApiKey | null>;
+  /** Active (unrevoked) key for a plaintext secret */
+  findBySecret(secret: string): Promise<ApiKey | null>;
+  touch(id: string, at: Date): Promise<void>;
+}
+
+export type ApiKeyAuthResult =
+  | { apiKey: ApiKey }
+  | { error: string; status: 401 | 403 };
+
+const KEY_PREFIX = 'aso_';
+const DISPLAY_PREFIX_LENGTH = 12;
+export const MAX_KEYS_PER_USER = 10;
+
+// Last-used times are only written when they move by at least this much
+const TOUCH_INTERVAL = 60 * 1000;
+
+// ============================================
+// Keys
+// ============================================
+
+export function generateApiKeySecret(): string {
+  return KEY_PREFIX + randomBytes(32).toString('base64url');
+}
+
+export function hashApiKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * Reads the key from `Authorization: Bearer <key>` or `X-API-Key`
+ */
+export function getApiKeyFromRequest(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+  return request.headers.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * Resolves the request's key and checks it grants `scope`
+ */
+export async function authenticateApiKey(request: Request, scope: ApiKeyScope): Promise<ApiKeyAuthResult> {
+  const secret = getApiKeyFromRequest(request);
+  if (!secret) {
+    return { error: 'API key required. Send it as "Authorization: Bearer <key>".', status: 401 };
+  }
+
+  const store = getApiKeyStore();
+  const apiKey = secret.startsWith(KEY_PREFIX) ? await store.findBySecret(secret) : null;
+  if (!apiKey) {
+    return { error: 'Invalid or revoked API key', status: 401 };
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    return { error: `This API key is missing the "${scope}" scope`, status: 403 };
+  }
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - new Date(apiKey.lastUsedAt).getTime() > TOUCH_INTERVAL) {
+    await store.touch(apiKey.id, now).catch(error => {
+      console.error('[API Keys] Failed to update last used time:', error);
+    });
+  }
+
+  return { apiKey };
+}
+
+// ============================================
+// File adapter
+// ============================================
+
+export function createFileApiKeyStore(directory: string): ApiKeyStore {
+  const file = path.join(directory, 'keys.json');
+  const serialize = createWriteQueue();
+  const readAll = async () => (await readJsonFile<StoredApiKey[]>(file)) ?? [];
+  const strip = ({ hash: _, ...apiKey }: StoredApiKey): ApiKey => apiKey;
+
+  return {
+    create: (userId, name, scopes) => serialize(async () => {
+      const secret = generateApiKeySecret();
+      const stored: StoredApiKey = {
+        id: randomBytes(9).toString('base64url'),
+        userId,
+        name,
+        prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+        scopes,
+        createdAt: new Date().toISOString(),
+        lastUsedAt: null,
+        revokedAt: null,
+        hash: hashApiKey(secret),
+      };
+
+      await writeJsonFile(file, [...(await readAll()), stored]);
+      return { apiKey: strip(stored), secret };
+    }),
+
+    list: async (userId) => (await readAll())
+      .filter(k => k.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(strip),
+
+    get: async (id) => {
+      const stored = (await readAll()).find(k => k.id === id);
+      return stored ? strip(stored) : null;
+    },
+
+    revoke: (id) => serialize(async () => {
+      const keys = await readAll();
+      const stored = keys.find(k => k.id === id);
+      if (!stored) return null;
+
+      stored.revokedAt ??= new Date().toISOString();
+      await writeJsonFile(file, keys);
+      return strip(stored);
+    }),
+
+    findBySecret: async (secret) => {
+      const hash = hashApiKey(secret);
+      const stored = (await readAll()).find(k => k.hash === hash && !k.revokedAt);
+      return stored ? strip(stored) : null;
+    },
+
+    touch: (id, at) => serialize(async () => {
+      const keys = await readAll();
+      const stored = keys.find(k => k.id === id);
+      if (!stored) return;
+
+      stored.lastUsedAt = at.toISOString();
+      await writeJsonFile(file, keys);
+    }),
+  };
+}
+
+// ============================================
+// Default store
+// ============================================
+
+let store: ApiKeyStore | null = null;
+
+export function getApiKeyStore(): ApiKeyStore {
+  if (!store) {
+    const directory = process.env.API_KEY_STORE_DIR || path.join(process.cwd(), '.data', 'api-keys');
+    store = createFileApiKeyStore(directory);
+  }
+  return store;
+}
+
+export function setApiKeyStore(custom: ApiKeyStore): void {
+  store = custom;
+}
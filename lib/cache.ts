@@ -0,0 +1,122 @@
+/**
+ * Analysis Cache
+ *
+ * Remembers the last fetch of each page: its HTML, validators (ETag and
+ * Last-Modified), a content hash and the Claude analysis. `analyzeUrl` uses it to
+ * send conditional requests and to reuse the Claude analysis while the
+ * content is unchanged. Heuristic checks still run on every scan, since
+ * robots.txt, llms.txt and the check registry can change on their own.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AIAnalysis } from './claude-analyzer';
+import { readJsonFile, writeJsonFile } from './json-file';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CachedPage {
+  /** URL as requested; an entry is only used for the same URL, see `analysisCacheKey` */
+  url: string;
+  analyzerVersion: string;
+  etag: string | null;
+  lastModified: string | null;
+  /** Response headers the analysis reads, replayed on a 304 */
+  headers: Record<string, string>;
+  contentHash: string;
+  html: string;
+  /** From the last full fetch; a 304 round trip says nothing about page speed */
+  loadTime: number;
+  fetchedAt: string;
+  /** Last complete (non-fallback, fully valid) Claude analysis of exactly this content */
+  aiAnalysis: AIAnalysis | null;
+  /** Provider and model that produced it, see `getAnalysisModel` */
+  aiModel: string | null;
+}
+
+/** How a scan used the cache, reported in `metadata.cache` */
+export interface CacheUsage {
+  /**
+   * 'miss' no entry, 'not-modified' the server answered 304, 'unchanged' a
+   * full response with the same content, 'changed' new content, 'bypassed'
+   * the scan was forced
+   */
+  status: 'miss' | 'not-modified' | 'unchanged' | 'changed' | 'bypassed';
+  aiAnalysisReused: boolean;
+}
+
+export interface AnalysisCache {
+  get(key: string): Promise<CachedPage | null>;
+  set(key: string, page: CachedPage): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Only what the analyzer reads from response headers
+const CACHED_HEADERS = ['x-robots-tag'];
+
+// ============================================
+// Helpers
+// ============================================
+
+export function hashContent(html: string): string {
+  return createHash('sha256').update(html).digest('hex');
+}
+
+export function pickCachedHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of CACHED_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) picked[name] = value;
+  }
+  return picked;
+}
+
+/**
+ * Request headers that let the server answer 304 Not Modified
+ */
+export function conditionalHeaders(page: CachedPage | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (page?.etag) headers['If-None-Match'] = page.etag;
+  if (page?.lastModified) headers['If-Modified-Since'] = page.lastModified;
+  return headers;
+}
+
+// ============================================
+// File adapter
+// ============================================
+
+/**
+ * One JSON file per key, named by the key's hash
+ */
+export function createFileAnalysisCache(directory: string): AnalysisCache {
+  const filePath = (key: string) => path.join(directory, `${hashContent(key)}.json`);
+
+  return {
+    get: (key) => readJsonFile<CachedPage>(filePath(key)),
+    set: (key, page) => writeJsonFile(filePath(key), page),
+    delete: async (key) => {
+      await fs.rm(filePath(key), { force: true });
+    },
+  };
+}
+
+// ============================================
+// Default cache
+// ============================================
+
+let cache: AnalysisCache | null = null;
+
+export function getAnalysisCache(): AnalysisCache {
+  if (!cache) {
+    const directory = process.env.ANALYSIS_CACHE_DIR || path.join(process.cwd(), '.data', 'cache');
+    cache = createFileAnalysisCache(directory);
+  }
+  return cache;
+}
+
+export function setAnalysisCache(custom: AnalysisCache): void {
+  cache = custom;
+}
@@ -0,0 +1,112 @@
+import { generateLlmsTxt } from '../llms-txt';
+import type { CheckDefinition } from './types';
+
+export const aiSpecificFactorChecks: CheckDefinition[] = [
+  {
+    id: 'chunk-citability',
+    category: 'aiSpecificFactors',
+    name: 'Citable Chunks',
+    maxScore: 15,
+    evaluate: ({ chunks }) => {
+      if (chunks.chunks.length === 0) {
+        return { passed: false, score: 0, details: 'No content chunks found' };
+      }
+      const weakShare = chunks.weakest.length / chunks.chunks.length;
+      return {
+        passed: chunks.averageScore >= 60 && weakShare <= 0.25,
+        score: Math.round((chunks.averageScore / 100) * 15),
+        details: `${chunks.chunks.length} chunks, average citability ${chunks.averageScore}/100` +
+          (chunks.weakest.length > 0 ? `, ${chunks.weakest.length} weak` : ''),
+      };
+    },
+    recommendation: (check, { chunks }) => ({
+      category: 'AI Optimization',
+      priority: 'high',
+      title: 'Make Each Section Quotable On Its Own',
+      description: chunks.weakest.length > 0
+        ? `Weakest sections: ${chunks.weakest.slice(0, 3).map(c => `"${c.headingPath[c.headingPath.length - 1] || 'Intro'}" (${c.issues[0] ?? `${c.score}/100`})`).join('; ')}.`
+        : 'AI assistants quote individual sections, which often lose their meaning out of context.',
+      impact: 'High - retrieval works on chunks, not pages',
+      howToFix: 'Open each section by naming its subject, avoid "this"/"as mentioned above", keep sections to 40-300 words and include a concrete fact or definition.',
+    }),
+  },
+  {
+    id: 'upfront-answer',
+    category: 'aiSpecificFactors',
+    name: 'Answers Upfront',
+    maxScore: 5,
+    evaluate: ({ $, paragraphs }) => {
+      const firstPara = paragraphs[0] ?? $('p').first().text();
+      const answersUpfront = firstPara.length > 50 && /\b(is|are|was|means|refers)\b/i.test(firstPara);
+      return {
+        passed: answersUpfront,
+        score: answersUpfront ? 5 : 0,
+        details: answersUpfront ? 'Direct answer in first paragraph' : 'No upfront answer',
+      };
+    },
+    recommendation: {
+      category: 'AI Optimization',
+      priority: 'medium',
+      title: 'Answer Questions Upfront',
+      description: 'AI prefers content that answers directly.',
+      impact: 'Medium - first paragraph is often quoted',
+      howToFix: 'Start with a clear answer or definition in your first paragraph.',
+    },
+  },
+  {
+    id: 'table-of-contents',
+    category: 'aiSpecificFactors',
+    name: 'Table of Contents',
+    maxScore: 5,
+    evaluate: ({ $, fullText }) => {
+      const hasTOC = fullText.toLowerCase().includes('table of contents') || $('nav a[href^="#"], .toc, #toc').length > 3;
+      return {
+        passed: hasTOC,
+        score: hasTOC ? 5 : 0,
+        details: hasTOC ? 'TOC found' : 'No table of contents',
+      };
+    },
+  },
+  {
+    id: 'llms-txt',
+    category: 'aiSpecificFactors',
+    name: 'llms.txt File',
+    maxScore: 10,
+    evaluate: ({ llmsTxt }) => {
+      if (llmsTxt.status === 'not-checked') {
+        return { passed: false, score: 0, details: 'llms.txt not checked' };
+      }
+      if (llmsTxt.status !== 'found') {
+        return { passed: false, score: 0, details: `No llms.txt at ${llmsTxt.url}` };
+      }
+      if (llmsTxt.errors.length > 0) {
+        return { passed: false, score: 3, details: `Invalid llms.txt: ${llmsTxt.errors[0]}` };
+      }
+      if (llmsTxt.warnings.length > 0) {
+        return { passed: true, score: 7, details: `Valid llms.txt with ${llmsTxt.warnings.length} warning(s): ${llmsTxt.warnings[0]}` };
+      }
+      const links = llmsTxt.sections.reduce((sum, s) => sum + s.linkCount, 0);
+      return { passed: true, score: 10, details: `Valid llms.txt: ${llmsTxt.sections.length} sections, ${links} links` };
+    },
+    recommendation: (check, { llmsTxt }) => llmsTxt.status === 'found'
+      ? {
+          category: 'AI Optimization',
+          priority: 'medium',
+          title: 'Fix Your llms.txt',
+          description: `Your llms.txt does not follow the format: ${llmsTxt.errors.join('; ')}`,
+          impact: 'Medium - assistants may ignore a malformed llms.txt',
+          howToFix: 'Start with an H1 title, add a "> summary" blockquote and list key pages under H2 sections as "- [name](url): notes".',
+        }
+      : {
+          category: 'AI Optimization',
+          priority: 'medium',
+          title: 'Add an llms.txt File',
+          description: 'llms.txt gives AI assistants a curated, markdown map of your most important content.',
+          impact: 'Medium - helps assistants find and summarise your key pages',
+          howToFix: 'Publish a markdown file at /llms.txt. A draft generated from this page is below.',
+        },
+    codeExample: (check, ctx) => ctx.llmsTxt.status === 'found'
+      ? undefined
+      : generateLlmsTxt({ $: ctx.$, url: ctx.url, title: ctx.title, description: ctx.description }),
+  },
+];
@@ -0,0 +1,40 @@
+import type { CheckDefinition } from './types';
+
+export const citationReadinessChecks: CheckDefinition[] = [
+  {
+    id: 'statistics',
+    category: 'citationReadiness',
+    name: 'Contains Statistics',
+    maxScore: 15,
+    evaluate: ({ textContent }) => {
+      const hasStats = /\d+%|\$[\d,]+|\d+\s*(million|billion|percent)/i.test(textContent);
+      return {
+        passed: hasStats,
+        score: hasStats ? 15 : 0,
+        details: hasStats ? 'Statistics/numbers found' : 'No statistics found',
+      };
+    },
+    recommendation: {
+      category: 'Content',
+      priority: 'high',
+      title: 'Add Statistics',
+      description: 'AI prefers citing specific numbers and data.',
+      impact: 'High - statistics make content more authoritative',
+      howToFix: 'Include specific percentages, dollar amounts, or measurable outcomes.',
+    },
+  },
+  {
+    id: 'definitions',
+    category: 'citationReadiness',
+    name: 'Clear Definitions',
+    maxScore: 10,
+    evaluate: ({ textContent }) => {
+      const hasDefinitions = /\b(is defined as|refers to|is a type of|means)\b/i.test(textContent);
+      return {
+        passed: hasDefinitions,
+        score: hasDefinitions ? 10 : 0,
+        details: hasDefinitions ? 'Definition patterns found' : 'No clear definitions',
+      };
+    },
+  },
+];
@@ -0,0 +1,69 @@
+import type { CheckDefinition } from './types';
+
+export const contentStructureChecks: CheckDefinition[] = [
+  {
+    id: 'single-h1',
+    category: 'contentStructure',
+    name: 'Single H1 Tag',
+    maxScore: 10,
+    evaluate: ({ $ }) => {
+      const h1Count = $('h1').length;
+      return {
+        passed: h1Count === 1,
+        score: h1Count === 1 ? 10 : 0,
+        details: h1Count === 1 ? 'Good: Page has one H1' : `Found ${h1Count} H1 tags`,
+      };
+    },
+  },
+  {
+    id: 'subheadings',
+    category: 'contentStructure',
+    name: 'Uses Subheadings',
+    maxScore: 10,
+    evaluate: ({ $ }) => {
+      const h2Count = $('h2').length;
+      return {
+        passed: h2Count >= 2,
+        score: h2Count >= 2 ? 10 : h2Count >= 1 ? 5 : 0,
+        details: `Found ${h2Count} H2 subheadings`,
+      };
+    },
+  },
+  {
+    id: 'content-length',
+    category: 'contentStructure',
+    name: 'Sufficient Content',
+    maxScore: 10,
+    evaluate: ({ textContent }) => {
+      const wordCount = textContent.split(/\s+/).length;
+      return {
+        passed: wordCount >= 500,
+        score: wordCount >= 500 ? 10 : wordCount >= 300 ? 5 : 0,
+        details: `${wordCount} words`,
+      };
+    },
+  },
+  {
+    id: 'faq-section',
+    category: 'contentStructure',
+    name: 'FAQ Section',
+    maxScore: 15,
+    evaluate: ({ textContent, structuredData }) => {
+      const textLower = textContent.toLowerCase();
+      const hasFAQ = textLower.includes('faq') || textLower.includes('frequently asked') || structuredData.types.includes('FAQPage');
+      return {
+        passed: hasFAQ,
+        score: hasFAQ ? 15 : 0,
+        details: hasFAQ ? 'FAQ section detected' : 'No FAQ section found',
+      };
+    },
+    recommendation: {
+      category: 'Content',
+      priority: 'high',
+      title: 'Add FAQ Section',
+      description: 'FAQs are highly cited by AI assistants.',
+      impact: 'High - FAQs provide perfect citation material',
+      howToFix: 'Add 5-10 frequently asked questions with concise answers.',
+    },
+  },
+];
@@ -0,0 +1,89 @@
+import { restrictsQuoting } from '../crawler-access';
+import type { CheckDefinition } from './types';
+
+export const crawlerAccessChecks: CheckDefinition[] = [
+  {
+    id: 'ai-crawler-access',
+    category: 'crawlerAccess',
+    name: 'AI Crawlers Allowed',
+    maxScore: 20,
+    evaluate: ({ crawlerAccess }) => {
+      const total = crawlerAccess.crawlers.length;
+      const blocked = crawlerAccess.blockedCrawlers;
+      const allowed = total - blocked.length;
+
+      if (crawlerAccess.robotsTxt.status === 'not-checked') {
+        return { passed: true, score: 20, details: 'robots.txt not checked' };
+      }
+      if (crawlerAccess.robotsTxt.status === 'error') {
+        return { passed: false, score: 0, details: 'robots.txt returned a server error or was unreachable; crawlers treat the site as blocked' };
+      }
+
+      return {
+        passed: blocked.length === 0,
+        score: total > 0 ? Math.round((allowed / total) * 20) : 20,
+        details: blocked.length === 0
+          ? `All ${total} AI crawlers may fetch ${crawlerAccess.path}`
+          : `Blocked by robots.txt: ${blocked.join(', ')}`,
+      };
+    },
+    recommendation: (check, { crawlerAccess }) => {
+      if (crawlerAccess.robotsTxt.status === 'error') {
+        return {
+          category: 'Technical',
+          priority: 'critical',
+          title: 'Fix robots.txt Errors',
+          description: `${crawlerAccess.robotsTxt.url} returned a server error or could not be reached, so crawlers that follow Google's rules treat the whole site as blocked.`,
+          impact: 'Critical - assistants may not fetch or cite any page until robots.txt loads',
+          howToFix: 'Make /robots.txt return 200 with your rules, or 404 if you have none.',
+        };
+      }
+
+      const retrieval = crawlerAccess.crawlers.filter(c => !c.allowed && c.purpose !== 'training');
+      return {
+        category: 'Technical',
+        priority: retrieval.length > 0 ? 'critical' : 'high',
+        title: 'Allow AI Crawlers in robots.txt',
+        description: `robots.txt blocks ${crawlerAccess.blockedCrawlers.join(', ')} from this page.`,
+        impact: retrieval.length > 0
+          ? 'Critical - blocked assistants cannot fetch or cite this page'
+          : 'High - blocked crawlers cannot learn from this page',
+        howToFix: 'Add Allow rules for the AI user-agents you want to be cited by, or remove the Disallow rules that match this path.',
+      };
+    },
+    codeExample: (check, { crawlerAccess }) => crawlerAccess.robotsTxt.status === 'error'
+      ? 'User-agent: *\nAllow: /'
+      : crawlerAccess.blockedCrawlers
+        .map(agent => `User-agent: ${agent}\nAllow: ${crawlerAccess.path}`)
+        .join('\n\n'),
+  },
+  {
+    id: 'ai-snippet-directives',
+    category: 'crawlerAccess',
+    name: 'Quotable by AI Assistants',
+    maxScore: 10,
+    evaluate: ({ crawlerAccess }) => {
+      const { pageDirectives } = crawlerAccess;
+      const restricted = crawlerAccess.crawlers.filter(c => restrictsQuoting(c.directives));
+
+      if (pageDirectives.noindex || pageDirectives.nosnippet || pageDirectives.maxSnippet === 0) {
+        return { passed: false, score: 0, details: pageDirectives.sources.join('; ') };
+      }
+      if (restricted.length > 0) {
+        const sources = Array.from(new Set(restricted.flatMap(c => c.directives.sources)));
+        return { passed: false, score: 5, details: sources.join('; ') };
+      }
+
+      return { passed: true, score: 10, details: 'No noindex, nosnippet or max-snippet restrictions' };
+    },
+    recommendation: (check) => ({
+      category: 'Technical',
+      priority: 'critical',
+      title: 'Remove Snippet Restrictions',
+      description: `Robots directives stop AI assistants from quoting this page (${check.details}).`,
+      impact: 'Critical - assistants must be allowed to index and quote the page to cite it',
+      howToFix: 'Remove noindex and nosnippet from <meta name="robots"> and the X-Robots-Tag header, and raise or drop max-snippet.',
+    }),
+    codeExample: '<meta name="robots" content="index, follow, max-snippet:-1">',
+  },
+];
@@ -0,0 +1,134 @@
+import { isArticleType } from '../structured-data';
+import type { CheckContext, CheckDefinition } from './types';
+
+function articleItems({ structuredData }: CheckContext) {
+  return structuredData.items.filter(item => isArticleType(item.types));
+}
+
+function detectAuthorName({ $ }: CheckContext): string {
+  return (
+    $('meta[name="author"]').attr('content') ||
+    $('[rel="author"]').first().text() ||
+    $('.author, #author').first().text() ||
+    'Author Name'
+  ).replace(/\s+/g, ' ').trim();
+}
+
+function detectPublishDate({ $ }: CheckContext): string {
+  const value = $('meta[property="article:published_time"]').attr('content') || $('time[datetime]').first().attr('datetime');
+  // A placeholder, never today: suggesting a made-up date would have users publish one
+  return value && !isNaN(Date.parse(value)) ? value : 'YYYY-MM-DD';
+}
+
+export const credibilitySignalChecks: CheckDefinition[] = [
+  {
+    id: 'author-info',
+    category: 'credibilitySignals',
+    name: 'Author Information',
+    maxScore: 10,
+    evaluate: ({ $, html }) => {
+      const hasAuthor = /\b(author|written by|by\s+[A-Z])/i.test(html) || $('[rel="author"], .author, #author').length > 0;
+      return {
+        passed: hasAuthor,
+        score: hasAuthor ? 10 : 0,
+        details: hasAuthor ? 'Author info found' : 'No author information',
+      };
+    },
+    recommendation: {
+      category: 'Credibility',
+      priority: 'high',
+      title: 'Add Author Information',
+      description: 'Author attribution increases credibility.',
+      impact: 'Medium - helps AI trust your content',
+      howToFix: 'Add author name, bio, and credentials.',
+    },
+  },
+  {
+    id: 'publish-date',
+    category: 'credibilitySignals',
+    name: 'Publish Date',
+    maxScore: 10,
+    evaluate: ({ $, html }) => {
+      const hasDate = /\b(published|updated|posted)\s*(on|:)?\s*\w+\s+\d/i.test(html) || $('time, [datetime]').length > 0;
+      return {
+        passed: hasDate,
+        score: hasDate ? 10 : 0,
+        details: hasDate ? 'Date found' : 'No publish date',
+      };
+    },
+  },
+  {
+    id: 'external-links',
+    category: 'credibilitySignals',
+    name: 'Source Citations',
+    maxScore: 10,
+    evaluate: ({ $, url }) => {
+      const hostname = new URL(url).hostname;
+      const externalLinks = $('a[href^="http"]').filter((_, el) => {
+        const href = $(el).attr('href') || '';
+        return !href.includes(hostname);
+      }).length;
+      return {
+        passed: externalLinks >= 2,
+        score: externalLinks >= 2 ? 10 : externalLinks >= 1 ? 5 : 0,
+        details: `${externalLinks} external links`,
+      };
+    },
+  },
+  {
+    id: 'schema-author',
+    category: 'credibilitySignals',
+    name: 'Author in Structured Data',
+    maxScore: 5,
+    evaluate: (ctx) => {
+      const articles = articleItems(ctx);
+      // Pages that aren't articles are judged on their schema by schema-markup, not on a byline
+      if (articles.length === 0) {
+        return { passed: true, score: 5, details: 'No Article schema, so no author is expected' };
+      }
+      const missing = articles.filter(item => item.missingRecommended.includes('author'));
+      return missing.length === 0
+        ? { passed: true, score: 5, details: 'Article schema declares an author' }
+        : { passed: false, score: 0, details: `${missing[0].types.join('/')} schema has no author` };
+    },
+    recommendation: {
+      category: 'Credibility',
+      priority: 'high',
+      title: 'Declare the Author in Structured Data',
+      description: 'Your Article schema has no "author" property, so AI systems cannot attribute the content.',
+      impact: 'Medium - machine-readable authorship helps AI attribute and trust content',
+      howToFix: 'Add an "author" property with a Person (name and url) to your Article JSON-LD.',
+    },
+    codeExample: (check, ctx) => JSON.stringify({
+      author: { '@type': 'Person', name: detectAuthorName(ctx), url: new URL('/about', ctx.url).toString() },
+    }, null, 2),
+  },
+  {
+    id: 'schema-date-published',
+    category: 'credibilitySignals',
+    name: 'Publish Date in Structured Data',
+    maxScore: 5,
+    evaluate: (ctx) => {
+      const articles = articleItems(ctx);
+      if (articles.length === 0) {
+        return { passed: true, score: 5, details: 'No Article schema, so no datePublished is expected' };
+      }
+      const missing = articles.filter(item => item.missingRecommended.includes('datePublished'));
+      return missing.length === 0
+        ? { passed: true, score: 5, details: 'Article schema declares datePublished' }
+        : { passed: false, score: 0, details: `${missing[0].types.join('/')} schema has no datePublished` };
+    },
+    recommendation: {
+      category: 'Credibility',
+      priority: 'medium',
+      title: 'Declare the Publish Date in Structured Data',
+      description: 'AI systems prefer fresh content and read the date from datePublished and dateModified.',
+      impact: 'Medium - undated content is harder to trust and rank for freshness',
+      howToFix: 'Add ISO 8601 "datePublished" and "dateModified" properties to your Article JSON-LD, using the date the page was first published.',
+    },
+    codeExample: (check, ctx) => {
+      const date = detectPublishDate(ctx);
+      return JSON.stringify({ datePublished: date, dateModified: date }, null, 2);
+    },
+  },
+];
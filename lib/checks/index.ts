@@ -0,0 +1,38 @@
+/**
+ * Built-in Checks
+ *
+ * Importing this module registers every built-in check. Add a new
+ * built-in by appending it to one of the category lists below.
+ */
+
+import { registerCheck } from './registry';
+import { contentStructureChecks } from './content-structure';
+import { citationReadinessChecks } from './citation-readiness';
+import { technicalSeoChecks } from './technical-seo';
+import { credibilitySignalChecks } from './credibility-signals';
+import { aiSpecificFactorChecks } from './ai-specific-factors';
+import { crawlerAccessChecks } from './crawler-access';
+
+export const BUILT_IN_CHECKS = [
+  ...contentStructureChecks,
+  ...citationReadinessChecks,
+  ...technicalSeoChecks,
+  ...credibilitySignalChecks,
+  ...aiSpecificFactorChecks,
+  ...crawlerAccessChecks,
+];
+
+for (const definition of BUILT_IN_CHECKS) {
+  registerCheck(definition);
+}
+
+export {
+  registerCheck,
+  unregisterCheck,
+  getCheck,
+  listChecks,
+  resolveChecks,
+  runChecks,
+  buildRecommendation,
+} from './registry';
+export * from './types';
@@ -0,0 +1,77 @@
+/**
+ * Check Registry
+ *
+ * Holds every known check. Built-in checks register themselves from
+ * ./index; in-house checks can call registerCheck() at startup.
+ */
+
+import type { Check, Recommendation } from '../analyzer';
+import type { CheckContext, CheckDefinition, CheckSelection } from './types';
+
+const registry = new Map<string, CheckDefinition>();
+
+export function registerCheck(definition: CheckDefinition): void {
+  if (registry.has(definition.id)) {
+    throw new Error(`Check "${definition.id}" is already registered`);
+  }
+  registry.set(definition.id, definition);
+}
+
+export function unregisterCheck(id: string): boolean {
+  return registry.delete(id);
+}
+
+export function getCheck(id: string): CheckDefinition | undefined {
+  return registry.get(id);
+}
+
+export function listChecks(): CheckDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Resolve which checks run for a scan
+ */
+export function resolveChecks(selection: CheckSelection = {}): CheckDefinition[] {
+  const disabled = new Set(selection.disable || []);
+  const enabled = new Set(selection.enable || []);
+  const only = selection.only ? new Set(selection.only) : null;
+
+  return listChecks().filter(def => {
+    if (disabled.has(def.id)) return false;
+    if (only) return only.has(def.id);
+    return def.enabledByDefault !== false || enabled.has(def.id);
+  });
+}
+
+export function runChecks(definitions: CheckDefinition[], ctx: CheckContext): Check[] {
+  return definitions.map(def => {
+    const outcome = def.evaluate(ctx);
+    return {
+      id: def.id,
+      category: def.category,
+      name: def.name,
+      maxScore: def.maxScore,
+      ...outcome,
+    };
+  });
+}
+
+/**
+ * Build the recommendation for a failed check from its definition
+ */
+export function buildRecommendation(check: Check, ctx: CheckContext): Recommendation | null {
+  const def = registry.get(check.id);
+  if (!def || !def.recommendation) return null;
+
+  const spec = typeof def.recommendation === 'function'
+    ? def.recommendation(check, ctx)
+    : def.recommendation;
+  if (!spec) return null;
+
+  const codeExample = typeof def.codeExample === 'function'
+    ? def.codeExample(check, ctx)
+    : def.codeExample;
+
+  return { id: check.id, ...spec, ...(codeExample ? { codeExample } : {}) };
+}
@@ -0,0 +1,143 @@
+import type { StructuredDataItem } from '../structured-data';
+import type { CheckDefinition } from './types';
+
+function describeProblems(item: StructuredDataItem): string[] {
+  return [
+    ...item.missingRequired.map(prop => `missing required "${prop}"`),
+    ...item.issues,
+  ];
+}
+
+export const technicalSeoChecks: CheckDefinition[] = [
+  {
+    id: 'schema-markup',
+    category: 'technicalSeo',
+    name: 'Schema Markup',
+    maxScore: 15,
+    evaluate: ({ structuredData }) => {
+      const { items, types } = structuredData;
+      if (items.length === 0) {
+        return { passed: false, score: 0, details: 'No schema markup' };
+      }
+
+      const incomplete = items.filter(item => item.missingRequired.length > 0 || item.issues.length > 0);
+      if (incomplete.length > 0) {
+        const first = incomplete[0];
+        return {
+          passed: false,
+          score: 10,
+          details: `${first.types.join('/')}: ${describeProblems(first).join('; ')}`,
+        };
+      }
+
+      return { passed: true, score: 15, details: `Structured data found: ${types.join(', ')}` };
+    },
+    recommendation: (check, { structuredData }) => {
+      const incomplete = structuredData.items.filter(item => item.missingRequired.length > 0 || item.issues.length > 0);
+      if (incomplete.length > 0) {
+        return {
+          category: 'Technical',
+          priority: 'high',
+          title: 'Complete Your Schema.org Markup',
+          description: incomplete
+            .map(item => `${item.types.join('/')} (${item.source}): ${describeProblems(item).join(', ')}`)
+            .join('; '),
+          impact: 'High - incomplete items are ignored by search and AI systems',
+          howToFix: 'Add the missing required properties and correct the invalid values listed above.',
+        };
+      }
+      return {
+        category: 'Technical',
+        priority: 'critical',
+        title: 'Add Schema.org Markup',
+        description: 'Structured data helps AI understand your content.',
+        impact: 'High - significantly improves AI discoverability',
+        howToFix: 'Add JSON-LD structured data to your page.',
+      };
+    },
+    codeExample: (check, { structuredData }) => structuredData.items.length === 0
+      ? '<script type="application/ld+json">{"@context":"https://schema.org","@type":"Article",...}</script>'
+      : undefined,
+  },
+  {
+    id: 'schema-json-syntax',
+    category: 'technicalSeo',
+    name: 'Valid JSON-LD',
+    maxScore: 5,
+    evaluate: ({ structuredData }) => {
+      const { parseErrors, jsonLdBlocks } = structuredData;
+      if (parseErrors.length === 0) {
+        return {
+          passed: true,
+          score: 5,
+          details: jsonLdBlocks > 0 ? `${jsonLdBlocks} JSON-LD block(s) parsed` : 'No JSON-LD blocks',
+        };
+      }
+      const first = parseErrors[0];
+      const location = first.line !== null ? ` at line ${first.line}, column ${first.column}` : '';
+      return {
+        passed: false,
+        score: 0,
+        details: `${parseErrors.length} of ${jsonLdBlocks} JSON-LD block(s) are invalid JSON (block ${first.block}${location}: ${first.message})`,
+      };
+    },
+    recommendation: (check, { structuredData }) => ({
+      category: 'Technical',
+      priority: 'critical',
+      title: 'Fix Broken JSON-LD',
+      description: 'Invalid JSON-LD is ignored entirely, so none of its structured data is used.',
+      impact: 'High - the page loses all the structured data in the broken block',
+      howToFix: structuredData.parseErrors
+        .map(e => `Block ${e.block}${e.line !== null ? `, line ${e.line} column ${e.column}` : ''}: ${e.message}. Check for trailing commas, unquoted keys, unescaped quotes or comments near "${e.excerpt}".`)
+        .join(' '),
+    }),
+  },
+  {
+    id: 'meta-description',
+    category: 'technicalSeo',
+    name: 'Meta Description',
+    maxScore: 10,
+    evaluate: ({ $ }) => {
+      const metaDesc = $('meta[name="description"]').attr('content') || '';
+      const hasMetaDesc = metaDesc.length >= 50 && metaDesc.length <= 160;
+      return {
+        passed: hasMetaDesc,
+        score: hasMetaDesc ? 10 : metaDesc.length > 0 ? 5 : 0,
+        details: metaDesc.length > 0 ? `${metaDesc.length} chars` : 'Missing',
+      };
+    },
+    recommendation: {
+      category: 'Technical',
+      priority: 'medium',
+      title: 'Improve Meta Description',
+      description: 'Meta description helps AI understand page content.',
+      impact: 'Medium - improves content discovery',
+      howToFix: 'Write a 120-160 character description summarizing your content.',
+    },
+  },
+  {
+    id: 'canonical-url',
+    category: 'technicalSeo',
+    name: 'Canonical URL',
+    maxScore: 5,
+    evaluate: ({ $ }) => {
+      const hasCanonical = $('link[rel="canonical"]').length > 0;
+      return {
+        passed: hasCanonical,
+        score: hasCanonical ? 5 : 0,
+        details: hasCanonical ? 'Canonical set' : 'No canonical URL',
+      };
+    },
+  },
+  {
+    id: 'page-speed',
+    category: 'technicalSeo',
+    name: 'Page Speed',
+    maxScore: 10,
+    evaluate: ({ loadTime }) => ({
+      passed: loadTime < 3000,
+      score: loadTime < 2000 ? 10 : loadTime < 3000 ? 5 : 0,
+      details: `Loaded in ${(loadTime / 1000).toFixed(1)}s`,
+    }),
+  },
+];
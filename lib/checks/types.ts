@@ -0,0 +1,86 @@
+/**
+ * Check Registry Types
+ *
+ * A check is a self-contained definition: it declares where it scores,
+ * how it evaluates a page and what to recommend when it fails.
+ */
+
+import type * as cheerio from 'cheerio';
+import type { AnalysisResult, Check, Recommendation } from '../analyzer';
+import type { ChunkAnalysis } from '../chunks';
+import type { CrawlerAccessReport } from '../crawler-access';
+import type { LlmsTxtReport } from '../llms-txt';
+import type { StructuredDataReport } from '../structured-data';
+
+export type CheckCategory = keyof AnalysisResult['categories'];
+
+export const CHECK_CATEGORIES: CheckCategory[] = [
+  'contentStructure',
+  'citationReadiness',
+  'technicalSeo',
+  'credibilitySignals',
+  'aiSpecificFactors',
+  'crawlerAccess',
+];
+
+export const CATEGORY_NAMES: Record<CheckCategory, string> = {
+  contentStructure: 'Content Structure',
+  citationReadiness: 'Citation Readiness',
+  technicalSeo: 'Technical SEO',
+  credibilitySignals: 'Credibility Signals',
+  aiSpecificFactors: 'AI-Specific Factors',
+  crawlerAccess: 'AI Crawler Access',
+};
+
+/**
+ * Everything a check may look at. Built once per scan and shared by all checks.
+ */
+export interface CheckContext {
+  $: cheerio.CheerioAPI;
+  html: string;
+  /** Main content text, with navigation and other boilerplate removed */
+  textContent: string;
+  /** Whole body text */
+  fullText: string;
+  /** Paragraphs of the main content, in order */
+  paragraphs: string[];
+  url: string;
+  title: string;
+  description: string;
+  loadTime: number;
+  crawlerAccess: CrawlerAccessReport;
+  llmsTxt: LlmsTxtReport;
+  structuredData: StructuredDataReport;
+  /** Heading-scoped chunks of the main content, scored for citability */
+  chunks: ChunkAnalysis;
+}
+
+export interface CheckOutcome {
+  passed: boolean;
+  score: number;
+  details: string;
+}
+
+export type RecommendationSpec = Omit<Recommendation, 'id' | 'codeExample'>;
+
+export interface CheckDefinition {
+  id: string;
+  category: CheckCategory;
+  name: string;
+  maxScore: number;
+  /** Set to false for checks that only run when explicitly enabled */
+  enabledByDefault?: boolean;
+  evaluate: (ctx: CheckContext) => CheckOutcome;
+  recommendation?: RecommendationSpec | ((check: Check, ctx: CheckContext) => RecommendationSpec | null);
+  codeExample?: string | ((check: Check, ctx: CheckContext) => string | undefined);
+}
+
+/**
+ * Per-scan check selection. `only` replaces the default set,
+ * `enable` adds opt-in checks and `disable` removes checks.
+ */
+export interface CheckSelection {
+  only?: string[];
+  enable?: string[];
+  disable?: string[];
+}
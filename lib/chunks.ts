@@ -0,0 +1,170 @@
+/**
+ * Chunk-Level Citability
+ *
+ * AI search engines retrieve and quote chunks, not pages. Splits the
+ * main content into heading-scoped chunks and scores each one on
+ * whether it still makes sense when quoted on its own.
+ */
+
+import * as cheerio from 'cheerio';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ChunkScore {
+  /** Headings from the top of the page down to this chunk */
+  headingPath: string[];
+  preview: string;
+  wordCount: number;
+  /** 0-100 */
+  score: number;
+  issues: string[];
+}
+
+export interface ChunkAnalysis {
+  chunks: ChunkScore[];
+  averageScore: number;
+  /** Lowest-scoring chunks, worst first */
+  weakest: ChunkScore[];
+}
+
+// ============================================
+// Heuristics
+// ============================================
+
+const DANGLING_START = /^(it|this|that|these|those|they|them|he|she|his|her|its|their|such|also|however|moreover|furthermore|additionally|therefore|thus|so|but|and)\b/i;
+const BACK_REFERENCES = /\b(as (mentioned|noted|discussed|described|shown|explained|stated)( (above|earlier|before|previously|below))?|see (above|below)|the above|the following|previous (section|paragraph|step)|next (section|paragraph)|mentioned earlier|in the last section)\b/i;
+const FACT_PATTERN = /\d+(\.\d+)?\s*(%|percent|million|billion|thousand|x\b|times|ms|milliseconds|seconds|minutes|hours|days|years|usd|\$)|\$\s?\d|\b(19|20)\d{2}\b/i;
+const DEFINITION_PATTERN = /\b(is a|is an|is the|are a|are the|refers to|means|defined as|consists of)\b/i;
+
+const IDEAL_MIN_WORDS = 40;
+const IDEAL_MAX_WORDS = 300;
+const MAX_WEAKEST = 5;
+
+const HEADING_WORD_STOPWORDS = new Set(['what', 'how', 'why', 'when', 'where', 'who', 'which', 'the', 'and', 'for', 'with', 'your', 'does', 'are', 'you', 'can', 'from', 'into', 'about']);
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * `paragraphs` are the main-content paragraphs, so navigation and
+ * footers never become chunks.
+ */
+export function analyzeChunks($: cheerio.CheerioAPI, paragraphs: string[]): ChunkAnalysis {
+  const chunks = splitChunks($, paragraphs).map(chunk => scoreChunk(chunk.headingPath, chunk.text));
+
+  const averageScore = chunks.length > 0
+    ? Math.round(chunks.reduce((sum, c) => sum + c.score, 0) / chunks.length)
+    : 0;
+
+  const weakest = [...chunks]
+    .filter(c => c.score < 60)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, MAX_WEAKEST);
+
+  return { chunks, averageScore, weakest };
+}
+
+export function splitChunks($: cheerio.CheerioAPI, paragraphs: string[]): Array<{ headingPath: string[]; text: string }> {
+  const mainParagraphs = new Set(paragraphs);
+  const chunks: Array<{ headingPath: string[]; text: string }> = [];
+  const path: Array<{ level: number; text: string }> = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      chunks.push({ headingPath: path.map(h => h.text), text: current.join(' ') });
+    }
+    current = [];
+  };
+
+  $('h1, h2, h3, h4, h5, h6, p').each((_, el) => {
+    if (el.type !== 'tag') return;
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    if (!text) return;
+
+    if (el.tagName === 'p') {
+      if (mainParagraphs.has(text)) current.push(text);
+      return;
+    }
+
+    flush();
+    const level = Number(el.tagName.slice(1));
+    while (path.length > 0 && path[path.length - 1].level >= level) path.pop();
+    path.push({ level, text });
+  });
+  flush();
+
+  return chunks;
+}
+
+export function scoreChunk(headingPath: string[], text: string): ChunkScore {
+  const issues: string[] = [];
+  const words = text.split(/\s+/).filter(w => w.length > 0);
+  const wordCount = words.length;
+  const firstSentence = text.split(/(?<=[.!?])\s+/)[0] || '';
+  let score = 0;
+
+  // Length (25): long enough to stand alone, short enough to quote
+  if (wordCount >= IDEAL_MIN_WORDS && wordCount <= IDEAL_MAX_WORDS) {
+    score += 25;
+  } else if (wordCount < 20 || wordCount > 500) {
+    score += 5;
+    issues.push(wordCount < 20 ? `Too short to quote on its own (${wordCount} words)` : `Too long to quote (${wordCount} words)`);
+  } else {
+    score += 15;
+    issues.push(wordCount < IDEAL_MIN_WORDS ? `Short chunk (${wordCount} words)` : `Long chunk (${wordCount} words) - consider splitting`);
+  }
+
+  // Self-containedness (30): no dangling pronouns or back-references
+  let selfContained = 30;
+  const dangling = firstSentence.match(DANGLING_START);
+  if (dangling) {
+    selfContained -= 15;
+    issues.push(`Opens with "${dangling[0]}", which depends on earlier context`);
+  }
+  const backReference = text.match(BACK_REFERENCES);
+  if (backReference) {
+    selfContained -= 15;
+    issues.push(`Refers elsewhere ("${backReference[0]}")`);
+  }
+  score += selfContained;
+
+  // Clear subject (20): the opening names what the chunk is about
+  const headingTerms = contentWords(headingPath[headingPath.length - 1] || '');
+  const openingTerms = new Set(contentWords(firstSentence));
+  if (headingTerms.some(t => openingTerms.has(t))) {
+    score += 20;
+  } else if (!dangling) {
+    score += 10;
+    if (headingTerms.length > 0) issues.push('Opening sentence does not name the topic of its heading');
+  } else {
+    issues.push('No clear subject in the opening sentence');
+  }
+
+  // Facts (25): numbers and definitions are what gets quoted
+  const hasFact = FACT_PATTERN.test(text);
+  const hasDefinition = DEFINITION_PATTERN.test(text);
+  if (hasFact) score += 15;
+  if (hasDefinition) score += 10;
+  if (!hasFact && !hasDefinition) issues.push('No facts, figures or definitions to cite');
+
+  return {
+    headingPath,
+    preview: text.length > 160 ? `${text.slice(0, 157)}...` : text,
+    wordCount,
+    score: Math.min(100, score),
+    issues,
+  };
+}
+
+function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 2 && !HEADING_WORD_STOPWORDS.has(w))
+    .map(w => w.replace(/(ing|ed|es|s)$/, ''));
+}
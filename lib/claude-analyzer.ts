@@ -1,12 +1,27 @@
 /**
  * Claude AI-Powered Analysis
  * 
- * Uses direct HTTP calls to Anthropic API (avoiding SDK issues in serverless)
+ * Builds the analysis prompt and parses the reply. The model behind it
+ * is whichever LLM provider is configured (see lib/llm) - Claude by default.
  */
 
+import { parseAIAnalysis, type AIAnalysisValidation } from './ai-analysis-schema';
+import { getLLMProvider, measureUsage, resolveLLMSettings } from './llm';
+import type { LongDocumentReport } from './long-document';
+import type { Plan } from './user';
+
+/** Content beyond this is cut from the prompt; longer pages go through lib/long-document */
+export const MAX_CONTENT_CHARS = 6000;
+
 export interface AIAnalysis {
   summary: string;
   aiReadinessScore: number;
+  /** Set on the placeholder returned when Claude couldn't be reached */
+  fallback?: boolean;
+  /** How the analysis was produced; absent on fallbacks and older cached analyses */
+  provenance?: AIAnalysisProvenance;
+  /** Section coverage when the page was analyzed section by section */
+  longDocument?: LongDocumentReport;
   
   contentUnderstanding: {
     mainTopic: string;
@@ -14,6 +29,12 @@ export interface AIAnalysis {
     contentType: string;
     keyMessages: string[];
   };
+
+  /** Key named entities, used to correct and extend the local extractor */
+  entities?: Array<{
+    name: string;
+    type: 'person' | 'organization' | 'product' | 'concept' | 'location' | 'date';
+  }>;
   
   citationSimulation: {
     likelyQueries: string[];
@@ -31,18 +52,22 @@ export interface AIAnalysis {
     recommendation: string;
     priority: 'critical' | 'high' | 'medium' | 'low';
     exampleFix?: string;
+    /** Heading of the section the finding is about (long-document analyses) */
+    section?: string;
   }>;
   
   missingContent: Array<{
     topic: string;
     reason: string;
     suggestedContent: string;
+    section?: string;
   }>;
   
   rewriteSuggestions: Array<{
     original: string;
     improved: string;
     reason: string;
+    section?: string;
   }>;
   
   competitiveAnalysis: {
@@ -52,10 +77,35 @@ export interface AIAnalysis {
   };
 }
 
+export interface AIAnalysisProvenance {
+  provider: string;
+  model: string;
+  /** 2 when the first reply failed validation and a repair was requested */
+  attempts: number;
+  /** Field paths taken from the model's reply, e.g. "contentUnderstanding.mainTopic" */
+  modelFields: string[];
+  /** Field paths filled with defaults because the reply lacked them or had the wrong shape */
+  defaultedFields: string[];
+  /** Validation errors left in the reply that was used */
+  errors: string[];
+  /** Input plus output tokens across attempts */
+  tokensUsed: number;
+}
+
+/** Page facts the prompt includes alongside the content */
+export interface AnalysisPageMetadata {
+  wordCount: number;
+  hasSchema: boolean;
+  hasFAQ: boolean;
+  hasAuthor: boolean;
+  headings: string[];
+}
+
 function createFallbackAnalysis(title: string, errorMessage?: string): AIAnalysis {
   return {
     summary: errorMessage || 'AI analysis not available.',
     aiReadinessScore: 50,
+    fallback: true,
     contentUnderstanding: {
       mainTopic: title || 'Unknown',
       targetAudience: 'General audience',
@@ -81,24 +131,19 @@ export async function analyzeWithClaude(
   content: string,
   title: string,
   url: string,
-  metadata: {
-    wordCount: number;
-    hasSchema: boolean;
-    hasFAQ: boolean;
-    hasAuthor: boolean;
-    headings: string[];
-  }
+  metadata: AnalysisPageMetadata,
+  options: { plan?: Plan } = {}
 ): Promise<AIAnalysis> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
+  const provider = getLLMProvider();
   
-  if (!apiKey) {
-    console.log('[Claude Analysis] No API key configured');
-    return createFallbackAnalysis(title, 'Configure ANTHROPIC_API_KEY for AI-powered analysis.');
+  if (!provider) {
+    console.log('[Claude Analysis] No LLM provider configured');
+    return createFallbackAnalysis(title, 'Configure ANTHROPIC_API_KEY (or another LLM_PROVIDER) for AI-powered analysis.');
   }
 
   // Truncate content for cost efficiency
-  const truncatedContent = content.length > 6000 
-    ? content.slice(0, 6000) + '\n\n[Content truncated...]'
+  const truncatedContent = content.length > MAX_CONTENT_CHARS 
+    ? content.slice(0, MAX_CONTENT_CHARS) + '\n\n[Content truncated...]'
     : content;
 
   const prompt = `You are an expert in AI search optimization - helping websites get cited by AI assistants like ChatGPT, Perplexity, Claude, and Google AI Overview.
@@ -128,6 +173,9 @@ Respond with this exact JSON structure (no markdown, just JSON):
     "contentType": "article/guide/product/etc",
     "keyMessages": ["Main point 1", "Main point 2", "Main point 3"]
   },
+  "entities": [
+    { "name": "Exact name as written on the page", "type": "person/organization/product/concept/location/date" }
+  ],
   "citationSimulation": {
     "likelyQueries": ["query 1", "query 2", "query 3", "query 4", "query 5"],
     "sampleCitations": [
@@ -176,50 +224,53 @@ Respond with this exact JSON structure (no markdown, just JSON):
 }`;
 
   try {
-    console.log('[Claude Analysis] Calling Anthropic API...');
+    const settings = resolveLLMSettings(options.plan ?? 'free', provider);
+    console.log(`[Claude Analysis] Calling ${provider.name} (${settings.model})...`);
     
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 3000,
-        messages: [{ role: 'user', content: prompt }],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[Claude Analysis] API error:', response.status, errorText);
-      throw new Error(`API error: ${response.status}`);
-    }
+    const request = { prompt, ...settings };
+    const first = await provider.complete(request);
+    let tokensUsed = measureUsage(request, first);
+    let model = first.model;
+    let attempts = 1;
+    let validation = parseAIAnalysis(first.text, { title });
 
-    const data = await response.json();
-    
-    // Extract text from response
-    const textContent = data.content?.find((block: { type: string }) => block.type === 'text');
-    if (!textContent || !textContent.text) {
-      throw new Error('No text response from Claude');
-    }
+    // One repair attempt, showing the model its reply and what was wrong with it
+    if (validation.errors.length > 0) {
+      console.log(`[Claude Analysis] Reply failed validation (${validation.errors.length} errors), requesting a repair`);
+      attempts = 2;
+      const repairRequest = { prompt: buildRepairPrompt(prompt, first.text, validation), ...settings };
+      const repair = await provider.complete(repairRequest).catch(error => {
+        console.error('[Claude Analysis] Repair request failed:', error);
+        return null;
+      });
+      if (repair) tokensUsed += measureUsage(repairRequest, repair);
+      const repaired = repair && parseAIAnalysis(repair.text, { title });
 
-    // Clean the response - remove any markdown formatting
-    let jsonText = textContent.text.trim();
-    if (jsonText.startsWith('```json')) {
-      jsonText = jsonText.slice(7);
-    }
-    if (jsonText.startsWith('```')) {
-      jsonText = jsonText.slice(3);
+      if (repair && repaired && repaired.parsed && repaired.errors.length < validation.errors.length) {
+        validation = repaired;
+        model = repair.model;
+      }
     }
-    if (jsonText.endsWith('```')) {
-      jsonText = jsonText.slice(0, -3);
+
+    if (!validation.parsed) {
+      throw new Error(validation.errors[0] ?? 'The reply is not a JSON object');
     }
-    jsonText = jsonText.trim();
 
-    const analysis = JSON.parse(jsonText) as AIAnalysis;
+    const analysis: AIAnalysis = {
+      ...validation.analysis,
+      provenance: {
+        provider: provider.name,
+        model,
+        attempts,
+        modelFields: validation.modelFields,
+        defaultedFields: validation.defaultedFields,
+        errors: validation.errors,
+        tokensUsed,
+      },
+    };
+    if (validation.errors.length > 0) {
+      console.log(`[Claude Analysis] Using reply with ${validation.errors.length} validation errors:`, validation.errors.slice(0, 5));
+    }
     console.log('[Claude Analysis] Success, score:', analysis.aiReadinessScore);
     return analysis;
 
@@ -229,3 +280,33 @@ Respond with this exact JSON structure (no markdown, just JSON):
     return createFallbackAnalysis(title, `AI analysis failed: ${message}`);
   }
 }
+
+// Long replies are cut from the repair prompt; the model only needs to see what it got wrong
+const MAX_REPAIR_REPLY_LENGTH = 12000;
+const MAX_REPAIR_ERRORS = 20;
+
+function buildRepairPrompt(prompt: string, reply: string, validation: AIAnalysisValidation): string {
+  const errors = validation.errors.slice(0, MAX_REPAIR_ERRORS).map(error => `- ${error}`).join('\n');
+  const previous = reply.length > MAX_REPAIR_REPLY_LENGTH
+    ? reply.slice(0, MAX_REPAIR_REPLY_LENGTH) + '\n[Reply truncated...]'
+    : reply;
+
+  return `${prompt}
+
+**Your previous reply:**
+${previous}
+
+**It did not match the required JSON structure:**
+${errors}
+
+Reply again with the complete, corrected JSON object only (no markdown, no commentary).`;
+}
+
+/**
+ * Identifies the provider and model a plan's analyses come from, so
+ * analyses from another model aren't reused. Null when AI isn't configured.
+ */
+export function getAnalysisModel(plan: Plan = 'free'): string | null {
+  const provider = getLLMProvider();
+  return provider ? `${provider.name}/${resolveLLMSettings(plan, provider).model}` : null;
+}
@@ -0,0 +1,303 @@
+/**
+ * Competitor Comparison
+ *
+ * Analyzes a page alongside competitor pages and reports where the
+ * competitors are ahead: overall and per-category score deltas, checks
+ * they pass that we fail, and terms and topics only they cover.
+ */
+
+import * as cheerio from 'cheerio';
+import { analyzeUrl, type AnalysisResult, type AnalyzeOptions } from './analyzer';
+import { CHECK_CATEGORIES, type CheckCategory } from './checks';
+import { extractMainContent } from './content-extractor';
+import { getDomain, runWithConcurrency } from './utils';
+
+// ============================================
+// Types
+// ============================================
+
+export const MAX_COMPETITORS = 5;
+
+export interface ComparisonOptions {
+  includeAI?: boolean;
+  analyzeOptions?: AnalyzeOptions;
+}
+
+export interface ComparedPage {
+  url: string;
+  domain: string;
+  score: number | null;
+  grade: AnalysisResult['grade'] | null;
+  wordCount: number | null;
+  categories: Partial<Record<CheckCategory, number>>;
+  /** Competitor minus our page; null when either side failed */
+  scoreDelta: number | null;
+  categoryDeltas: Partial<Record<CheckCategory, number>>;
+  error?: string;
+}
+
+export interface CheckGap {
+  id: string;
+  name: string;
+  category: string;
+  /** Competitor URLs that pass this check */
+  passedBy: string[];
+  ourDetails: string;
+}
+
+export interface TermGap {
+  term: string;
+  /** Competitor URLs that use the term */
+  usedBy: string[];
+  totalMentions: number;
+}
+
+export interface TopicGap {
+  heading: string;
+  url: string;
+}
+
+export interface ComparisonReport {
+  timestamp: string;
+  target: ComparedPage;
+  competitors: ComparedPage[];
+  /** Rank of our page by score among all successfully analyzed pages (1 = best) */
+  rank: number;
+  checkGaps: CheckGap[];
+  termGaps: TermGap[];
+  topicGaps: TopicGap[];
+}
+
+interface AnalyzedPage {
+  url: string;
+  result: AnalysisResult | null;
+  text: string;
+  error?: string;
+}
+
+// ============================================
+// Tuning
+// ============================================
+
+const MAX_TERM_GAPS = 25;
+const MAX_TOPIC_GAPS = 15;
+const MIN_TERM_MENTIONS = 2;
+
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be',
+  'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'doing', 'down', 'during', 'each', 'even', 'every', 'few', 'for', 'from', 'further', 'get', 'gets', 'had', 'has',
+  'have', 'having', 'here', 'how', 'however', 'into', 'its', 'itself', 'just', 'like', 'made', 'make', 'many', 'may',
+  'more', 'most', 'much', 'must', 'need', 'never', 'not', 'now', 'off', 'once', 'one', 'only', 'other', 'our', 'ours',
+  'out', 'over', 'own', 'same', 'should', 'since', 'some', 'still', 'such', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'too', 'under', 'until', 'upon', 'use', 'used',
+  'using', 'very', 'want', 'was', 'way', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom',
+  'why', 'will', 'with', 'within', 'without', 'would', 'you', 'your', 'yours', 'yourself', 'read', 'click',
+  'share', 'new', 'first', 'best', 'good', 'great', 'really', 'thing', 'things', 'lot', 'know', 'see', 'say', 'said',
+]);
+
+// ============================================
+// Comparison
+// ============================================
+
+export async function comparePages(
+  targetUrl: string,
+  competitorUrls: string[],
+  options: ComparisonOptions = {}
+): Promise<ComparisonReport> {
+  if (competitorUrls.length === 0 || competitorUrls.length > MAX_COMPETITORS) {
+    throw new Error(`Provide between 1 and ${MAX_COMPETITORS} competitor URLs`);
+  }
+
+  const urls = [targetUrl, ...competitorUrls];
+  const analyzed = new Map<string, AnalyzedPage>();
+
+  await runWithConcurrency(urls, 3, async (url) => {
+    analyzed.set(url, await analyzeForComparison(url, options));
+  });
+
+  const target = analyzed.get(targetUrl)!;
+  if (!target.result) {
+    throw new Error(`Could not analyze ${targetUrl}: ${target.error}`);
+  }
+  const ours = target.result;
+  const competitors = competitorUrls.map(url => analyzed.get(url)!);
+  const succeeded = competitors.filter((c): c is AnalyzedPage & { result: AnalysisResult } => c.result !== null);
+
+  const rank = 1 + succeeded.filter(c => c.result.score > ours.score).length;
+
+  return {
+    timestamp: new Date().toISOString(),
+    target: toComparedPage(target, null),
+    competitors: competitors.map(c => toComparedPage(c, ours)),
+    rank,
+    checkGaps: findCheckGaps(ours, succeeded),
+    termGaps: findTermGaps(target.text, succeeded),
+    topicGaps: findTopicGaps(target.text, succeeded),
+  };
+}
+
+async function analyzeForComparison(url: string, options: ComparisonOptions): Promise<AnalyzedPage> {
+  let doc: cheerio.CheerioAPI | null = null;
+
+  try {
+    const result = await analyzeUrl(url, options.includeAI ?? false, {
+      ...options.analyzeOptions,
+      onDocument: ($, pageUrl) => {
+        options.analyzeOptions?.onDocument?.($, pageUrl);
+        doc = $;
+      },
+    });
+
+    // The analyzer strips scripts from the same document, so this is the cleaned page
+    const text = doc ? extractMainContent(doc).text : '';
+    return { url, result, text };
+  } catch (error) {
+    console.error(`[Comparison] Failed to analyze ${url}:`, error);
+    return { url, result: null, text: '', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+function toComparedPage(page: AnalyzedPage, ours: AnalysisResult | null): ComparedPage {
+  const categories: ComparedPage['categories'] = {};
+  const categoryDeltas: ComparedPage['categoryDeltas'] = {};
+
+  if (page.result) {
+    for (const category of CHECK_CATEGORIES) {
+      const percentage = page.result.categories[category]?.percentage;
+      if (percentage === undefined) continue;
+      categories[category] = percentage;
+      const ourPercentage = ours?.categories[category]?.percentage;
+      if (ourPercentage !== undefined) categoryDeltas[category] = percentage - ourPercentage;
+    }
+  }
+
+  return {
+    url: page.url,
+    domain: getDomain(page.url),
+    score: page.result?.score ?? null,
+    grade: page.result?.grade ?? null,
+    wordCount: page.result?.metadata.wordCount ?? null,
+    categories,
+    scoreDelta: page.result && ours ? page.result.score - ours.score : null,
+    categoryDeltas,
+    ...(page.error ? { error: page.error } : {}),
+  };
+}
+
+// ============================================
+// Gaps
+// ============================================
+
+function findCheckGaps(
+  ours: AnalysisResult,
+  competitors: Array<{ url: string; result: AnalysisResult }>
+): CheckGap[] {
+  return ours.checks
+    .filter(check => !check.passed)
+    .map(check => ({
+      id: check.id,
+      name: check.name,
+      category: check.category,
+      passedBy: competitors
+        .filter(c => c.result.checks.some(theirs => theirs.id === check.id && theirs.passed))
+        .map(c => c.url),
+      ourDetails: check.details,
+    }))
+    .filter(gap => gap.passedBy.length > 0)
+    .sort((a, b) => b.passedBy.length - a.passedBy.length);
+}
+
+/**
+ * Terms (words and two-word phrases) that competitors use repeatedly
+ * and we never mention. A term must appear on at least half of the
+ * competitors to count, so one outlier page doesn't set the agenda.
+ */
+function findTermGaps(ourText: string, competitors: Array<{ url: string; text: string }>): TermGap[] {
+  if (competitors.length === 0) return [];
+
+  const ourTerms = countTerms(ourText);
+  const usage = new Map<string, { usedBy: string[]; totalMentions: number }>();
+
+  for (const competitor of competitors) {
+    countTerms(competitor.text).forEach((count, term) => {
+      if (count < MIN_TERM_MENTIONS || ourTerms.has(term)) return;
+      const entry = usage.get(term) ?? { usedBy: [], totalMentions: 0 };
+      entry.usedBy.push(competitor.url);
+      entry.totalMentions += count;
+      usage.set(term, entry);
+    });
+  }
+
+  const minCompetitors = Math.ceil(competitors.length / 2);
+  const gaps = Array.from(usage.entries())
+    .filter(([, entry]) => entry.usedBy.length >= minCompetitors)
+    .map(([term, entry]) => ({ term, ...entry }))
+    .sort((a, b) => b.usedBy.length - a.usedBy.length || b.totalMentions - a.totalMentions);
+
+  // Drop single words already covered by a reported phrase
+  const phrases = gaps.filter(g => g.term.includes(' '));
+  return gaps
+    .filter(g => g.term.includes(' ') || !phrases.some(p => p.term.split(' ').includes(g.term) && p.usedBy.length >= g.usedBy.length))
+    .slice(0, MAX_TERM_GAPS);
+}
+
+/**
+ * Competitor section headings whose key words never appear on our page
+ */
+function findTopicGaps(ourText: string, competitors: Array<{ url: string; result: AnalysisResult }>): TopicGap[] {
+  const ourTerms = countTerms(ourText);
+  const seen = new Set<string>();
+  const gaps: TopicGap[] = [];
+
+  for (const competitor of competitors) {
+    for (const chunk of competitor.result.chunks.chunks) {
+      const heading = chunk.headingPath[chunk.headingPath.length - 1];
+      if (!heading || seen.has(heading.toLowerCase())) continue;
+      seen.add(heading.toLowerCase());
+
+      const words = tokenize(heading);
+      if (words.length === 0) continue;
+      const covered = words.filter(w => ourTerms.has(w)).length / words.length;
+      if (covered < 0.5) gaps.push({ heading, url: competitor.url });
+    }
+  }
+
+  return gaps.slice(0, MAX_TOPIC_GAPS);
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s'-]/g, ' ')
+    .split(/\s+/)
+    .map(w => w.replace(/^['-]+|['-]+$/g, ''))
+    .filter(w => w.length > 2 && !STOPWORDS.has(w) && !/^\d+$/.test(w));
+}
+
+function countTerms(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (term: string) => counts.set(term, (counts.get(term) ?? 0) + 1);
+
+  // Bigrams only join words that were adjacent in the original sentence
+  for (const sentence of text.split(/[.!?;:,()\n]+/)) {
+    const words = sentence.toLowerCase().split(/\s+/).map(w => w.replace(/[^a-z0-9'-]/g, ''));
+    let previous: string | null = null;
+    for (const word of words) {
+      const keep = word.length > 2 && !STOPWORDS.has(word) && !/^\d+$/.test(word);
+      if (!keep) {
+        previous = null;
+        continue;
+      }
+      add(word);
+      if (previous) add(`${previous} ${word}`);
+      previous = word;
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,228 @@
+/**
+ * Main Content Extraction
+ *
+ * Readability-style boilerplate removal: strips navigation, banners and
+ * footers, scores the remaining DOM blocks by text density and keeps
+ * the best-scoring container (plus related siblings) as the article.
+ */
+
+import * as cheerio from 'cheerio';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ContentBlock {
+  label: string;
+  wordCount: number;
+  preview: string;
+  reason?: string;
+}
+
+export interface ContentExtractionReport {
+  method: 'scored' | 'body';
+  keptWordCount: number;
+  discardedWordCount: number;
+  kept: ContentBlock[];
+  discarded: ContentBlock[];
+}
+
+export interface ExtractedContent {
+  text: string;
+  paragraphs: string[];
+  report: ContentExtractionReport;
+}
+
+// ============================================
+// Heuristics
+// ============================================
+
+const BOILERPLATE_SELECTORS = [
+  'nav', 'header', 'footer', 'aside', 'form', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="dialog"]',
+  '[aria-hidden="true"]', '[hidden]',
+].join(', ');
+
+// Removed wherever they appear
+const BOILERPLATE_PATTERN = /cookie|consent|gdpr|newsletter|subscribe|signup|popup|modal|advert|sponsor|comment|disqus|skip-link/i;
+// Removed only when they are mostly links
+const NEGATIVE_PATTERN = /banner|footer|sidebar|widget|nav|menu|breadcrumb|share|social|promo|related|recommend|masthead/i;
+const POSITIVE_PATTERN = /article|body|content|entry|main|page|post|text|blog|story|prose/i;
+
+const CANDIDATE_TAGS = 'p, pre, td, blockquote, li, h2, h3';
+const MIN_BLOCK_CHARS = 25;
+const MAX_BLOCKS_REPORTED = 15;
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+// ============================================
+// Extraction
+// ============================================
+
+/**
+ * Works on its own copy of the document so checks still see the full page
+ */
+export function extractMainContent($: cheerio.CheerioAPI): ExtractedContent {
+  const doc = cheerio.load($.html());
+  const discarded: ContentBlock[] = [];
+  const originalWords = countWords(normalize(doc('body').text()));
+
+  // 1. Strip obvious boilerplate
+  doc(BOILERPLATE_SELECTORS).each((_, el) => {
+    const node = doc(el);
+    if (node.closest('main, article').length > 0 && !node.is('aside, form')) return;
+    discarded.push(describeBlock(doc, node, 'boilerplate element'));
+    node.remove();
+  });
+
+  doc('[class], [id]').each((_, el) => {
+    const node = doc(el);
+    if (node.is('body, main, article') || node.parents().length === 0) return;
+    const signature = `${node.attr('class') || ''} ${node.attr('id') || ''}`;
+    const boilerplate = signature.match(BOILERPLATE_PATTERN);
+    const negative = signature.match(NEGATIVE_PATTERN);
+
+    if (boilerplate || (negative && !POSITIVE_PATTERN.test(signature) && linkDensity(doc, node) > 0.3)) {
+      discarded.push(describeBlock(doc, node, `matches "${(boilerplate || negative)![0]}"`));
+      node.remove();
+    }
+  });
+
+  // 2. Score containers by the text blocks they hold
+  const blocks = doc(CANDIDATE_TAGS).toArray();
+  type Node = typeof blocks[number];
+  const scores = new Map<Node, number>();
+
+  for (const block of blocks) {
+    const text = doc(block).text().replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_BLOCK_CHARS) continue;
+
+    const blockScore = 1 + (text.match(/,/g) || []).length + Math.min(3, Math.floor(text.length / 100));
+    const parent = block.parent as Node | null;
+    const grandparent = parent?.parent as Node | null;
+
+    if (parent && parent.type === 'tag') {
+      scores.set(parent, (scores.get(parent) ?? initialScore(doc, parent)) + blockScore);
+    }
+    if (grandparent && grandparent.type === 'tag') {
+      scores.set(grandparent, (scores.get(grandparent) ?? initialScore(doc, grandparent)) + blockScore / 2);
+    }
+  }
+
+  let top: Node | null = null;
+  let topScore = 0;
+  scores.forEach((score, node) => {
+    const adjusted = score * (1 - linkDensity(doc, doc(node)));
+    scores.set(node, adjusted);
+    if (adjusted > topScore) {
+      top = node;
+      topScore = adjusted;
+    }
+  });
+
+  const bodyText = normalize(doc('body').text());
+  const bodyWords = countWords(bodyText);
+
+  // 3. Keep the top candidate and siblings that score nearly as well
+  const keptNodes: Node[] = [];
+  if (top) {
+    const threshold = Math.max(10, topScore * 0.2);
+    const topNode: Node = top;
+    const siblings = topNode.parent ? doc(topNode.parent).children().toArray() : [topNode];
+    for (const sibling of siblings) {
+      const score = scores.get(sibling) ?? 0;
+      const isParagraph = sibling.type === 'tag' && sibling.tagName === 'p' && normalize(doc(sibling).text()).length > 80;
+      if (sibling === topNode || score >= threshold || isParagraph) {
+        keptNodes.push(sibling);
+      }
+    }
+  }
+
+  const keptText = normalize(keptNodes.map(node => doc(node).text()).join(' '));
+  const keptWords = countWords(keptText);
+
+  // Fall back to the whole body when scoring found too little
+  if (keptNodes.length === 0 || keptWords < 50 || keptWords < bodyWords * 0.25) {
+    return {
+      text: bodyText,
+      paragraphs: collectParagraphs(doc, doc('body')),
+      report: {
+        method: 'body',
+        keptWordCount: bodyWords,
+        discardedWordCount: Math.max(0, originalWords - bodyWords),
+        kept: [describeBlock(doc, doc('body'))],
+        discarded: discarded.slice(0, MAX_BLOCKS_REPORTED),
+      },
+    };
+  }
+
+  // Everything else left in the body was discarded for low text density
+  const keptSet = new Set<Node>(keptNodes);
+  doc('body').children().each((_, el) => {
+    const node = doc(el);
+    if (keptSet.has(el) || node.find('*').toArray().some(child => keptSet.has(child))) return;
+    if (countWords(normalize(node.text())) > 0) {
+      discarded.push(describeBlock(doc, node, 'low text density'));
+    }
+  });
+
+  return {
+    text: keptText,
+    paragraphs: keptNodes.flatMap(node => collectParagraphs(doc, doc(node))),
+    report: {
+      method: 'scored',
+      keptWordCount: keptWords,
+      discardedWordCount: Math.max(0, originalWords - keptWords),
+      kept: keptNodes.slice(0, MAX_BLOCKS_REPORTED).map(node => describeBlock(doc, doc(node))),
+      discarded: discarded.slice(0, MAX_BLOCKS_REPORTED),
+    },
+  };
+}
+
+function initialScore(doc: cheerio.CheerioAPI, node: Parameters<cheerio.CheerioAPI>[0]): number {
+  const el = doc(node);
+  const signature = `${el.attr('class') || ''} ${el.attr('id') || ''}`;
+  let score = 0;
+  if (el.is('article, main')) score += 10;
+  if (el.is('div')) score += 5;
+  if (POSITIVE_PATTERN.test(signature)) score += 25;
+  if (NEGATIVE_PATTERN.test(signature) || BOILERPLATE_PATTERN.test(signature)) score -= 25;
+  return score;
+}
+
+function linkDensity(doc: cheerio.CheerioAPI, node: Selection): number {
+  const textLength = normalize(node.text()).length;
+  if (textLength === 0) return 0;
+  const linkLength = node.find('a').toArray().reduce((sum, a) => sum + normalize(doc(a).text()).length, 0);
+  return linkLength / textLength;
+}
+
+function collectParagraphs(doc: cheerio.CheerioAPI, node: Selection): string[] {
+  const paragraphs = node.is('p') ? [node.get(0)] : node.find('p').toArray();
+  return paragraphs
+    .map(p => normalize(doc(p).text()))
+    .filter(text => text.length > 0);
+}
+
+function describeBlock(doc: cheerio.CheerioAPI, node: Selection, reason?: string): ContentBlock {
+  const el = node.get(0);
+  const tag = el && el.type === 'tag' ? el.tagName : 'node';
+  const id = node.attr('id');
+  const className = (node.attr('class') || '').trim().split(/\s+/).filter(Boolean).slice(0, 2).join('.');
+  const text = normalize(node.text());
+
+  return {
+    label: `${tag}${id ? `#${id}` : ''}${className ? `.${className}` : ''}`,
+    wordCount: countWords(text),
+    preview: text.length > 80 ? `${text.slice(0, 77)}...` : text,
+    ...(reason ? { reason } : {}),
+  };
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => w.length > 0).length;
+}
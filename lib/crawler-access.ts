@@ -0,0 +1,358 @@
+/**
+ * AI Crawler Access Audit
+ *
+ * Reads robots.txt, <meta name="robots"> and X-Robots-Tag to work out
+ * whether AI assistants are allowed to fetch and quote a page.
+ */
+
+import type * as cheerio from 'cheerio';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AICrawler {
+  userAgent: string;
+  operator: string;
+  /** training: model training, search: AI search index, user: fetches on behalf of a user */
+  purpose: 'training' | 'search' | 'user';
+}
+
+export interface RobotsDirectives {
+  noindex: boolean;
+  nosnippet: boolean;
+  maxSnippet: number | null;
+  sources: string[];
+}
+
+export interface CrawlerAccessEntry extends AICrawler {
+  allowed: boolean;
+  matchedRule: string | null;
+  directives: RobotsDirectives;
+}
+
+export interface CrawlerAccessReport {
+  robotsTxt: {
+    url: string;
+    status: 'found' | 'missing' | 'error' | 'not-checked';
+  };
+  path: string;
+  crawlers: CrawlerAccessEntry[];
+  blockedCrawlers: string[];
+  pageDirectives: RobotsDirectives;
+  /** Highest overall score the page can reach given its crawler access */
+  scoreCap: number | null;
+}
+
+interface RobotsRule {
+  type: 'allow' | 'disallow';
+  pattern: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+}
+
+// ============================================
+// Known AI crawlers
+// ============================================
+
+export const AI_CRAWLERS: AICrawler[] = [
+  { userAgent: 'GPTBot', operator: 'OpenAI', purpose: 'training' },
+  { userAgent: 'OAI-SearchBot', operator: 'OpenAI', purpose: 'search' },
+  { userAgent: 'ChatGPT-User', operator: 'OpenAI', purpose: 'user' },
+  { userAgent: 'ClaudeBot', operator: 'Anthropic', purpose: 'training' },
+  { userAgent: 'Claude-SearchBot', operator: 'Anthropic', purpose: 'search' },
+  { userAgent: 'Claude-User', operator: 'Anthropic', purpose: 'user' },
+  { userAgent: 'PerplexityBot', operator: 'Perplexity', purpose: 'search' },
+  { userAgent: 'Perplexity-User', operator: 'Perplexity', purpose: 'user' },
+  { userAgent: 'Google-Extended', operator: 'Google', purpose: 'training' },
+  { userAgent: 'Applebot-Extended', operator: 'Apple', purpose: 'training' },
+  { userAgent: 'Meta-ExternalAgent', operator: 'Meta', purpose: 'training' },
+  { userAgent: 'Amazonbot', operator: 'Amazon', purpose: 'search' },
+  { userAgent: 'Bytespider', operator: 'ByteDance', purpose: 'training' },
+  { userAgent: 'CCBot', operator: 'Common Crawl', purpose: 'training' },
+  { userAgent: 'cohere-ai', operator: 'Cohere', purpose: 'training' },
+];
+
+// ============================================
+// robots.txt
+// ============================================
+
+export async function fetchRobotsTxt(pageUrl: string): Promise<{
+  url: string;
+  status: 'found' | 'missing' | 'error';
+  content: string | null;
+}> {
+  const robotsUrl = new URL('/robots.txt', pageUrl).toString();
+
+  try {
+    const response = await fetch(robotsUrl, {
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; AISearchOptimizer/2.0)' },
+      signal: AbortSignal.timeout(10000),
+      redirect: 'follow',
+    });
+
+    if (response.status >= 400 && response.status < 500) {
+      return { url: robotsUrl, status: 'missing', content: null };
+    }
+    if (!response.ok) {
+      return { url: robotsUrl, status: 'error', content: null };
+    }
+
+    return { url: robotsUrl, status: 'found', content: await response.text() };
+  } catch (error) {
+    console.error('[Crawler Access] robots.txt fetch failed:', error);
+    return { url: robotsUrl, status: 'error', content: null };
+  }
+}
+
+export function parseRobotsTxt(content: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      lastWasAgent = true;
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      // An empty Disallow allows everything, so it adds no rule
+      if (value) current.rules.push({ type: field, pattern: value });
+      lastWasAgent = false;
+    } else {
+      lastWasAgent = false;
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Apply robots.txt rules the way Google documents them: the most
+ * specific user-agent group wins, then the longest matching rule, and
+ * Allow wins a tie.
+ */
+export function isPathAllowed(
+  groups: RobotsGroup[],
+  userAgent: string,
+  path: string
+): { allowed: boolean; matchedRule: string | null } {
+  const agent = userAgent.toLowerCase();
+  let matching = groups.filter(g => g.userAgents.includes(agent));
+  if (matching.length === 0) {
+    matching = groups.filter(g => g.userAgents.includes('*'));
+  }
+
+  const rules = matching.flatMap(g => g.rules);
+  let best: RobotsRule | null = null;
+
+  for (const rule of rules) {
+    if (!robotsPatternMatches(rule.pattern, path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.type === 'allow')
+    ) {
+      best = rule;
+    }
+  }
+
+  if (!best) return { allowed: true, matchedRule: null };
+
+  return {
+    allowed: best.type === 'allow',
+    matchedRule: `${best.type === 'allow' ? 'Allow' : 'Disallow'}: ${best.pattern}`,
+  };
+}
+
+function robotsPatternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
+
+// ============================================
+// Meta robots / X-Robots-Tag
+// ============================================
+
+const PARAMETER_DIRECTIVES = ['max-snippet', 'max-image-preview', 'max-video-preview', 'unavailable_after'];
+
+function emptyDirectives(): RobotsDirectives {
+  return { noindex: false, nosnippet: false, maxSnippet: null, sources: [] };
+}
+
+function applyDirective(target: RobotsDirectives, directive: string, source: string): void {
+  const value = directive.trim().toLowerCase();
+  if (!value) return;
+
+  if (value === 'noindex' || value === 'none') {
+    target.noindex = true;
+    target.sources.push(`${source}: ${value}`);
+  } else if (value === 'nosnippet') {
+    target.nosnippet = true;
+    target.sources.push(`${source}: ${value}`);
+  } else if (value.startsWith('max-snippet')) {
+    const limit = parseInt(value.split(':')[1] || '', 10);
+    if (!isNaN(limit) && limit >= 0) {
+      target.maxSnippet = target.maxSnippet === null ? limit : Math.min(target.maxSnippet, limit);
+      target.sources.push(`${source}: ${value}`);
+    }
+  }
+}
+
+/**
+ * Split an X-Robots-Tag value into directives per user-agent. A
+ * "botname:" prefix scopes the directives that follow it; '*' holds
+ * unscoped directives.
+ */
+function parseXRobotsTag(header: string): Map<string, string[]> {
+  const scoped = new Map<string, string[]>();
+  let scope = '*';
+
+  for (const token of header.split(',')) {
+    let directive = token.trim();
+    const prefixed = directive.match(/^([a-z0-9_.-]+)\s*:\s*(.+)$/i);
+
+    if (prefixed && !PARAMETER_DIRECTIVES.includes(prefixed[1].toLowerCase())) {
+      scope = prefixed[1].toLowerCase();
+      directive = prefixed[2];
+    }
+
+    const list = scoped.get(scope) || [];
+    list.push(directive);
+    scoped.set(scope, list);
+  }
+
+  return scoped;
+}
+
+function collectDirectives(
+  $: cheerio.CheerioAPI,
+  xRobotsTag: string | null,
+  userAgent: string | null
+): RobotsDirectives {
+  const directives = emptyDirectives();
+  const names = userAgent ? [userAgent.toLowerCase()] : ['robots'];
+
+  $('meta[name]').each((_, el) => {
+    const name = ($(el).attr('name') || '').toLowerCase();
+    if (!names.includes(name)) return;
+    for (const part of ($(el).attr('content') || '').split(',')) {
+      applyDirective(directives, part, `<meta name="${name}">`);
+    }
+  });
+
+  if (xRobotsTag) {
+    const scope = userAgent ? userAgent.toLowerCase() : '*';
+    for (const part of parseXRobotsTag(xRobotsTag).get(scope) || []) {
+      applyDirective(directives, part, 'X-Robots-Tag');
+    }
+  }
+
+  return directives;
+}
+
+function mergeDirectives(a: RobotsDirectives, b: RobotsDirectives): RobotsDirectives {
+  const limits = [a.maxSnippet, b.maxSnippet].filter((v): v is number => v !== null);
+  return {
+    noindex: a.noindex || b.noindex,
+    nosnippet: a.nosnippet || b.nosnippet,
+    maxSnippet: limits.length > 0 ? Math.min(...limits) : null,
+    sources: [...a.sources, ...b.sources],
+  };
+}
+
+/**
+ * Whether directives stop an assistant from quoting the page
+ */
+export function restrictsQuoting(directives: RobotsDirectives): boolean {
+  return directives.noindex || directives.nosnippet || (directives.maxSnippet !== null && directives.maxSnippet < 160);
+}
+
+// ============================================
+// Audit
+// ============================================
+
+export function auditCrawlerAccess(input: {
+  url: string;
+  $: cheerio.CheerioAPI;
+  headers: Headers | null;
+  robots: { url: string; status: CrawlerAccessReport['robotsTxt']['status']; content: string | null };
+}): CrawlerAccessReport {
+  const parsedUrl = new URL(input.url);
+  const path = parsedUrl.pathname + parsedUrl.search;
+  const groups = input.robots.content ? parseRobotsTxt(input.robots.content) : [];
+  const xRobotsTag = input.headers?.get('x-robots-tag') || null;
+  // Google treats a robots.txt that errors (5xx or unreachable) as Disallow: /
+  const robotsUnavailable = input.robots.status === 'error';
+
+  const pageDirectives = collectDirectives(input.$, xRobotsTag, null);
+
+  const crawlers: CrawlerAccessEntry[] = AI_CRAWLERS.map(crawler => {
+    const { allowed, matchedRule } = robotsUnavailable
+      ? { allowed: false, matchedRule: 'robots.txt unavailable' }
+      : isPathAllowed(groups, crawler.userAgent, path);
+    return {
+      ...crawler,
+      allowed,
+      matchedRule,
+      directives: mergeDirectives(pageDirectives, collectDirectives(input.$, xRobotsTag, crawler.userAgent)),
+    };
+  });
+
+  const blockedCrawlers = crawlers.filter(c => !c.allowed).map(c => c.userAgent);
+
+  return {
+    robotsTxt: { url: input.robots.url, status: input.robots.status },
+    path,
+    crawlers,
+    blockedCrawlers,
+    pageDirectives,
+    scoreCap: calculateScoreCap(crawlers, pageDirectives, robotsUnavailable),
+  };
+}
+
+/**
+ * A page AI assistants can't read or quote should never grade well,
+ * however good its content is. A robots.txt error may only be transient,
+ * so it caps the score like a partial block rather than a full one.
+ */
+function calculateScoreCap(
+  crawlers: CrawlerAccessEntry[],
+  pageDirectives: RobotsDirectives,
+  robotsUnavailable: boolean
+): number | null {
+  const blocked = crawlers.filter(c => !c.allowed);
+
+  if (pageDirectives.noindex || (!robotsUnavailable && blocked.length === crawlers.length)) return 40;
+
+  const retrievalBlocked = blocked.some(c => c.purpose !== 'training');
+  if (retrievalBlocked || pageDirectives.nosnippet || crawlers.some(c => restrictsQuoting(c.directives))) {
+    return 69;
+  }
+
+  if (blocked.length > 0) return 89;
+
+  return null;
+}
@@ -0,0 +1,328 @@
+/**
+ * Entity Extraction
+ *
+ * Local, dependency-free entity extraction: capitalised n-grams and
+ * pattern heuristics over the page text, dates, and entities declared
+ * in JSON-LD. Results can be enriched with entities from the AI pass.
+ */
+
+import type { ExtractedEntity } from './analyzer';
+import type { StructuredDataReport } from './structured-data';
+
+type EntityType = ExtractedEntity['type'];
+
+interface Candidate {
+  name: string;
+  type: EntityType;
+  /** Higher wins when two heuristics disagree on a type */
+  confidence: number;
+  source: NonNullable<ExtractedEntity['source']>;
+}
+
+// ============================================
+// Lexicons
+// ============================================
+
+const STOPWORDS = new Set([
+  'A', 'An', 'The', 'This', 'That', 'These', 'Those', 'It', 'Its', 'We', 'Our', 'You', 'Your', 'They', 'Their',
+  'He', 'She', 'His', 'Her', 'I', 'My', 'If', 'In', 'On', 'At', 'By', 'For', 'From', 'To', 'Of', 'And', 'Or', 'But',
+  'As', 'With', 'When', 'Where', 'What', 'Why', 'How', 'Who', 'Which', 'While', 'After', 'Before', 'Also', 'However',
+  'Here', 'There', 'Yes', 'No', 'Not', 'All', 'Some', 'Many', 'Most', 'More', 'Each', 'Every', 'One', 'Two', 'Step',
+  'Read', 'Learn', 'Click', 'See', 'Get', 'Use', 'Home', 'Menu', 'Share', 'FAQ', 'Table', 'Contents', 'Conclusion',
+  'Introduction', 'Summary', 'Note', 'Tip', 'Example', 'Source', 'Sources', 'Published', 'Updated', 'Posted',
+]);
+
+const CONNECTORS = new Set(['of', 'the', 'for', 'de', 'da', 'von', 'van', 'du', 'la', '&']);
+// "of"/"for" only join names after these words ("University of Oxford", not "Smith of Acme")
+const INSTITUTION_HEADS = new Set([
+  'University', 'College', 'School', 'Institute', 'Bank', 'Department', 'Ministry', 'Office', 'Board', 'Council',
+  'Society', 'Association', 'Federation', 'Museum', 'Center', 'Centre', 'Centers', 'Centres', 'Academy', 'House',
+  'Church', 'Republic', 'Kingdom', 'State', 'States', 'City', 'Bureau', 'Agency', 'Commission', 'Court',
+]);
+
+const ORG_SUFFIXES = /\b(Inc|Corp|Corporation|Ltd|LLC|LLP|PLC|GmbH|Co|Company|Group|Holdings|University|College|Institute|Association|Foundation|Society|Agency|Bank|Labs?|Research|Technologies|Systems|Media|News|Times|Journal|Council|Commission|Department|Ministry|Organization|Organisation|Partners|Ventures|Capital|Studios?|Press|School|Hospital|Clinic)\.?$/;
+const PERSON_TITLES = /^(Dr|Mr|Mrs|Ms|Prof|Professor|Sir|Dame|Lord|Lady|CEO|CTO|CFO|President|Senator|Judge)\.?\s+/;
+// Allows an affiliation in between: "Jane Doe of Acme Corp said"
+const PERSON_VERBS = /^\s*(?:,?\s*(?:of|at|from)\s+(?:[A-Z][\w&.-]*,?\s+){1,3})?(said|says|told|explains|explained|wrote|writes|argues|argued|notes|noted|recommends|recommended|founded|added)\b/;
+const PERSON_CUES = /\b(by|according to|written by|founder|author|CEO|director|professor|researcher|analyst)\s*$/i;
+const LOCATION_CUES = /\b(in|from|across|near|throughout|based in|located in|headquartered in)\s*$/i;
+
+const KNOWN_LOCATIONS = new Set([
+  'United States', 'USA', 'US', 'United Kingdom', 'UK', 'England', 'Scotland', 'Wales', 'Ireland', 'Canada', 'Mexico',
+  'Brazil', 'Argentina', 'France', 'Germany', 'Spain', 'Italy', 'Portugal', 'Netherlands', 'Belgium', 'Switzerland',
+  'Austria', 'Sweden', 'Norway', 'Denmark', 'Finland', 'Poland', 'Russia', 'Ukraine', 'Turkey', 'Israel', 'Egypt',
+  'Nigeria', 'Kenya', 'South Africa', 'India', 'China', 'Japan', 'South Korea', 'Korea', 'Singapore', 'Indonesia',
+  'Australia', 'New Zealand', 'Europe', 'Asia', 'Africa', 'North America', 'South America', 'Latin America',
+  'London', 'Paris', 'Berlin', 'Madrid', 'Rome', 'Amsterdam', 'Dublin', 'Edinburgh', 'Manchester', 'New York',
+  'San Francisco', 'Los Angeles', 'Chicago', 'Boston', 'Seattle', 'Austin', 'Toronto', 'Sydney', 'Melbourne',
+  'Tokyo', 'Beijing', 'Shanghai', 'Hong Kong', 'Mumbai', 'Delhi', 'Bangalore', 'Dubai', 'Silicon Valley', 'California',
+  'Texas', 'Florida', 'Washington',
+]);
+
+const MONTHS = 'January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec';
+const DATE_PATTERNS = [
+  new RegExp(`\\b(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`, 'g'),
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})\\.?,?\\s+\\d{4}\\b`, 'g'),
+  new RegExp(`\\b(?:${MONTHS})\\s+\\d{4}\\b`, 'g'),
+  /\b\d{4}-\d{2}-\d{2}\b/g,
+  /\bQ[1-4]\s+\d{4}\b/g,
+];
+
+const MAX_ENTITIES = 20;
+
+// ============================================
+// Extraction
+// ============================================
+
+export function extractEntities(text: string, structuredData?: StructuredDataReport): ExtractedEntity[] {
+  const sentences = splitSentences(text);
+  const candidates: Candidate[] = [
+    ...(structuredData ? entitiesFromStructuredData(structuredData) : []),
+    ...findDates(text),
+    ...findCapitalisedPhrases(sentences),
+  ];
+
+  // Merge candidates by name, keeping the most confident type
+  const merged = new Map<string, Candidate>();
+  for (const candidate of candidates) {
+    const key = candidate.name.toLowerCase();
+    const existing = merged.get(key);
+    if (!existing || candidate.confidence > existing.confidence) {
+      merged.set(key, candidate);
+    }
+  }
+
+  const entities: ExtractedEntity[] = [];
+  merged.forEach(candidate => {
+    const mentions = countMentions(text, candidate.name);
+    // Single mentions of single capitalised words are mostly noise
+    if (candidate.source === 'text' && mentions < 2 && !candidate.name.includes(' ') && candidate.confidence < 2) return;
+    if (mentions === 0 && candidate.source !== 'structured-data') return;
+
+    entities.push({
+      name: candidate.name,
+      type: candidate.type,
+      mentions,
+      context: findContext(sentences, candidate.name),
+      source: candidate.source,
+    });
+  });
+
+  return entities
+    .sort((a, b) => rank(b) - rank(a))
+    .slice(0, MAX_ENTITIES);
+}
+
+/**
+ * Merge entities named by the AI pass into the local results. The AI's
+ * type wins for names both found; new names are kept if they appear in
+ * the text.
+ */
+export function mergeAIEntities(
+  entities: ExtractedEntity[],
+  aiEntities: Array<{ name: string; type: string }> | undefined,
+  text: string
+): ExtractedEntity[] {
+  if (!aiEntities || aiEntities.length === 0) return entities;
+
+  const validTypes: EntityType[] = ['person', 'organization', 'product', 'concept', 'location', 'date'];
+  const byName = new Map(entities.map(e => [e.name.toLowerCase(), { ...e }]));
+  const sentences = splitSentences(text);
+
+  for (const aiEntity of aiEntities) {
+    if (!aiEntity?.name || !validTypes.includes(aiEntity.type as EntityType)) continue;
+    const type = aiEntity.type as EntityType;
+    const existing = byName.get(aiEntity.name.toLowerCase());
+
+    if (existing) {
+      existing.type = type;
+      existing.source = 'ai';
+    } else {
+      const mentions = countMentions(text, aiEntity.name);
+      if (mentions === 0) continue;
+      byName.set(aiEntity.name.toLowerCase(), {
+        name: aiEntity.name,
+        type,
+        mentions,
+        context: findContext(sentences, aiEntity.name),
+        source: 'ai',
+      });
+    }
+  }
+
+  return Array.from(byName.values())
+    .sort((a, b) => rank(b) - rank(a))
+    .slice(0, MAX_ENTITIES);
+}
+
+function entitiesFromStructuredData(report: StructuredDataReport): Candidate[] {
+  const candidates: Candidate[] = [];
+  const typeMap: Record<string, EntityType> = {
+    Person: 'person',
+    Organization: 'organization',
+    Corporation: 'organization',
+    LocalBusiness: 'organization',
+    NewsMediaOrganization: 'organization',
+    EducationalOrganization: 'organization',
+    Product: 'product',
+    SoftwareApplication: 'product',
+    Brand: 'organization',
+    Place: 'location',
+    City: 'location',
+    Country: 'location',
+    Thing: 'concept',
+    DefinedTerm: 'concept',
+  };
+
+  const visit = (value: unknown, depth: number): void => {
+    if (depth > 4 || !value || typeof value !== 'object') return;
+    if (Array.isArray(value)) {
+      value.forEach(v => visit(v, depth + 1));
+      return;
+    }
+
+    const node = value as Record<string, unknown>;
+    const types = ([] as unknown[]).concat(node['@type'] ?? []).map(t => String(t).replace(/^https?:\/\/schema\.org\//, ''));
+    const name = typeof node.name === 'string' ? node.name.trim() : '';
+    const type = types.map(t => typeMap[t]).find(Boolean);
+
+    if (name && type) {
+      candidates.push({ name, type, confidence: 3, source: 'structured-data' });
+    }
+    for (const key of ['datePublished', 'dateModified', 'startDate', 'endDate']) {
+      const date = node[key];
+      if (typeof date === 'string' && !isNaN(Date.parse(date))) {
+        candidates.push({ name: date.split('T')[0], type: 'date', confidence: 3, source: 'structured-data' });
+      }
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      if (!key.startsWith('@')) visit(child, depth + 1);
+    }
+  };
+
+  report.items.forEach(item => visit(item.data, 0));
+  return candidates;
+}
+
+function findDates(text: string): Candidate[] {
+  const candidates: Candidate[] = [];
+  for (const pattern of DATE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      candidates.push({ name: match[0], type: 'date', confidence: 2, source: 'text' });
+    }
+  }
+  return candidates;
+}
+
+function findCapitalisedPhrases(sentences: string[]): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const sentence of sentences) {
+    const tokens = sentence.split(/\s+/);
+    let i = 0;
+
+    while (i < tokens.length) {
+      if (!isCapitalised(tokens[i])) {
+        i++;
+        continue;
+      }
+
+      // Grow the phrase across capitalised words and short connectors
+      const start = i;
+      let end = i + 1;
+      while (end < tokens.length && end - start < 5) {
+        const token = tokens[end];
+        const connector = token.toLowerCase();
+        const connectorBridges = CONNECTORS.has(connector)
+          && end + 1 < tokens.length
+          && isCapitalised(tokens[end + 1])
+          && (!['of', 'for'].includes(connector) || INSTITUTION_HEADS.has(cleanToken(tokens[end - 1])));
+        if (isCapitalised(token) || (connectorBridges && !/[,.;:]$/.test(tokens[end - 1]))) {
+          end++;
+          if (/[,.;:!?)]$/.test(tokens[end - 1])) break;
+        } else {
+          break;
+        }
+      }
+
+      const words = tokens.slice(start, end).map(cleanToken).filter(Boolean);
+      while (words.length > 0 && STOPWORDS.has(words[0])) words.shift();
+      while (words.length > 0 && CONNECTORS.has(words[words.length - 1].toLowerCase())) words.pop();
+
+      if (words.length > 0) {
+        const name = words.join(' ');
+        const before = tokens.slice(Math.max(0, start - 3), start).join(' ');
+        const after = tokens.slice(end, end + 6).join(' ');
+        const atSentenceStart = start === 0;
+
+        if (!(atSentenceStart && words.length === 1 && !/[A-Z].*[A-Z0-9]/.test(name))) {
+          const classified = classify(name, before, after);
+          if (classified) candidates.push({ name, source: 'text', ...classified });
+        }
+      }
+
+      i = end;
+    }
+  }
+
+  return candidates;
+}
+
+function classify(name: string, before: string, after: string): { type: EntityType; confidence: number } | null {
+  if (STOPWORDS.has(name) || /^\d+$/.test(name)) return null;
+
+  if (KNOWN_LOCATIONS.has(name)) return { type: 'location', confidence: 2 };
+  if (ORG_SUFFIXES.test(name)) return { type: 'organization', confidence: 2 };
+  if (PERSON_TITLES.test(name)) return { type: 'person', confidence: 2 };
+
+  // Products: version numbers, camelCase or trademark marks (e.g. "iPhone 15", "GPT-4")
+  if (/\d/.test(name) || /^[a-z]+[A-Z]/.test(name) || /[™®]/.test(name)) return { type: 'product', confidence: 1.5 };
+
+  const words = name.split(' ');
+  const looksLikeName = words.length >= 2 && words.length <= 3 && words.every(w => /^[A-Z][a-z'’-]+$/.test(w));
+  if (looksLikeName && (PERSON_VERBS.test(after) || PERSON_CUES.test(before))) return { type: 'person', confidence: 2 };
+  if (LOCATION_CUES.test(before) && words.length <= 3) return { type: 'location', confidence: 1 };
+
+  // Short all-caps words are usually organizations (NASA, WHO)
+  if (/^[A-Z]{2,6}$/.test(name)) return { type: 'organization', confidence: 1 };
+
+  return { type: 'concept', confidence: 0.5 };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function isCapitalised(token: string | undefined): boolean {
+  if (!token) return false;
+  const cleaned = cleanToken(token);
+  return /^[A-Z][\w'’&.-]*$/.test(cleaned) || /^[a-z]+[A-Z]\w*$/.test(cleaned);
+}
+
+function cleanToken(token: string): string {
+  return token.replace(/^[("'“‘[]+/, '').replace(/[)"'”’\],.;:!?]+$/, '').replace(/'s$|’s$/, '');
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"“])/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
+
+function countMentions(text: string, name: string): number {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return (text.match(new RegExp(`(?<![\\w])${escaped}(?![\\w])`, 'g')) || []).length;
+}
+
+function findContext(sentences: string[], name: string): string {
+  const sentence = sentences.find(s => s.includes(name)) || '';
+  return sentence.length > 200 ? `${sentence.slice(0, 197)}...` : sentence;
+}
+
+function rank(entity: ExtractedEntity): number {
+  const sourceBoost = entity.source === 'structured-data' ? 5 : entity.source === 'ai' ? 3 : 0;
+  const typeBoost = entity.type === 'concept' ? -1 : 0;
+  return entity.mentions + sourceBoost + typeBoost;
+}
@@ -0,0 +1,428 @@
+/**
+ * Report Export
+ *
+ * Serialises an AnalysisResult for tickets, spreadsheets and other tools:
+ * Markdown, CSV and a versioned JSON format. PDF rendering lives in
+ * `pdf.ts`; `exportReport` covers all four formats.
+ */
+
+import type { AnalysisResult, Recommendation } from './analyzer';
+import { CATEGORY_NAMES, CHECK_CATEGORIES, type CheckCategory } from './checks';
+import { pdfFilename, renderReportPdf } from './pdf';
+
+// ============================================
+// Types
+// ============================================
+
+export const EXPORT_FORMATS = ['pdf', 'markdown', 'csv', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Formats listed in PRO_FEATURES; checked against the plan of whoever owns the scan or report */
+export const PRO_EXPORT_FORMATS: ExportFormat[] = ['pdf'];
+
+export interface ExportedFile {
+  body: string | ArrayBuffer;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Bump when a field is removed, renamed or changes meaning. Adding a
+ * field is not a breaking change and keeps the version.
+ */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/**
+ * The JSON export contract (schema version 1). Decoupled from
+ * AnalysisResult so internal changes don't break consumers. Optional
+ * values are always present as null, and arrays keep a fixed order.
+ */
+export interface ReportExportV1 {
+  schemaVersion: 1;
+  url: string;
+  scannedAt: string;
+  score: number;
+  grade: AnalysisResult['grade'];
+  /** Scoring profile ID and detected content type; null on reports saved before profiles */
+  scoring: { profile: string; contentType: string } | null;
+  source: 'url' | 'html';
+  page: {
+    title: string;
+    description: string;
+    domain: string;
+    wordCount: number;
+    /** null for pasted HTML */
+    loadTimeMs: number | null;
+    readabilityScore: number;
+    readabilityGrade: string;
+  };
+  /** In CHECK_CATEGORIES order */
+  categories: Array<{
+    id: CheckCategory;
+    name: string;
+    score: number;
+    maxScore: number;
+    percentage: number;
+    status: 'good' | 'warning' | 'poor';
+  }>;
+  /** In evaluation order */
+  checks: Array<{
+    id: string;
+    category: string;
+    name: string;
+    passed: boolean;
+    score: number;
+    maxScore: number;
+    details: string;
+  }>;
+  /** Highest priority first */
+  recommendations: Array<{
+    id: string;
+    category: string;
+    priority: Recommendation['priority'];
+    title: string;
+    description: string;
+    impact: string;
+    howToFix: string;
+    codeExample: string | null;
+  }>;
+  citationPreviews: Array<{
+    query: string;
+    passage: string;
+    source: string;
+    confidence: 'high' | 'medium' | 'low';
+  }>;
+  entities: Array<{
+    name: string;
+    type: string;
+    mentions: number;
+  }>;
+  /** null when the scan ran without Claude */
+  ai: {
+    readinessScore: number;
+    summary: string;
+    mainTopic: string;
+    targetAudience: string;
+    contentType: string;
+    likelyQueries: string[];
+    improvements: Array<{
+      category: string;
+      priority: Recommendation['priority'];
+      issue: string;
+      recommendation: string;
+      exampleFix: string | null;
+      /** Heading the finding is about, on long pages analyzed section by section */
+      section: string | null;
+    }>;
+  } | null;
+}
+
+// ============================================
+// Entry point
+// ============================================
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function exportReport(result: AnalysisResult, format: ExportFormat): ExportedFile {
+  const base = pdfFilename(result).replace(/\.pdf$/, '');
+
+  switch (format) {
+    case 'pdf':
+      return { body: renderReportPdf(result), contentType: 'application/pdf', filename: `${base}.pdf` };
+    case 'markdown':
+      return { body: toMarkdown(result), contentType: 'text/markdown; charset=utf-8', filename: `${base}.md` };
+    case 'csv':
+      return { body: toCsv(result), contentType: 'text/csv; charset=utf-8', filename: `${base}.csv` };
+    case 'json':
+      return {
+        body: JSON.stringify(toExportJson(result), null, 2) + '\n',
+        contentType: 'application/json; charset=utf-8',
+        filename: `${base}.json`,
+      };
+  }
+}
+
+// ============================================
+// JSON
+// ============================================
+
+export function toExportJson(result: AnalysisResult): ReportExportV1 {
+  const ai = result.aiAnalysis;
+
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    url: result.url,
+    scannedAt: result.timestamp,
+    score: result.score,
+    grade: result.grade,
+    scoring: result.scoring
+      ? { profile: result.scoring.profile, contentType: result.scoring.contentType.type }
+      : null,
+    source: result.metadata.source ?? 'url',
+    page: {
+      title: result.metadata.title,
+      description: result.metadata.description,
+      domain: result.metadata.domain,
+      wordCount: result.metadata.wordCount,
+      loadTimeMs: result.metadata.source === 'html' ? null : result.metadata.loadTime,
+      readabilityScore: result.metadata.readabilityScore,
+      readabilityGrade: result.metadata.readabilityGrade,
+    },
+    categories: CHECK_CATEGORIES.filter(id => result.categories[id]).map(id => ({
+      id,
+      name: CATEGORY_NAMES[id],
+      score: result.categories[id].score,
+      maxScore: result.categories[id].maxScore,
+      percentage: result.categories[id].percentage,
+      status: result.categories[id].status,
+    })),
+    checks: result.checks.map(check => ({
+      id: check.id,
+      category: check.category,
+      name: check.name,
+      passed: check.passed,
+      score: check.score,
+      maxScore: check.maxScore,
+      details: check.details,
+    })),
+    recommendations: result.allRecommendations.map(rec => ({
+      id: rec.id,
+      category: rec.category,
+      priority: rec.priority,
+      title: rec.title,
+      description: rec.description,
+      impact: rec.impact,
+      howToFix: rec.howToFix,
+      codeExample: rec.codeExample ?? null,
+    })),
+    citationPreviews: (result.insights?.citationPreviews ?? []).map(preview => ({
+      query: preview.query,
+      passage: preview.citation,
+      source: preview.source,
+      confidence: preview.confidence,
+    })),
+    entities: (result.insights?.entities ?? []).map(entity => ({
+      name: entity.name,
+      type: entity.type,
+      mentions: entity.mentions,
+    })),
+    ai: ai
+      ? {
+          readinessScore: ai.aiReadinessScore,
+          summary: ai.summary,
+          mainTopic: ai.contentUnderstanding.mainTopic,
+          targetAudience: ai.contentUnderstanding.targetAudience,
+          contentType: ai.contentUnderstanding.contentType,
+          likelyQueries: ai.citationSimulation.likelyQueries,
+          improvements: ai.improvements.map(improvement => ({
+            category: improvement.category,
+            priority: improvement.priority,
+            issue: improvement.issue,
+            recommendation: improvement.recommendation,
+            exampleFix: improvement.exampleFix ?? null,
+            section: improvement.section ?? null,
+          })),
+        }
+      : null,
+  };
+}
+
+// ============================================
+// CSV
+// ============================================
+
+const CSV_COLUMNS = [
+  'record_type',
+  'id',
+  'category',
+  'title',
+  'passed',
+  'score',
+  'max_score',
+  'priority',
+  'details',
+  'impact',
+  'how_to_fix',
+  'url',
+  'scanned_at',
+] as const;
+
+/**
+ * One row per check, then one row per recommendation. Both share the
+ * same columns, told apart by `record_type`, so the file filters
+ * cleanly in a spreadsheet.
+ */
+export function toCsv(result: AnalysisResult): string {
+  type Row = Partial<Record<(typeof CSV_COLUMNS)[number], string | number | boolean>>;
+
+  const common = { url: result.url, scanned_at: result.timestamp };
+  const rows: Row[] = [
+    ...result.checks.map((check): Row => ({
+      record_type: 'check',
+      id: check.id,
+      category: CATEGORY_NAMES[check.category as CheckCategory] ?? check.category,
+      title: check.name,
+      passed: check.passed,
+      score: check.score,
+      max_score: check.maxScore,
+      details: check.details,
+      ...common,
+    })),
+    ...result.allRecommendations.map((rec): Row => ({
+      record_type: 'recommendation',
+      id: rec.id,
+      category: rec.category,
+      title: rec.title,
+      priority: rec.priority,
+      details: rec.description,
+      impact: rec.impact,
+      how_to_fix: rec.howToFix,
+      ...common,
+    })),
+  ];
+
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...rows.map(row => CSV_COLUMNS.map(column => csvCell(row[column])).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * RFC 4180 quoting. Text that a spreadsheet would run as a formula is
+ * prefixed with an apostrophe.
+ */
+function csvCell(value: string | number | boolean | undefined): string {
+  if (value === undefined) return '';
+  if (typeof value !== 'string') return String(value);
+
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+export function toMarkdown(result: AnalysisResult): string {
+  const out: string[] = [];
+  const ai = result.aiAnalysis;
+  const passed = result.checks.filter(c => c.passed).length;
+
+  out.push(`# AI Search Readiness Report: ${inline(result.metadata.title || result.url)}`);
+  out.push('');
+  out.push(`- **URL:** ${result.url}`);
+  out.push(`- **Scanned:** ${result.timestamp}`);
+  out.push(`- **Score:** ${result.score}/100 (grade ${result.grade})`);
+  out.push(`- **Checks passed:** ${passed} of ${result.checks.length}`);
+  out.push(`- **Word count:** ${result.metadata.wordCount}`);
+  if (ai) {
+    out.push(`- **AI readiness:** ${ai.aiReadinessScore}/100`);
+  }
+  out.push('');
+
+  if (ai?.summary) {
+    out.push('## Summary', '', ai.summary, '');
+  }
+
+  out.push('## Category Breakdown', '');
+  out.push('| Category | Score | Percentage | Status |');
+  out.push('|----------|-------|------------|--------|');
+  for (const id of CHECK_CATEGORIES) {
+    const category = result.categories[id];
+    if (!category) continue;
+    out.push(`| ${CATEGORY_NAMES[id]} | ${category.score}/${category.maxScore} | ${category.percentage}% | ${category.status} |`);
+  }
+  out.push('');
+
+  out.push('## Recommendations', '');
+  if (result.allRecommendations.length === 0) {
+    out.push('No recommendations - every check passed.', '');
+  }
+  result.allRecommendations.forEach((rec, i) => {
+    out.push(`### ${i + 1}. ${inline(rec.title)}`, '');
+    out.push(`**Priority:** ${rec.priority} · **Category:** ${rec.category} · **Impact:** ${inline(rec.impact)}`, '');
+    out.push(rec.description, '');
+    out.push(`**How to fix:** ${rec.howToFix}`, '');
+    if (rec.codeExample) {
+      out.push(codeBlock(rec.codeExample), '');
+    }
+  });
+
+  out.push('## Checks', '');
+  for (const id of CHECK_CATEGORIES) {
+    const checks = result.checks.filter(c => c.category === id);
+    if (checks.length === 0) continue;
+
+    out.push(`### ${CATEGORY_NAMES[id]}`, '');
+    out.push('| Check | Result | Score | Details |');
+    out.push('|-------|--------|-------|---------|');
+    for (const check of checks) {
+      out.push(`| ${cell(check.name)} | ${check.passed ? '✅ Pass' : '❌ Fail'} | ${check.score}/${check.maxScore} | ${cell(check.details)} |`);
+    }
+    out.push('');
+  }
+
+  const previews = result.insights?.citationPreviews ?? [];
+  if (previews.length > 0) {
+    out.push('## Citation Previews', '');
+    for (const preview of previews) {
+      out.push(`**"${inline(preview.query)}"** (${preview.confidence} confidence)`, '');
+      out.push(`> ${inline(preview.citation)}`, '');
+      out.push(`— ${inline(preview.source)}`, '');
+    }
+  }
+
+  if (ai) {
+    out.push('## Claude Assessment', '');
+    out.push(`- **Main topic:** ${inline(ai.contentUnderstanding.mainTopic)}`);
+    out.push(`- **Target audience:** ${inline(ai.contentUnderstanding.targetAudience)}`);
+    out.push(`- **Content type:** ${inline(ai.contentUnderstanding.contentType)}`);
+    out.push('');
+
+    if (ai.citationSimulation.likelyQueries.length > 0) {
+      out.push('### Likely Queries', '');
+      out.push(...ai.citationSimulation.likelyQueries.map(query => `- ${inline(query)}`), '');
+    }
+
+    if (ai.improvements.length > 0) {
+      out.push('### Suggested Improvements', '');
+      for (const improvement of ai.improvements) {
+        out.push(`- **${inline(improvement.issue)}** (${improvement.priority}, ${improvement.category}): ${inline(improvement.recommendation)}`);
+        if (improvement.exampleFix) {
+          out.push('', indent(codeBlock(improvement.exampleFix)));
+        }
+      }
+      out.push('');
+    }
+  }
+
+  return out.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Single-line text: collapse whitespace so it can't break the structure
+ */
+function inline(value: string): string {
+  return (value ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function cell(value: string): string {
+  return inline(value).replace(/\|/g, '\\|');
+}
+
+/**
+ * Fence long enough that backticks inside the code can't close it
+ */
+function codeBlock(code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}\n${code.replace(/\s+$/, '')}\n${fence}`;
+}
+
+function indent(block: string): string {
+  return block.split('\n').map(line => `  ${line}`).join('\n');
+}
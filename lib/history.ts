@@ -0,0 +1,176 @@
+/**
+ * Score History
+ *
+ * Appends every scan of a URL (keyed by `normalizeUrl`, per user) to a
+ * time series so trends can be charted, and notes which checks flipped
+ * between pass and fail since the previous scan.
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+import type { AnalysisResult } from './analyzer';
+import { CHECK_CATEGORIES, type CheckCategory } from './checks';
+import { createWriteQueue, readJsonFile, writeJsonFile } from './json-file';
+import { normalizeUrl } from './utils';
+
+// ============================================
+// Types
+// ============================================
+
+export interface HistoryEntry {
+  timestamp: string;
+  score: number;
+  grade: AnalysisResult['grade'];
+  categories: Partial<Record<CheckCategory, number>>;
+  wordCount: number;
+  passedChecks: string[];
+  failedChecks: string[];
+  /** Changes since the previous scan; empty for the first scan */
+  flipped: {
+    nowPassing: string[];
+    nowFailing: string[];
+  };
+}
+
+export interface UrlHistory {
+  key: string;
+  url: string;
+  userId: string;
+  entries: HistoryEntry[];
+}
+
+export interface TrackedUrl {
+  key: string;
+  url: string;
+  scans: number;
+  firstScore: number;
+  firstGrade: AnalysisResult['grade'];
+  latestScore: number;
+  latestGrade: AnalysisResult['grade'];
+  lastScannedAt: string;
+}
+
+export interface HistoryStore {
+  append(userId: string, url: string, entry: Omit<HistoryEntry, 'flipped'>): Promise<HistoryEntry>;
+  get(userId: string, url: string): Promise<UrlHistory | null>;
+  list(userId: string): Promise<TrackedUrl[]>;
+}
+
+const MAX_ENTRIES_PER_URL = 500;
+
+// ============================================
+// Recording
+// ============================================
+
+export function toHistoryEntry(result: AnalysisResult): Omit<HistoryEntry, 'flipped'> {
+  const categories: HistoryEntry['categories'] = {};
+  for (const category of CHECK_CATEGORIES) {
+    const cat = result.categories[category];
+    if (cat) categories[category] = cat.percentage;
+  }
+
+  return {
+    timestamp: result.timestamp,
+    score: result.score,
+    grade: result.grade,
+    categories,
+    wordCount: result.metadata.wordCount,
+    passedChecks: result.checks.filter(c => c.passed).map(c => c.id),
+    failedChecks: result.checks.filter(c => !c.passed).map(c => c.id),
+  };
+}
+
+export async function recordScan(userId: string, result: AnalysisResult): Promise<HistoryEntry> {
+  return getHistoryStore().append(userId, result.url, toHistoryEntry(result));
+}
+
+/**
+ * Checks only count as flipped when they ran in both scans, so enabling
+ * a new check doesn't show up as a regression.
+ */
+export function diffChecks(
+  previous: Pick<HistoryEntry, 'passedChecks' | 'failedChecks'> | undefined,
+  current: Pick<HistoryEntry, 'passedChecks' | 'failedChecks'>
+): HistoryEntry['flipped'] {
+  if (!previous) return { nowPassing: [], nowFailing: [] };
+  return {
+    nowPassing: current.passedChecks.filter(id => previous.failedChecks.includes(id)),
+    nowFailing: current.failedChecks.filter(id => previous.passedChecks.includes(id)),
+  };
+}
+
+// ============================================
+// File adapter
+// ============================================
+
+export function createFileHistoryStore(directory: string): HistoryStore {
+  const serialize = createWriteQueue();
+
+  // Hash the user and URL so the file name is safe and fixed-length
+  const fileFor = (userId: string, key: string) =>
+    path.join(directory, `${createHash('sha256').update(`${userId}\n${key}`).digest('hex').slice(0, 32)}.json`);
+  const userIndexFor = (userId: string) =>
+    path.join(directory, `user-${createHash('sha256').update(userId).digest('hex').slice(0, 32)}.json`);
+
+  return {
+    append: (userId, url, entry) => serialize(async () => {
+      const key = normalizeUrl(url);
+      const file = fileFor(userId, key);
+      const history = (await readJsonFile<UrlHistory>(file)) ?? { key, url, userId, entries: [] };
+
+      const full: HistoryEntry = { ...entry, flipped: diffChecks(history.entries[history.entries.length - 1], entry) };
+      history.url = url;
+      history.entries = [...history.entries, full].slice(-MAX_ENTRIES_PER_URL);
+      await writeJsonFile(file, history);
+
+      const indexFile = userIndexFor(userId);
+      const index = (await readJsonFile<string[]>(indexFile)) ?? [];
+      if (!index.includes(key)) await writeJsonFile(indexFile, [...index, key]);
+
+      return full;
+    }),
+
+    get: (userId, url) => readJsonFile<UrlHistory>(fileFor(userId, normalizeUrl(url))),
+
+    list: async (userId) => {
+      const keys = (await readJsonFile<string[]>(userIndexFor(userId))) ?? [];
+      const histories = await Promise.all(keys.map(key => readJsonFile<UrlHistory>(fileFor(userId, key))));
+
+      return histories
+        .filter((h): h is UrlHistory => h !== null && h.entries.length > 0)
+        .map(h => {
+          const first = h.entries[0];
+          const latest = h.entries[h.entries.length - 1];
+          return {
+            key: h.key,
+            url: h.url,
+            scans: h.entries.length,
+            firstScore: first.score,
+            firstGrade: first.grade,
+            latestScore: latest.score,
+            latestGrade: latest.grade,
+            lastScannedAt: latest.timestamp,
+          };
+        })
+        .sort((a, b) => b.lastScannedAt.localeCompare(a.lastScannedAt));
+    },
+  };
+}
+
+// ============================================
+// Default store
+// ============================================
+
+let store: HistoryStore | null = null;
+
+export function getHistoryStore(): HistoryStore {
+  if (!store) {
+    const directory = process.env.HISTORY_STORE_DIR || path.join(process.cwd(), '.data', 'history');
+    store = createFileHistoryStore(directory);
+  }
+  return store;
+}
+
+export function setHistoryStore(custom: HistoryStore): void {
+  store = custom;
+}
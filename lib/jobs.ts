@@ -0,0 +1,559 @@
+/**
+ * Scan Jobs
+ *
+ * Queues batches of URL scans that are too slow for one request. Jobs
+ * are persisted by a `JobStore` and worked off in-process: enqueueing
+ * starts a worker in the background, and the cron route drains anything
+ * left behind (e.g. after a restart or on serverless hosts, where work
+ * after the response may be frozen). Transient fetch errors are retried
+ * with backoff, and an optional callback URL is notified on completion.
+ */
+
+import { randomBytes } from 'crypto';
+import path from 'path';
+import { analyzeUrl, type AnalysisResult } from './analyzer';
+import { recordScan } from './history';
+import { createWriteQueue, readJsonFile, writeJsonFile } from './json-file';
+import { parseScoringProfile } from './scoring-profiles';
+import { commitScans, releaseScans, reserveScans, type Plan } from './user';
+import { isValidUrl, normalizeUrl, runWithConcurrency } from './utils';
+
+// ============================================
+// Types
+// ============================================
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobItem {
+  url: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  attempts: number;
+  score: number | null;
+  grade: AnalysisResult['grade'] | null;
+  error: string | null;
+}
+
+export interface CallbackDelivery {
+  url: string;
+  ok: boolean;
+  attempts: number;
+  status: number | null;
+  error: string | null;
+  at: string;
+}
+
+export interface Job {
+  id: string;
+  userId: string;
+  status: JobStatus;
+  includeAI: boolean;
+  /** Bypass the analysis cache */
+  force: boolean;
+  /** The owner's plan when the job was queued; picks the AI model settings */
+  plan: Plan;
+  /** Scoring profile for every URL; null auto-detects per page */
+  scoringProfile: string | null;
+  callbackUrl: string | null;
+  items: JobItem[];
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  /** Set while a worker owns the job; an expired lock means the worker died */
+  lockedUntil: string | null;
+  callback: CallbackDelivery | null;
+}
+
+export type JobInput = Pick<Job, 'includeAI' | 'force' | 'plan' | 'scoringProfile' | 'callbackUrl'> & { urls: string[] };
+
+export type JobPatch = Partial<Omit<Job, 'id' | 'userId' | 'createdAt'>>;
+
+export interface JobSummary {
+  id: string;
+  status: JobStatus;
+  progress: { total: number; completed: number; failed: number };
+  includeAI: boolean;
+  scoringProfile: string | null;
+  callbackUrl: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  items: JobItem[];
+  callback: CallbackDelivery | null;
+}
+
+export interface JobStore {
+  create(userId: string, input: JobInput): Promise<Job>;
+  get(id: string): Promise<Job | null>;
+  /** Newest first */
+  list(userId: string, options?: { limit?: number }): Promise<Job[]>;
+  /** Applies the updater's patch atomically; return null from it to leave the job unchanged */
+  update(id: string, updater: (job: Job) => JobPatch | null): Promise<Job | null>;
+  /** Marks the oldest queued (or abandoned running) job as running and returns it */
+  claimNext(now: Date, lockedUntil: Date): Promise<Job | null>;
+  saveResult(id: string, result: AnalysisResult): Promise<void>;
+  /** Results keyed by the URL the job was given */
+  getResults(id: string): Promise<Record<string, AnalysisResult>>;
+}
+
+export const MAX_JOB_URLS = 25;
+export const MAX_ACTIVE_JOBS_PER_USER = 5;
+const JOB_CONCURRENCY = 2;
+const LOCK_DURATION = 5 * 60 * 1000;
+
+// Waits before the second and third attempts
+const RETRY_DELAYS = [2000, 8000];
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validates a new job from an API request: `{ urls | url, includeAI?, force?, scoringProfile?, callbackUrl? }`
+ */
+export function parseJobInput(body: Record<string, unknown>): { value: Omit<JobInput, 'plan'> } | { error: string } {
+  const urls = body.urls ?? (body.url !== undefined ? [body.url] : undefined);
+
+  if (!Array.isArray(urls) || urls.length === 0 || urls.length > MAX_JOB_URLS) {
+    return { error: `urls must be an array of 1 to ${MAX_JOB_URLS} URLs` };
+  }
+  for (const url of urls) {
+    if (typeof url !== 'string' || !isValidUrl(url)) {
+      return { error: `Invalid URL: ${String(url).slice(0, 200)}` };
+    }
+  }
+
+  const includeAI = body.includeAI ?? true;
+  const force = body.force ?? false;
+  if (typeof includeAI !== 'boolean' || typeof force !== 'boolean') {
+    return { error: 'includeAI and force must be booleans' };
+  }
+
+  const profile = parseScoringProfile(body.scoringProfile);
+  if ('error' in profile) {
+    return profile;
+  }
+
+  const callbackUrl = body.callbackUrl ?? null;
+  if (callbackUrl !== null && (typeof callbackUrl !== 'string' || !isValidUrl(callbackUrl))) {
+    return { error: 'callbackUrl must be a valid http or https URL' };
+  }
+
+  // Duplicate URLs would be scanned (and charged) twice
+  const seen = new Set<string>();
+  const unique = (urls as string[]).filter(url => {
+    const key = normalizeUrl(url);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return { value: { urls: unique, includeAI, force, scoringProfile: profile.value ?? null, callbackUrl } };
+}
+
+export function isActiveJob(job: Job): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Scans the user's queued and running jobs still have to make. They are
+ * only charged as each one finishes, so new jobs must leave room for them.
+ */
+export function countPendingScans(jobs: Job[]): number {
+  return jobs
+    .filter(isActiveJob)
+    .reduce((total, job) => total + job.items.filter(item => item.status === 'pending' || item.status === 'running').length, 0);
+}
+
+export function summarizeJob(job: Job): JobSummary {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: {
+      total: job.items.length,
+      completed: job.items.filter(item => item.status === 'completed').length,
+      failed: job.items.filter(item => item.status === 'failed').length,
+    },
+    includeAI: job.includeAI,
+    scoringProfile: job.scoringProfile ?? null,
+    callbackUrl: job.callbackUrl,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    items: job.items,
+    callback: job.callback,
+  };
+}
+
+/**
+ * Cancels a queued or running job. Scans already in flight finish, but
+ * no new ones start and no callback is sent.
+ */
+export async function cancelJob(id: string): Promise<Job | null> {
+  return getJobStore().update(id, job => {
+    if (!isActiveJob(job)) return null;
+    return {
+      status: 'cancelled',
+      completedAt: new Date().toISOString(),
+      lockedUntil: null,
+      items: job.items.map(item => (item.status === 'pending' ? { ...item, status: 'cancelled' } : item)),
+    };
+  });
+}
+
+// ============================================
+// Worker
+// ============================================
+
+let draining: Promise<number> | null = null;
+
+/**
+ * Starts working off the queue in the background, if no worker is running
+ */
+export function kickJobQueue(): void {
+  if (draining) return;
+  draining = drainQueue().finally(() => {
+    draining = null;
+  });
+  draining.catch(error => {
+    console.error('[Jobs] Worker failed:', error);
+  });
+}
+
+/**
+ * Runs queued jobs until the queue is empty or `deadline` passes, and
+ * returns how many it worked on. A job still running at the deadline
+ * starts no new scans and goes back in the queue for the next call.
+ * Returns 0 straight away when a worker is already running in this
+ * process - it will pick the jobs up.
+ */
+export async function processJobQueue(options: { deadline?: Date } = {}): Promise<number> {
+  if (draining) return 0;
+  draining = drainQueue(options.deadline).finally(() => {
+    draining = null;
+  });
+  return draining;
+}
+
+async function drainQueue(deadline?: Date): Promise<number> {
+  const store = getJobStore();
+  let ran = 0;
+
+  while (!deadline || Date.now() < deadline.getTime()) {
+    const job = await store.claimNext(new Date(), lockExpiry());
+    if (!job) break;
+
+    console.log(`[Jobs] Running job ${job.id} (${job.items.length} URLs)`);
+    await runJob(job, deadline);
+    ran++;
+  }
+
+  return ran;
+}
+
+async function runJob(job: Job, deadline?: Date): Promise<void> {
+  const store = getJobStore();
+  let paused = false;
+
+  // Items left running by a worker that died are scanned again
+  const remaining = job.items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.status === 'pending' || item.status === 'running');
+
+  await runWithConcurrency(remaining, JOB_CONCURRENCY, async ({ item, index }) => {
+    if (paused || (deadline && Date.now() >= deadline.getTime())) {
+      paused = true;
+      return;
+    }
+    if (await isCancelled(job.id)) return;
+
+    // The quota may have been used up since the job was queued
+    const denied = await reserveScan(job.userId);
+    if (denied) {
+      await updateItem(job.id, index, { status: 'failed', error: denied });
+      return;
+    }
+
+    await updateItem(job.id, index, { status: 'running' });
+    const outcome = await scanWithRetry(job, item.url, async (attempts) => {
+      await updateItem(job.id, index, { attempts });
+    });
+
+    if (!outcome) {
+      releaseScans(job.userId);
+      await updateItem(job.id, index, { status: 'cancelled' });
+    } else if ('result' in outcome) {
+      await store.saveResult(job.id, outcome.result);
+      await commitScans(job.userId).catch(error => {
+        console.error('[Jobs] Failed to increment scan count:', error);
+      });
+      await recordScan(job.userId, outcome.result).catch(error => {
+        console.error('[Jobs] Failed to record history:', error);
+      });
+      await updateItem(job.id, index, {
+        status: 'completed',
+        score: outcome.result.score,
+        grade: outcome.result.grade,
+        error: null,
+      });
+    } else {
+      releaseScans(job.userId);
+      await updateItem(job.id, index, { status: 'failed', error: outcome.error });
+    }
+  });
+
+  if (paused) {
+    await store.update(job.id, current => (current.status === 'running' ? { status: 'queued', lockedUntil: null } : null));
+    console.log(`[Jobs] Job ${job.id} paused at the deadline`);
+    return;
+  }
+
+  // A job fails only when every scan did; otherwise per-URL errors are in its items
+  const finished = await store.update(job.id, current => {
+    if (current.status !== 'running') return null;
+    const allFailed = current.items.every(item => item.status === 'failed');
+    return { status: allFailed ? 'failed' : 'completed', completedAt: new Date().toISOString(), lockedUntil: null };
+  });
+
+  if (!finished || isActiveJob(finished) || finished.status === 'cancelled') return;
+  console.log(`[Jobs] Job ${job.id} ${finished.status}`);
+
+  if (finished.callbackUrl) {
+    const callback = await sendJobCallback(finished);
+    await store.update(job.id, () => ({ callback }));
+  }
+}
+
+/**
+ * Resolves with null when the job is cancelled while waiting to retry
+ */
+async function scanWithRetry(
+  job: Job,
+  url: string,
+  onAttempt: (attempts: number) => Promise<void>
+): Promise<{ result: AnalysisResult } | { error: string } | null> {
+  for (let attempt = 1; ; attempt++) {
+    await onAttempt(attempt);
+    try {
+      const result = await analyzeUrl(url, job.includeAI, {
+        force: job.force,
+        plan: job.plan ?? 'free',
+        scoringProfile: job.scoringProfile ?? undefined,
+      });
+      return { result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const delay = RETRY_DELAYS[attempt - 1];
+
+      if (delay === undefined || !isTransientError(error)) {
+        console.error(`[Jobs] ${url} failed after ${attempt} attempt(s):`, message);
+        return { error: message };
+      }
+
+      console.log(`[Jobs] ${url} failed (${message}), retrying in ${delay}ms`);
+      await sleep(delay);
+      if (await isCancelled(job.id)) return null;
+    }
+  }
+}
+
+/**
+ * Timeouts, dropped connections and 5xx/429 responses are worth retrying;
+ * DNS failures, 4xx responses and bad certificates are not.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const { cause } = error as Error & { cause?: NodeJS.ErrnoException };
+  const code = cause?.code ?? '';
+  if (['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'].includes(code)) {
+    return true;
+  }
+  if (code.startsWith('UND_ERR_') && code.includes('TIMEOUT')) return true;
+
+  if (error.name === 'TimeoutError' || error.name === 'AbortError') return true;
+
+  const status = error.message.match(/^Failed to fetch: (\d{3})/);
+  return status !== null && (Number(status[1]) >= 500 || status[1] === '429');
+}
+
+/**
+ * Reserves one scan of the owner's quota. Returns why they can't make
+ * another scan, or null when the scan is reserved.
+ */
+async function reserveScan(userId: string): Promise<string | null> {
+  try {
+    const reservation = await reserveScans(userId, 1);
+    return reservation.allowed ? null : reservation.reason;
+  } catch (error) {
+    console.error('[Jobs] Failed to check quota:', error);
+    return 'Usage tracking is unavailable';
+  }
+}
+
+async function isCancelled(id: string): Promise<boolean> {
+  const job = await getJobStore().get(id);
+  return !job || job.status === 'cancelled';
+}
+
+function updateItem(id: string, index: number, patch: Partial<JobItem>): Promise<Job | null> {
+  return getJobStore().update(id, job => ({
+    items: job.items.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    lockedUntil: job.status === 'running' ? lockExpiry().toISOString() : job.lockedUntil,
+  }));
+}
+
+function lockExpiry(): Date {
+  return new Date(Date.now() + LOCK_DURATION);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============================================
+// Callbacks
+// ============================================
+
+/**
+ * POSTs the job summary (scores, not full reports) to the callback URL.
+ * The payload isn't signed; clients that need to trust it should fetch
+ * the job with their API key.
+ */
+export async function sendJobCallback(job: Job): Promise<CallbackDelivery> {
+  const url = job.callbackUrl!;
+  const body = JSON.stringify({ type: `job.${job.status}`, job: summarizeJob(job) });
+  let status: number | null = null;
+  let error: string | null = null;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'AISearchOptimizer/2.0 (+jobs)',
+        },
+        body,
+        signal: AbortSignal.timeout(10000),
+      });
+      status = response.status;
+      error = response.ok ? null : `Callback returned ${response.status}`;
+
+      if (response.ok || (status < 500 && status !== 429)) {
+        return { url, ok: response.ok, attempts: attempt, status, error, at: new Date().toISOString() };
+      }
+    } catch (err) {
+      status = null;
+      error = err instanceof Error ? err.message : 'Unknown error';
+    }
+
+    const delay = RETRY_DELAYS[attempt - 1];
+    if (delay === undefined) {
+      console.error(`[Jobs] Callback to ${url} failed:`, error);
+      return { url, ok: false, attempts: attempt, status, error, at: new Date().toISOString() };
+    }
+    await sleep(delay);
+  }
+}
+
+// ============================================
+// File adapter
+// ============================================
+
+/**
+ * Job state in one index file; each job's full results in their own
+ * file, so polling never reads them.
+ */
+export function createFileJobStore(directory: string): JobStore {
+  const indexPath = path.join(directory, 'jobs.json');
+  const resultsPath = (id: string) => path.join(directory, `${id}.results.json`);
+  const serialize = createWriteQueue();
+  const readAll = async () => (await readJsonFile<Job[]>(indexPath)) ?? [];
+
+  return {
+    create: (userId, input) => serialize(async () => {
+      const job: Job = {
+        id: randomBytes(12).toString('base64url'),
+        userId,
+        status: 'queued',
+        includeAI: input.includeAI,
+        force: input.force,
+        plan: input.plan,
+        scoringProfile: input.scoringProfile,
+        callbackUrl: input.callbackUrl,
+        items: input.urls.map(url => ({ url, status: 'pending', attempts: 0, score: null, grade: null, error: null })),
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        completedAt: null,
+        lockedUntil: null,
+        callback: null,
+      };
+      await writeJsonFile(indexPath, [...(await readAll()), job]);
+      return job;
+    }),
+
+    get: async (id) => (await readAll()).find(j => j.id === id) ?? null,
+
+    list: async (userId, options = {}) => (await readAll())
+      .filter(j => j.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, options.limit ?? 50),
+
+    update: (id, updater) => serialize(async () => {
+      const jobs = await readAll();
+      const index = jobs.findIndex(j => j.id === id);
+      if (index < 0) return null;
+
+      const patch = updater(jobs[index]);
+      if (!patch) return jobs[index];
+
+      jobs[index] = { ...jobs[index], ...patch };
+      await writeJsonFile(indexPath, jobs);
+      return jobs[index];
+    }),
+
+    claimNext: (now, lockedUntil) => serialize(async () => {
+      const jobs = await readAll();
+      const next = jobs
+        .filter(j => j.status === 'queued' ||
+          (j.status === 'running' && j.lockedUntil !== null && new Date(j.lockedUntil) <= now))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+      if (!next) return null;
+
+      next.status = 'running';
+      next.startedAt ??= now.toISOString();
+      next.lockedUntil = lockedUntil.toISOString();
+      await writeJsonFile(indexPath, jobs);
+      return next;
+    }),
+
+    saveResult: (id, result) => serialize(async () => {
+      const results = (await readJsonFile<Record<string, AnalysisResult>>(resultsPath(id))) ?? {};
+      results[result.url] = result;
+      await writeJsonFile(resultsPath(id), results);
+    }),
+
+    getResults: async (id) => {
+      if (!(await readAll()).some(j => j.id === id)) return {};
+      return (await readJsonFile<Record<string, AnalysisResult>>(resultsPath(id))) ?? {};
+    },
+  };
+}
+
+// ============================================
+// Default store
+// ============================================
+
+let store: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  if (!store) {
+    const directory = process.env.JOB_STORE_DIR || path.join(process.cwd(), '.data', 'jobs');
+    store = createFileJobStore(directory);
+  }
+  return store;
+}
+
+export function setJobStore(custom: JobStore): void {
+  store = custom;
+}
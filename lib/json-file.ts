@@ -0,0 +1,44 @@
+/**
+ * JSON File Helpers
+ *
+ * Shared by the file-backed store adapters.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Returns null when the file doesn't exist
+ */
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Writes to a temp file and renames it, so a crash never leaves a truncated file
+ */
+export async function writeJsonFile(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data));
+  await fs.rename(tmp, file);
+}
+
+/**
+ * Runs tasks one at a time so read-modify-write cycles within the
+ * process don't interleave. A failed task doesn't block later ones.
+ */
+export function createWriteQueue(): <T>(task: () => Promise<T>) => Promise<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+}
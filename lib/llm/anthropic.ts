@@ -0,0 +1,62 @@
+/**
+ * Anthropic Provider
+ *
+ * Direct HTTP calls to the Messages API (avoiding SDK issues in serverless).
+ */
+
+import type { LLMProvider } from './types';
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  /** Defaults to https://api.anthropic.com; set for gateways and proxies */
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+export function createAnthropicProvider(options: AnthropicProviderOptions): LLMProvider {
+  const baseUrl = (options.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+
+  return {
+    name: 'anthropic',
+    defaultModel: 'claude-sonnet-4-20250514',
+
+    async complete({ prompt, model, maxTokens, temperature }) {
+      const response = await fetch(`${baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': options.apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          messages: [{ role: 'user', content: prompt }],
+        }),
+        signal: options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : undefined,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[LLM] Anthropic API error:', response.status, errorText);
+        throw new Error(`API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const textBlock = data.content?.find((block: { type: string }) => block.type === 'text');
+      if (!textBlock?.text) {
+        throw new Error('No text response from Anthropic');
+      }
+
+      return {
+        text: textBlock.text,
+        model: data.model ?? model,
+        usage: data.usage && {
+          inputTokens: data.usage.input_tokens,
+          outputTokens: data.usage.output_tokens,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * LLM Providers
+ *
+ * Picks the provider for the AI analysis pass from the environment and
+ * resolves per-plan generation settings:
+ *
+ *   LLM_PROVIDER         anthropic | openai-compatible | mock
+ *                        (default: anthropic when ANTHROPIC_API_KEY is set)
+ *   LLM_MODEL, LLM_MAX_TOKENS, LLM_TEMPERATURE
+ *                        settings for every plan
+ *   LLM_PRO_MODEL, LLM_FREE_MAX_TOKENS, ...
+ *                        per-plan overrides
+ *   LLM_TOKEN_BUDGET, LLM_PRO_TOKEN_BUDGET, ...
+ *                        tokens one scan may spend on long-document analysis
+ */
+
+import type { Plan } from '../user';
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import type { LLMProvider, LLMProviderName, LLMRequest, LLMResponse, LLMSettings } from './types';
+
+export { createAnthropicProvider } from './anthropic';
+export { createOpenAICompatibleProvider } from './openai-compatible';
+export { createMockProvider, mockAnalysisResponse } from './mock';
+export * from './types';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['anthropic', 'openai-compatible', 'mock'];
+
+// Matches what the analysis pass used before settings were configurable
+const DEFAULT_SETTINGS: Record<Plan, Omit<LLMSettings, 'model'>> = {
+  free: { maxTokens: 3000, temperature: 1 },
+  pro: { maxTokens: 3000, temperature: 1 },
+};
+
+// Enough for the overall pass plus a handful of sections on free, most guides on pro
+const DEFAULT_TOKEN_BUDGET: Record<Plan, number> = {
+  free: 16000,
+  pro: 60000,
+};
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+// ============================================
+// Provider
+// ============================================
+
+let provider: LLMProvider | null | undefined;
+
+/**
+ * The configured provider, or null when AI analysis isn't set up
+ */
+export function getLLMProvider(): LLMProvider | null {
+  if (provider === undefined) {
+    provider = createProviderFromEnv(process.env);
+  }
+  return provider;
+}
+
+/**
+ * Override the provider, e.g. with a mock in tests. Pass undefined to
+ * go back to the environment.
+ */
+export function setLLMProvider(custom: LLMProvider | null | undefined): void {
+  provider = custom;
+}
+
+export function isLLMConfigured(): boolean {
+  return getLLMProvider() !== null;
+}
+
+export function createProviderFromEnv(env: NodeJS.ProcessEnv): LLMProvider | null {
+  const name = env.LLM_PROVIDER || (env.ANTHROPIC_API_KEY ? 'anthropic' : '');
+  const timeoutMs = readNumber(env, 'LLM_TIMEOUT_MS') ?? DEFAULT_TIMEOUT_MS;
+
+  if (!name) return null;
+
+  if (name === 'anthropic') {
+    if (!env.ANTHROPIC_API_KEY) {
+      console.error('[LLM] LLM_PROVIDER=anthropic needs ANTHROPIC_API_KEY');
+      return null;
+    }
+    return createAnthropicProvider({ apiKey: env.ANTHROPIC_API_KEY, baseUrl: env.ANTHROPIC_BASE_URL, timeoutMs });
+  }
+
+  if (name === 'openai-compatible') {
+    if (!env.LLM_BASE_URL) {
+      console.error('[LLM] LLM_PROVIDER=openai-compatible needs LLM_BASE_URL');
+      return null;
+    }
+    return createOpenAICompatibleProvider({
+      baseUrl: env.LLM_BASE_URL,
+      apiKey: env.LLM_API_KEY,
+      timeoutMs,
+    });
+  }
+
+  if (name === 'mock') {
+    return createMockProvider();
+  }
+
+  console.error(`[LLM] Unknown LLM_PROVIDER "${name}", expected one of ${LLM_PROVIDERS.join(', ')}`);
+  return null;
+}
+
+// ============================================
+// Settings
+// ============================================
+
+/**
+ * Model, max tokens and temperature for a plan: the plan's own variables
+ * (LLM_PRO_MODEL) win over the shared ones (LLM_MODEL), which win over
+ * the defaults
+ */
+export function resolveLLMSettings(
+  plan: Plan,
+  activeProvider: LLMProvider,
+  env: NodeJS.ProcessEnv = process.env
+): LLMSettings {
+  const prefix = `LLM_${plan.toUpperCase()}_`;
+  const defaults = DEFAULT_SETTINGS[plan];
+
+  return {
+    model: env[`${prefix}MODEL`] || env.LLM_MODEL || activeProvider.defaultModel,
+    maxTokens: readNumber(env, `${prefix}MAX_TOKENS`) ?? readNumber(env, 'LLM_MAX_TOKENS') ?? defaults.maxTokens,
+    temperature: readNumber(env, `${prefix}TEMPERATURE`) ?? readNumber(env, 'LLM_TEMPERATURE') ?? defaults.temperature,
+  };
+}
+
+/**
+ * Tokens a scan may spend across all AI calls, resolved like the other
+ * settings (LLM_PRO_TOKEN_BUDGET, then LLM_TOKEN_BUDGET, then the default)
+ */
+export function resolveTokenBudget(plan: Plan, env: NodeJS.ProcessEnv = process.env): number {
+  return readNumber(env, `LLM_${plan.toUpperCase()}_TOKEN_BUDGET`) ?? readNumber(env, 'LLM_TOKEN_BUDGET') ?? DEFAULT_TOKEN_BUDGET[plan];
+}
+
+// ============================================
+// Tokens
+// ============================================
+
+/**
+ * Rough token count (about four characters per token), for planning
+ * calls before they are made
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Tokens a call used, as reported by the provider or estimated when it doesn't say
+ */
+export function measureUsage(request: LLMRequest, response: LLMResponse): number {
+  if (response.usage) return response.usage.inputTokens + response.usage.outputTokens;
+  return estimateTokens(request.prompt) + estimateTokens(response.text);
+}
+
+function readNumber(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = env[name];
+  if (value === undefined || value === '') return undefined;
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    console.error(`[LLM] Ignoring ${name}=${value}: expected a non-negative number`);
+    return undefined;
+  }
+  return number;
+}
@@ -0,0 +1,87 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic replies for offline development and tests: the same
+ * prompt always gets the same answer, and nothing leaves the machine.
+ * By default it answers the analysis prompt with a well-formed analysis
+ * built from the page info in the prompt.
+ */
+
+import { createHash } from 'crypto';
+import type { AIAnalysis } from '../claude-analyzer';
+import type { LLMProvider, LLMRequest } from './types';
+
+export interface MockProviderOptions {
+  /** Custom reply; defaults to a canned analysis */
+  respond?: (request: LLMRequest) => string;
+}
+
+export function createMockProvider(options: MockProviderOptions = {}): LLMProvider {
+  const respond = options.respond ?? mockAnalysisResponse;
+
+  return {
+    name: 'mock',
+    defaultModel: 'mock-analysis-1',
+
+    async complete(request) {
+      const text = respond(request);
+      return {
+        text,
+        model: request.model,
+        usage: { inputTokens: Math.ceil(request.prompt.length / 4), outputTokens: Math.ceil(text.length / 4) },
+      };
+    },
+  };
+}
+
+/**
+ * A stable analysis for the prompt's page. The score comes from a hash
+ * of the prompt, so it changes when the content does.
+ */
+export function mockAnalysisResponse(request: LLMRequest): string {
+  const field = (name: string) => request.prompt.match(new RegExp(`^- ${name}: (.*)$`, 'm'))?.[1]?.trim() ?? '';
+  const title = field('Title') || 'Untitled page';
+  const headings = field('Headings').split(', ').filter(Boolean);
+  const seed = createHash('sha256').update(request.prompt).digest().readUInt32BE(0);
+  const topic = headings[0] || title;
+
+  const analysis: AIAnalysis = {
+    summary: `Mock analysis of "${title}". The page covers ${topic.toLowerCase()} and is reasonably structured for AI citation.`,
+    aiReadinessScore: 45 + (seed % 41),
+    contentUnderstanding: {
+      mainTopic: topic,
+      targetAudience: 'General audience',
+      contentType: 'article',
+      keyMessages: headings.slice(0, 3).length > 0 ? headings.slice(0, 3) : [title],
+    },
+    entities: [],
+    citationSimulation: {
+      likelyQueries: [`What is ${topic}?`, `${topic} explained`, `How does ${topic} work?`],
+      sampleCitations: [
+        {
+          userQuery: `What is ${topic}?`,
+          aiResponse: `According to ${title}, ${topic.toLowerCase()} is covered in detail.`,
+          citedText: title,
+          confidence: 'medium',
+        },
+      ],
+    },
+    improvements: [
+      {
+        category: 'content',
+        issue: 'Mock finding: the opening paragraph could answer the main question more directly',
+        recommendation: 'Lead with a one-sentence answer before the details',
+        priority: 'medium',
+      },
+    ],
+    missingContent: [],
+    rewriteSuggestions: [],
+    competitiveAnalysis: {
+      strengths: ['Clear title'],
+      weaknesses: ['Mock analysis - no real model was called'],
+      opportunities: ['Configure a real provider for meaningful insights'],
+    },
+  };
+
+  return JSON.stringify(analysis);
+}
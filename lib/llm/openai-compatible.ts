@@ -0,0 +1,65 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Chat Completions over HTTP, for OpenAI itself and for self-hosted
+ * servers that speak the same API (Ollama, vLLM, LM Studio, llama.cpp).
+ */
+
+import type { LLMProvider } from './types';
+
+export interface OpenAICompatibleProviderOptions {
+  /** Base URL including the version, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Local servers usually don't need one */
+  apiKey?: string;
+  /** Used when neither the plan nor LLM_MODEL names a model */
+  defaultModel?: string;
+  timeoutMs?: number;
+}
+
+export function createOpenAICompatibleProvider(options: OpenAICompatibleProviderOptions): LLMProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'openai-compatible',
+    defaultModel: options.defaultModel || 'llama3.1',
+
+    async complete({ prompt, model, maxTokens, temperature }) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          messages: [{ role: 'user', content: prompt }],
+        }),
+        signal: options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : undefined,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[LLM] OpenAI-compatible API error:', response.status, errorText);
+        throw new Error(`API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string' || !text) {
+        throw new Error('No text response from the model');
+      }
+
+      return {
+        text,
+        model: data.model ?? model,
+        usage: data.usage && {
+          inputTokens: data.usage.prompt_tokens,
+          outputTokens: data.usage.completion_tokens,
+        },
+      };
+    },
+  };
+}
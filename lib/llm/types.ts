@@ -0,0 +1,33 @@
+/**
+ * LLM Provider Types
+ *
+ * A provider turns a prompt into text. The AI analysis pass builds the
+ * prompt and parses the reply; providers only handle transport.
+ */
+
+export type LLMProviderName = 'anthropic' | 'openai-compatible' | 'mock';
+
+/** Per-plan generation settings, see `resolveLLMSettings` */
+export interface LLMSettings {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LLMRequest extends LLMSettings {
+  prompt: string;
+}
+
+export interface LLMResponse {
+  text: string;
+  /** Model that answered, as reported by the provider when it says */
+  model: string;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  /** Model used when neither the plan nor LLM_MODEL names one */
+  defaultModel: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
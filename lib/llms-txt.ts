@@ -0,0 +1,260 @@
+/**
+ * llms.txt Support
+ *
+ * Detects, validates and drafts /llms.txt files following the
+ * llmstxt.org convention: an H1 title, an optional blockquote summary,
+ * optional detail paragraphs and H2 sections of markdown link lists.
+ */
+
+import type * as cheerio from 'cheerio';
+
+// ============================================
+// Types
+// ============================================
+
+export interface LlmsTxtLink {
+  title: string;
+  url: string;
+  notes?: string;
+}
+
+export interface LlmsTxtSection {
+  name: string;
+  links: LlmsTxtLink[];
+}
+
+export interface ParsedLlmsTxt {
+  title: string | null;
+  summary: string | null;
+  details: string[];
+  sections: LlmsTxtSection[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface LlmsTxtReport {
+  url: string;
+  status: 'found' | 'missing' | 'error' | 'not-checked';
+  title: string | null;
+  summary: string | null;
+  sections: Array<{ name: string; linkCount: number }>;
+  errors: string[];
+  warnings: string[];
+}
+
+// ============================================
+// Fetch
+// ============================================
+
+export async function fetchLlmsTxt(pageUrl: string): Promise<{
+  url: string;
+  status: 'found' | 'missing' | 'error';
+  content: string | null;
+}> {
+  const llmsUrl = new URL('/llms.txt', pageUrl).toString();
+
+  try {
+    const response = await fetch(llmsUrl, {
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; AISearchOptimizer/2.0)' },
+      signal: AbortSignal.timeout(10000),
+      redirect: 'follow',
+    });
+
+    if (response.status >= 400 && response.status < 500) {
+      return { url: llmsUrl, status: 'missing', content: null };
+    }
+    if (!response.ok) {
+      return { url: llmsUrl, status: 'error', content: null };
+    }
+
+    const content = await response.text();
+
+    // Many sites answer unknown paths with an HTML page and a 200
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/html') || /^\s*</.test(content)) {
+      return { url: llmsUrl, status: 'missing', content: null };
+    }
+
+    return { url: llmsUrl, status: 'found', content };
+  } catch (error) {
+    console.error('[llms.txt] Fetch failed:', error);
+    return { url: llmsUrl, status: 'error', content: null };
+  }
+}
+
+// ============================================
+// Parse & Validate
+// ============================================
+
+const LINK_LINE = /^[-*]\s+\[([^\]]+)\]\(([^)\s]+)\)\s*(?::\s*(.*))?$/;
+
+export function parseLlmsTxt(content: string): ParsedLlmsTxt {
+  const result: ParsedLlmsTxt = {
+    title: null,
+    summary: null,
+    details: [],
+    sections: [],
+    errors: [],
+    warnings: [],
+  };
+
+  const lines = content.split(/\r?\n/);
+  let current: LlmsTxtSection | null = null;
+  let seenContent = false;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNo = index + 1;
+    if (!line) return;
+
+    if (/^#\s+/.test(line)) {
+      if (result.title !== null || seenContent) {
+        result.errors.push(`Line ${lineNo}: only one H1 title is allowed, at the top of the file`);
+      } else {
+        result.title = line.replace(/^#\s+/, '');
+      }
+      seenContent = true;
+      return;
+    }
+
+    if (!seenContent) {
+      result.errors.push(`Line ${lineNo}: file must start with an H1 title (e.g. "# Project Name")`);
+      seenContent = true;
+    }
+
+    if (/^##\s+/.test(line)) {
+      current = { name: line.replace(/^##\s+/, ''), links: [] };
+      result.sections.push(current);
+      return;
+    }
+
+    if (/^#{3,}\s+/.test(line)) {
+      result.warnings.push(`Line ${lineNo}: use H2 (##) headings for sections; deeper headings are not part of the format`);
+      return;
+    }
+
+    if (line.startsWith('>') && !current) {
+      const text = line.replace(/^>\s?/, '');
+      result.summary = result.summary ? `${result.summary} ${text}` : text;
+      return;
+    }
+
+    if (!current) {
+      result.details.push(line);
+      return;
+    }
+
+    const link = line.match(LINK_LINE);
+    if (link) {
+      current.links.push({ title: link[1], url: link[2], notes: link[3] || undefined });
+      if (!/^https?:\/\//i.test(link[2])) {
+        result.warnings.push(`Line ${lineNo}: link "${link[1]}" should use an absolute URL`);
+      }
+    } else if (/^[-*]\s+/.test(line)) {
+      result.errors.push(`Line ${lineNo}: list items must be markdown links, "- [name](url): notes"`);
+    } else {
+      result.warnings.push(`Line ${lineNo}: text inside "${current.name}" is not a link list item`);
+    }
+  });
+
+  if (result.title === null && result.errors.length === 0) {
+    result.errors.push('Missing H1 title');
+  }
+  if (!result.summary) {
+    result.warnings.push('Missing blockquote summary ("> short description") after the title');
+  }
+  if (result.sections.length === 0) {
+    result.warnings.push('No H2 sections with links to key pages');
+  }
+  for (const section of result.sections) {
+    if (section.links.length === 0) {
+      result.warnings.push(`Section "${section.name}" has no links`);
+    }
+  }
+
+  return result;
+}
+
+export function buildLlmsTxtReport(fetched: {
+  url: string;
+  status: LlmsTxtReport['status'];
+  content: string | null;
+}): LlmsTxtReport {
+  if (fetched.status !== 'found' || fetched.content === null) {
+    return {
+      url: fetched.url,
+      status: fetched.status,
+      title: null,
+      summary: null,
+      sections: [],
+      errors: [],
+      warnings: [],
+    };
+  }
+
+  const parsed = parseLlmsTxt(fetched.content);
+  return {
+    url: fetched.url,
+    status: 'found',
+    title: parsed.title,
+    summary: parsed.summary,
+    sections: parsed.sections.map(s => ({ name: s.name, linkCount: s.links.length })),
+    errors: parsed.errors,
+    warnings: parsed.warnings,
+  };
+}
+
+// ============================================
+// Generate
+// ============================================
+
+/**
+ * Draft an llms.txt from what the analyzed page says about itself
+ */
+export function generateLlmsTxt(input: {
+  $: cheerio.CheerioAPI;
+  url: string;
+  title: string;
+  description: string;
+}): string {
+  const { $, url } = input;
+  const origin = new URL(url).origin;
+  const siteName = $('meta[property="og:site_name"]').attr('content')?.trim() || input.title || new URL(url).hostname;
+
+  const lines: string[] = [`# ${siteName}`, ''];
+  if (input.description) {
+    lines.push(`> ${input.description}`, '');
+  }
+
+  // Key page: the analyzed page and its anchored sections
+  const pageLinks: string[] = [`- [${input.title || 'Home'}](${url})${input.description ? `: ${input.description}` : ''}`];
+  $('h2[id], h3[id]').slice(0, 10).each((_, el) => {
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    const id = $(el).attr('id');
+    if (text && id) pageLinks.push(`- [${text}](${url.split('#')[0]}#${id})`);
+  });
+  lines.push('## Key Pages', '', ...pageLinks, '');
+
+  // Other same-origin pages linked from navigation
+  const seen = new Set<string>([url.split('#')[0]]);
+  const navLinks: string[] = [];
+  $('nav a[href], header a[href]').each((_, el) => {
+    if (navLinks.length >= 10) return;
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    const href = $(el).attr('href') || '';
+    try {
+      const resolved = new URL(href, url);
+      resolved.hash = '';
+      if (resolved.origin !== origin || !text || seen.has(resolved.toString())) return;
+      seen.add(resolved.toString());
+      navLinks.push(`- [${text}](${resolved.toString()})`);
+    } catch {
+      // Ignore unparseable hrefs
+    }
+  });
+  if (navLinks.length > 0) {
+    lines.push('## Optional', '', ...navLinks, '');
+  }
+
+  return lines.join('\n').trim() + '\n';
+}
@@ -0,0 +1,316 @@
+/**
+ * Long-Document Analysis
+ *
+ * The analysis prompt only holds the first few thousand characters, so
+ * long guides used to be judged on their introduction. Here the page is
+ * split into sections by heading (map): each section gets a smaller
+ * prompt asking for weak sentences, missing facts and rewrite candidates.
+ * The overall pass sees an outline with the opening of every section, and
+ * the section findings are merged into its analysis (reduce), each tagged
+ * with the heading it came from. Sections are planned against the scan's
+ * token budget and skipped once it runs out.
+ */
+
+import { parseJsonReply } from './ai-analysis-schema';
+import {
+  analyzeWithClaude,
+  MAX_CONTENT_CHARS,
+  type AIAnalysis,
+  type AnalysisPageMetadata,
+} from './claude-analyzer';
+import { estimateTokens, getLLMProvider, measureUsage, resolveLLMSettings, resolveTokenBudget } from './llm';
+import type { Plan } from './user';
+import { runWithConcurrency } from './utils';
+
+// ============================================
+// Types
+// ============================================
+
+export interface DocumentSection {
+  /** Headings from the top of the page down to the section */
+  headingPath: string[];
+  text: string;
+}
+
+export interface SectionCoverage {
+  heading: string;
+  wordCount: number;
+  /** 'skipped' when the section didn't fit the token budget or was too short to review */
+  status: 'analyzed' | 'failed' | 'skipped';
+  /** Findings merged into the analysis */
+  findings: number;
+}
+
+export interface LongDocumentReport {
+  tokenBudget: number;
+  /** Overall pass plus section passes, as reported by the provider or estimated */
+  tokensUsed: number;
+  sections: SectionCoverage[];
+}
+
+export interface LongDocumentInput {
+  sections: DocumentSection[];
+  title: string;
+  url: string;
+  metadata: AnalysisPageMetadata;
+  plan?: Plan;
+  /** Defaults to the plan's budget, see `resolveTokenBudget` */
+  tokenBudget?: number;
+}
+
+interface SectionFindings {
+  weakSentences: Array<{ sentence: string; problem: string; fix: string }>;
+  missingFacts: Array<{ topic: string; reason: string; suggestedContent: string }>;
+  rewrites: Array<{ original: string; improved: string; reason: string }>;
+}
+
+const SECTION_MAX_CHARS = 5000;
+const SECTION_MIN_CHARS = 300;
+const SECTION_MAX_TOKENS = 1200;
+const SECTION_CONCURRENCY = 3;
+const MAX_FINDINGS_PER_LIST = 3;
+// Instructions and JSON skeleton around the content in the overall prompt
+const OVERALL_PROMPT_TOKENS = 900;
+const OUTLINE_MIN_SECTION_CHARS = 150;
+
+// ============================================
+// Sections
+// ============================================
+
+/**
+ * True when the main content doesn't fit in a single analysis prompt
+ */
+export function isLongDocument(text: string): boolean {
+  return text.length > MAX_CONTENT_CHARS;
+}
+
+/**
+ * Groups heading-scoped chunks (see `splitChunks`) into sections at the
+ * top heading level below the page title, splitting any section too long
+ * for one prompt
+ */
+export function splitSections(chunks: Array<{ headingPath: string[]; text: string }>): DocumentSection[] {
+  // When every chunk sits under the same h1, that's the page title, not a section
+  const sharedTitle = chunks.length > 1 && chunks.every(c => c.headingPath.length > 0 && c.headingPath[0] === chunks[0].headingPath[0]);
+  const depth = sharedTitle ? 2 : 1;
+
+  const grouped: DocumentSection[] = [];
+  for (const chunk of chunks) {
+    const headingPath = chunk.headingPath.slice(0, depth);
+    const last = grouped[grouped.length - 1];
+    if (last && last.headingPath.join('\n') === headingPath.join('\n')) {
+      last.text += ` ${chunk.text}`;
+    } else {
+      grouped.push({ headingPath, text: chunk.text });
+    }
+  }
+
+  return grouped.flatMap(section => {
+    if (section.text.length <= SECTION_MAX_CHARS) return [section];
+
+    const parts: DocumentSection[] = [];
+    let rest = section.text;
+    while (rest.length > 0) {
+      let end = rest.length <= SECTION_MAX_CHARS ? rest.length : rest.lastIndexOf(' ', SECTION_MAX_CHARS);
+      if (end <= 0) end = SECTION_MAX_CHARS;
+      parts.push({
+        headingPath: [...section.headingPath.slice(0, -1), `${sectionHeading(section)} (part ${parts.length + 1})`],
+        text: rest.slice(0, end).trim(),
+      });
+      rest = rest.slice(end).trim();
+    }
+    return parts;
+  });
+}
+
+function sectionHeading(section: DocumentSection): string {
+  return section.headingPath[section.headingPath.length - 1] || 'Introduction';
+}
+
+/**
+ * The page as the overall pass sees it: every section's heading and
+ * opening, sharing the space of one prompt
+ */
+export function buildOutline(sections: DocumentSection[], maxChars: number = MAX_CONTENT_CHARS): string {
+  const perSection = Math.max(OUTLINE_MIN_SECTION_CHARS, Math.floor(maxChars / Math.max(1, sections.length)));
+  const parts: string[] = [];
+  let length = 0;
+
+  for (const section of sections) {
+    const heading = `## ${sectionHeading(section)}\n`;
+    const room = Math.max(0, perSection - heading.length);
+    const opening = section.text.length > room ? `${section.text.slice(0, room).trimEnd()}...` : section.text;
+    const part = `${heading}${opening}`;
+    if (length + part.length > maxChars) break;
+    parts.push(part);
+    length += part.length + 2;
+  }
+
+  return parts.join('\n\n');
+}
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * Runs the overall pass on the outline and the section passes that fit
+ * the budget side by side, then merges the section findings in
+ */
+export async function analyzeLongDocument(input: LongDocumentInput): Promise<AIAnalysis> {
+  const { sections, title, url, metadata, plan = 'free' } = input;
+  const outline = buildOutline(sections);
+  const overallPass = () => analyzeWithClaude(outline, title, url, metadata, { plan });
+
+  const provider = getLLMProvider();
+  if (!provider) return overallPass();
+
+  const settings = resolveLLMSettings(plan, provider);
+  const sectionSettings = { ...settings, maxTokens: Math.min(settings.maxTokens, SECTION_MAX_TOKENS) };
+  const tokenBudget = input.tokenBudget ?? resolveTokenBudget(plan);
+
+  // Plan against estimates up front, so the passes can run in parallel
+  let remaining = tokenBudget - (estimateTokens(outline) + OVERALL_PROMPT_TOKENS + settings.maxTokens);
+  const planned = sections.map(section => {
+    const prompt = buildSectionPrompt(section, title, url);
+    const cost = estimateTokens(prompt) + sectionSettings.maxTokens;
+    const fits = section.text.length >= SECTION_MIN_CHARS && cost <= remaining;
+    if (fits) remaining -= cost;
+    return { section, prompt: fits ? prompt : null };
+  });
+
+  const scheduled = planned.filter(p => p.prompt !== null).length;
+  console.log(`[Long Document] ${sections.length} sections, analyzing ${scheduled} within ${tokenBudget} tokens`);
+
+  const findings = new Map<DocumentSection, SectionFindings | null>();
+  let sectionTokens = 0;
+
+  const [overall] = await Promise.all([
+    overallPass(),
+    runWithConcurrency(planned.filter(p => p.prompt !== null), SECTION_CONCURRENCY, async ({ section, prompt }) => {
+      const request = { prompt: prompt!, ...sectionSettings };
+      try {
+        const response = await provider.complete(request);
+        sectionTokens += measureUsage(request, response);
+        findings.set(section, parseSectionFindings(response.text));
+      } catch (error) {
+        console.error(`[Long Document] Section "${sectionHeading(section)}" failed:`, error);
+        findings.set(section, null);
+      }
+    }),
+  ]);
+
+  // Findings don't belong on a placeholder; the scan falls back as a whole
+  if (overall.fallback) return overall;
+
+  return mergeSectionFindings(overall, planned.map(p => p.section), findings, {
+    tokenBudget,
+    tokensUsed: (overall.provenance?.tokensUsed ?? 0) + sectionTokens,
+  });
+}
+
+function buildSectionPrompt(section: DocumentSection, title: string, url: string): string {
+  return `You are an expert in AI search optimization, reviewing one section of a long webpage for how well AI assistants like ChatGPT, Perplexity, Claude, and Google AI Overview could quote it.
+
+**Page:** ${title} (${url})
+**Section:** ${section.headingPath.join(' > ') || 'Introduction'}
+
+**Section content:**
+${section.text}
+
+Review this section only. Respond with this exact JSON structure (no markdown, just JSON):
+
+{
+  "weakSentences": [
+    { "sentence": "Exact sentence from the section", "problem": "Why an AI assistant wouldn't quote it", "fix": "How to fix it" }
+  ],
+  "missingFacts": [
+    { "topic": "Fact or detail the section should state", "reason": "Why it matters", "suggestedContent": "Draft of what to write" }
+  ],
+  "rewrites": [
+    { "original": "Exact sentence from the section", "improved": "Self-contained, quotable version", "reason": "Why it's better" }
+  ]
+}
+
+Give at most ${MAX_FINDINGS_PER_LIST} items per list, and empty lists where the section is already strong.`;
+}
+
+/**
+ * Lenient: items missing a field are dropped, and a reply that isn't JSON
+ * counts as a failed section rather than a reason to retry
+ */
+function parseSectionFindings(text: string): SectionFindings {
+  const value = parseJsonReply(text);
+  const root = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+
+  const items = <K extends string>(key: string, fields: K[]): Array<Record<K, string>> => {
+    const list = Array.isArray(root[key]) ? (root[key] as unknown[]) : [];
+    return list
+      .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+      .filter(item => fields.every(field => typeof item[field] === 'string' && (item[field] as string).trim()))
+      .slice(0, MAX_FINDINGS_PER_LIST)
+      .map(item => Object.fromEntries(fields.map(field => [field, (item[field] as string).trim()])) as Record<K, string>);
+  };
+
+  return {
+    weakSentences: items('weakSentences', ['sentence', 'problem', 'fix']),
+    missingFacts: items('missingFacts', ['topic', 'reason', 'suggestedContent']),
+    rewrites: items('rewrites', ['original', 'improved', 'reason']),
+  };
+}
+
+function mergeSectionFindings(
+  overall: AIAnalysis,
+  sections: DocumentSection[],
+  findings: Map<DocumentSection, SectionFindings | null>,
+  usage: Pick<LongDocumentReport, 'tokenBudget' | 'tokensUsed'>
+): AIAnalysis {
+  const improvements = [...overall.improvements];
+  const missingContent = [...overall.missingContent];
+  const rewriteSuggestions = [...overall.rewriteSuggestions];
+  const seenRewrites = new Set(rewriteSuggestions.map(r => r.original.toLowerCase()));
+
+  const coverage = sections.map((section): SectionCoverage => {
+    const heading = sectionHeading(section);
+    const wordCount = section.text.split(/\s+/).filter(w => w.length > 0).length;
+    if (!findings.has(section)) return { heading, wordCount, status: 'skipped', findings: 0 };
+
+    const result = findings.get(section);
+    if (!result) return { heading, wordCount, status: 'failed', findings: 0 };
+
+    for (const weak of result.weakSentences) {
+      improvements.push({
+        category: 'content',
+        issue: `${weak.problem}: "${weak.sentence}"`,
+        recommendation: weak.fix,
+        priority: 'medium',
+        section: heading,
+      });
+    }
+    for (const fact of result.missingFacts) {
+      missingContent.push({ ...fact, section: heading });
+    }
+    let rewrites = 0;
+    for (const rewrite of result.rewrites) {
+      if (seenRewrites.has(rewrite.original.toLowerCase())) continue;
+      seenRewrites.add(rewrite.original.toLowerCase());
+      rewriteSuggestions.push({ ...rewrite, section: heading });
+      rewrites++;
+    }
+
+    return {
+      heading,
+      wordCount,
+      status: 'analyzed',
+      findings: result.weakSentences.length + result.missingFacts.length + rewrites,
+    };
+  });
+
+  return {
+    ...overall,
+    improvements,
+    missingContent,
+    rewriteSuggestions,
+    longDocument: { ...usage, sections: coverage },
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Local Passage Retrieval
+ *
+ * Offline stand-in for the retrieval step of an AI search engine:
+ * splits the main content into passages, ranks them with BM25 against
+ * the queries a page is likely to be found for, and reports the passage
+ * an assistant would most plausibly quote for each query.
+ */
+
+import * as cheerio from 'cheerio';
+import type { CitationPreview } from './analyzer';
+
+// ============================================
+// Types
+// ============================================
+
+export interface Passage {
+  text: string;
+  /** Closest heading above the passage, if any */
+  heading: string | null;
+}
+
+export interface RetrievalInput {
+  $: cheerio.CheerioAPI;
+  paragraphs: string[];
+  questions: string[];
+  headings: string[];
+  title: string;
+  domain: string;
+}
+
+// ============================================
+// Tuning
+// ============================================
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const MIN_PASSAGE_WORDS = 25;
+const MAX_PASSAGE_WORDS = 120;
+const MAX_QUERIES = 8;
+const MAX_CITATION_CHARS = 320;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as', 'is', 'are',
+  'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'do', 'does', 'did', 'can', 'could',
+  'should', 'would', 'will', 'i', 'you', 'your', 'we', 'our', 'they', 'their', 'what', 'how', 'why', 'when', 'where',
+  'who', 'which', 'about', 'into', 'than', 'then', 'so', 'if', 'not', 'no', 'yes', 'my', 'me', 'vs', 'versus',
+]);
+
+// ============================================
+// Retrieval
+// ============================================
+
+export function buildCitationPreviews(input: RetrievalInput): CitationPreview[] {
+  const passages = splitPassages(input.$, input.paragraphs);
+  if (passages.length === 0) return [];
+
+  const queries = buildQueries(input.questions, input.headings, input.title);
+  const index = buildIndex(passages.map(p => tokenize(p.text)));
+  const previews: CitationPreview[] = [];
+
+  for (const query of queries) {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) continue;
+
+    let bestIndex = -1;
+    let bestScore = 0;
+    index.docs.forEach((_, i) => {
+      const score = scoreBm25(index, i, terms);
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+    if (bestIndex < 0) continue;
+
+    const passage = passages[bestIndex];
+    const matched = terms.filter(t => index.docs[bestIndex].has(t)).length;
+    const coverage = matched / terms.length;
+    // Normalise against an average-length passage containing every term once
+    const ideal = idealScore(index, terms);
+    const strength = ideal > 0 ? bestScore / ideal : 0;
+
+    previews.push({
+      query,
+      citation: trimCitation(passage.text, terms),
+      source: passage.heading ? `${input.domain} › ${passage.heading}` : input.domain,
+      confidence: coverage >= 0.75 && strength >= 0.6 ? 'high' : coverage >= 0.5 ? 'medium' : 'low',
+    });
+  }
+
+  const order = { high: 0, medium: 1, low: 2 };
+  return previews.sort((a, b) => order[a.confidence] - order[b.confidence]);
+}
+
+/**
+ * Queries come from questions found on the page, then headings, then
+ * the title - the same signals an engine uses to decide relevance.
+ */
+export function buildQueries(questions: string[], headings: string[], title: string): string[] {
+  const queries = [
+    ...questions,
+    ...headings.filter(h => tokenize(h).length >= 2),
+    title,
+  ]
+    .map(q => q.replace(/\s+/g, ' ').trim())
+    .filter(q => q.length > 0);
+
+  const seen = new Set<string>();
+  return queries.filter(q => {
+    const key = tokenize(q).join(' ');
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, MAX_QUERIES);
+}
+
+/**
+ * Groups short paragraphs together so each passage is roughly the size
+ * of a chunk a retriever would embed, and labels it with its heading.
+ */
+export function splitPassages($: cheerio.CheerioAPI, paragraphs: string[]): Passage[] {
+  const headingFor = new Map<string, string>();
+  let currentHeading: string | null = null;
+  $('h1, h2, h3, h4, p').each((_, el) => {
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    if (!text) return;
+    if (el.type === 'tag' && el.tagName !== 'p') {
+      currentHeading = text;
+    } else if (currentHeading && !headingFor.has(text)) {
+      headingFor.set(text, currentHeading);
+    }
+  });
+
+  const passages: Passage[] = [];
+  let buffer: string[] = [];
+  let bufferHeading: string | null = null;
+
+  const flush = () => {
+    if (buffer.length > 0) passages.push({ text: buffer.join(' '), heading: bufferHeading });
+    buffer = [];
+  };
+
+  for (const paragraph of paragraphs) {
+    const heading = headingFor.get(paragraph) ?? null;
+    if (heading !== bufferHeading) flush();
+    bufferHeading = heading;
+
+    for (const piece of splitLong(paragraph)) {
+      buffer.push(piece);
+      if (countWords(buffer.join(' ')) >= MIN_PASSAGE_WORDS) flush();
+    }
+  }
+  flush();
+
+  return passages;
+}
+
+// ============================================
+// BM25
+// ============================================
+
+interface Bm25Index {
+  docs: Array<Map<string, number>>;
+  lengths: number[];
+  avgLength: number;
+  docFrequency: Map<string, number>;
+}
+
+function buildIndex(documents: string[][]): Bm25Index {
+  const docFrequency = new Map<string, number>();
+  const docs = documents.map(tokens => {
+    const counts = new Map<string, number>();
+    tokens.forEach(t => counts.set(t, (counts.get(t) ?? 0) + 1));
+    counts.forEach((_, term) => docFrequency.set(term, (docFrequency.get(term) ?? 0) + 1));
+    return counts;
+  });
+  const lengths = documents.map(d => d.length);
+  const avgLength = lengths.reduce((a, b) => a + b, 0) / Math.max(1, lengths.length);
+  return { docs, lengths, avgLength, docFrequency };
+}
+
+function idf(index: Bm25Index, term: string): number {
+  const n = index.docs.length;
+  const df = index.docFrequency.get(term) ?? 0;
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+}
+
+function scoreBm25(index: Bm25Index, docIndex: number, terms: string[]): number {
+  const doc = index.docs[docIndex];
+  const lengthNorm = 1 - BM25_B + BM25_B * (index.lengths[docIndex] / Math.max(1, index.avgLength));
+  return terms.reduce((score, term) => {
+    const tf = doc.get(term) ?? 0;
+    if (tf === 0) return score;
+    return score + idf(index, term) * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+  }, 0);
+}
+
+function idealScore(index: Bm25Index, terms: string[]): number {
+  return terms.reduce((score, term) => score + idf(index, term), 0);
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+    .map(stem);
+}
+
+// Light suffix stripping so "tests", "testing" and "tested" match
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function splitLong(paragraph: string): string[] {
+  if (countWords(paragraph) <= MAX_PASSAGE_WORDS) return [paragraph];
+
+  const sentences = paragraph.split(/(?<=[.!?])\s+/);
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && countWords(current + ' ' + sentence) > MAX_PASSAGE_WORDS) {
+      pieces.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Quote the sentences that carry the match, the way assistants excerpt
+ * a passage rather than citing it whole.
+ */
+function trimCitation(text: string, terms: string[]): string {
+  if (text.length <= MAX_CITATION_CHARS) return text;
+
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  const scored = sentences.map((sentence, i) => {
+    const tokens = new Set(tokenize(sentence));
+    return { i, hits: terms.filter(t => tokens.has(t)).length };
+  });
+  const start = scored.reduce((best, s) => (s.hits > best.hits ? s : best), scored[0]).i;
+
+  let citation = '';
+  for (let i = start; i < sentences.length; i++) {
+    const next = citation ? `${citation} ${sentences[i]}` : sentences[i];
+    if (next.length > MAX_CITATION_CHARS) break;
+    citation = next;
+  }
+  return citation || `${sentences[start].slice(0, MAX_CITATION_CHARS - 3)}...`;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => w.length > 0).length;
+}
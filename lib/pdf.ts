@@ -0,0 +1,555 @@
+/**
+ * PDF Report Generation
+ *
+ * Renders an AnalysisResult as a branded, printable A4 report with jsPDF.
+ * Output depends only on the result - no clock, no randomness - so the same
+ * report always produces the same file.
+ */
+
+import { createHash } from 'crypto';
+import { jsPDF } from 'jspdf';
+import type { AnalysisResult, Recommendation } from './analyzer';
+import { CATEGORY_NAMES, CHECK_CATEGORIES, type CheckCategory } from './checks';
+import { formatDate } from './utils';
+
+// ============================================
+// Layout constants
+// ============================================
+
+type Rgb = [number, number, number];
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 12;
+const PT_TO_MM = 0.3528;
+
+const COLORS: Record<'brand' | 'text' | 'muted' | 'border' | 'codeBg' | 'track', Rgb> = {
+  brand: [37, 99, 235],
+  text: [17, 24, 39],
+  muted: [107, 114, 128],
+  border: [229, 231, 235],
+  codeBg: [243, 244, 246],
+  track: [229, 231, 235],
+};
+
+const GRADE_COLORS: Record<AnalysisResult['grade'], Rgb> = {
+  A: [34, 197, 94],
+  B: [132, 204, 22],
+  C: [234, 179, 8],
+  D: [249, 115, 22],
+  F: [239, 68, 68],
+};
+
+const STATUS_COLORS: Record<'good' | 'warning' | 'poor', Rgb> = {
+  good: [34, 197, 94],
+  warning: [234, 179, 8],
+  poor: [239, 68, 68],
+};
+
+const PRIORITY_COLORS: Record<Recommendation['priority'], Rgb> = {
+  critical: [185, 28, 28],
+  high: [194, 65, 12],
+  medium: [161, 98, 7],
+  low: [29, 78, 216],
+};
+
+const PRIORITY_ORDER: Recommendation['priority'][] = ['critical', 'high', 'medium', 'low'];
+
+// ============================================
+// Public API
+// ============================================
+
+export function renderReportPdf(result: AnalysisResult): ArrayBuffer {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+
+  // Pin the metadata jsPDF would otherwise take from the clock and RNG
+  doc.setCreationDate(new Date(result.timestamp));
+  doc.setFileId(createHash('md5').update(`${result.url}|${result.timestamp}`).digest('hex'));
+  doc.setDocumentProperties({
+    title: toPdfText(`AI Search Readiness Report - ${result.metadata.title || result.url}`),
+    subject: toPdfText(result.url),
+    creator: 'AI Search Optimizer',
+  });
+
+  const writer = createWriter(doc);
+
+  drawCover(writer, result);
+  drawCategories(writer, result);
+  drawRecommendations(writer, result);
+  drawChecks(writer, result);
+  drawCitationPreviews(writer, result);
+  drawClaudeAssessment(writer, result);
+  drawFooters(doc, result);
+
+  return doc.output('arraybuffer');
+}
+
+export function pdfFilename(result: AnalysisResult): string {
+  const domain = (result.metadata.domain || 'report').replace(/[^a-z0-9.-]/gi, '-');
+  return `ai-search-report-${domain}-${result.timestamp.slice(0, 10)}.pdf`;
+}
+
+// ============================================
+// Writer
+// ============================================
+
+interface TextOptions {
+  size?: number;
+  style?: 'normal' | 'bold' | 'italic';
+  font?: 'helvetica' | 'courier';
+  color?: Rgb;
+  indent?: number;
+  after?: number;
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+/**
+ * Flowing layout with a single cursor. Everything that draws goes
+ * through `ensureSpace`, so content breaks cleanly across pages.
+ */
+function createWriter(doc: jsPDF) {
+  let y = MARGIN;
+
+  const lineHeight = (size: number) => size * PT_TO_MM * 1.35;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const setFont = ({ size = 10, style = 'normal', font = 'helvetica', color = COLORS.text }: TextOptions) => {
+    doc.setFont(font, style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  const text = (value: string, options: TextOptions = {}) => {
+    const { size = 10, indent = 0, after = 1.5 } = options;
+    setFont(options);
+    const lines: string[] = doc.splitTextToSize(toPdfText(value), CONTENT_WIDTH - indent);
+    for (const line of lines) {
+      ensureSpace(lineHeight(size));
+      doc.text(line, MARGIN + indent, y, { baseline: 'top' });
+      y += lineHeight(size);
+    }
+    y += after;
+  };
+
+  const measure = (value: string, options: TextOptions = {}) => {
+    const { size = 10, indent = 0, after = 1.5 } = options;
+    setFont(options);
+    const lines: string[] = doc.splitTextToSize(toPdfText(value), CONTENT_WIDTH - indent);
+    return lines.length * lineHeight(size) + after;
+  };
+
+  const heading = (value: string) => {
+    // Keep the heading with at least a few lines of its section
+    ensureSpace(30);
+    y += 4;
+    text(value, { size: 16, style: 'bold', color: COLORS.brand, after: 1 });
+    doc.setDrawColor(...COLORS.brand);
+    doc.setLineWidth(0.4);
+    doc.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+    y += 4;
+  };
+
+  const subheading = (value: string) => {
+    ensureSpace(16);
+    y += 2;
+    text(value, { size: 12, style: 'bold', after: 1.5 });
+  };
+
+  const bullets = (items: string[], options: TextOptions = {}) => {
+    for (const item of items) {
+      text(`- ${item}`, { indent: 2, after: 0.8, ...options });
+    }
+    y += 1;
+  };
+
+  const code = (value: string) => {
+    const size = 8;
+    const height = lineHeight(size);
+    setFont({ size, font: 'courier' });
+    const lines = toPdfText(value.replace(/\t/g, '  '))
+      .split('\n')
+      .flatMap(line => (line.trim() === '' ? [''] : doc.splitTextToSize(line, CONTENT_WIDTH - 6) as string[]));
+
+    y += 1;
+    for (const line of lines) {
+      ensureSpace(height);
+      doc.setFillColor(...COLORS.codeBg);
+      doc.rect(MARGIN, y, CONTENT_WIDTH, height, 'F');
+      doc.text(line, MARGIN + 3, y + 0.3, { baseline: 'top' });
+      y += height;
+    }
+    y += 3;
+  };
+
+  const space = (height: number) => {
+    y += height;
+  };
+
+  return {
+    doc,
+    text,
+    measure,
+    heading,
+    subheading,
+    bullets,
+    code,
+    space,
+    ensureSpace,
+    setFont,
+    get y() {
+      return y;
+    },
+    set y(value: number) {
+      y = value;
+    },
+  };
+}
+
+// ============================================
+// Sections
+// ============================================
+
+function drawCover(w: Writer, result: AnalysisResult): void {
+  const { doc } = w;
+  const bandHeight = 48;
+
+  doc.setFillColor(...COLORS.brand);
+  doc.rect(0, 0, PAGE_WIDTH, bandHeight, 'F');
+
+  w.setFont({ size: 10, style: 'bold', color: [255, 255, 255] });
+  doc.text('AI SEARCH OPTIMIZER', MARGIN, 14, { baseline: 'top' });
+  w.setFont({ size: 20, style: 'bold', color: [255, 255, 255] });
+  doc.text('AI Search Readiness Report', MARGIN, 21, { baseline: 'top' });
+  w.setFont({ size: 10, color: [219, 234, 254] });
+  const urlLines: string[] = doc.splitTextToSize(toPdfText(result.url), CONTENT_WIDTH - 40);
+  doc.text(urlLines.slice(0, 2), MARGIN, 32, { baseline: 'top' });
+
+  // Grade badge
+  const cx = PAGE_WIDTH - MARGIN - 16;
+  const cy = bandHeight / 2;
+  doc.setFillColor(255, 255, 255);
+  doc.circle(cx, cy, 17, 'F');
+  doc.setFillColor(...GRADE_COLORS[result.grade]);
+  doc.circle(cx, cy, 15.5, 'F');
+  w.setFont({ size: 26, style: 'bold', color: [255, 255, 255] });
+  doc.text(result.grade, cx, cy - 2, { align: 'center', baseline: 'middle' });
+  w.setFont({ size: 9, color: [255, 255, 255] });
+  doc.text(`${result.score}/100`, cx, cy + 8, { align: 'center', baseline: 'middle' });
+
+  w.y = bandHeight + 10;
+
+  w.text(result.metadata.title || result.url, { size: 14, style: 'bold', after: 3 });
+
+  const facts = [
+    ['Scanned', formatDate(new Date(result.timestamp))],
+    ['Overall score', `${result.score}/100 (grade ${result.grade})`],
+    ['Word count', String(result.metadata.wordCount)],
+    ['Readability', `${result.metadata.readabilityGrade} (${result.metadata.readabilityScore})`],
+    ['Checks passed', `${result.checks.filter(c => c.passed).length} of ${result.checks.length}`],
+  ];
+  if (result.metadata.source === 'url') {
+    facts.splice(3, 0, ['Load time', `${result.metadata.loadTime} ms`]);
+  }
+
+  for (const [label, value] of facts) {
+    w.ensureSpace(6);
+    const rowY = w.y;
+    w.setFont({ size: 10, style: 'bold', color: COLORS.muted });
+    w.doc.text(label, MARGIN, rowY, { baseline: 'top' });
+    w.setFont({ size: 10 });
+    w.doc.text(toPdfText(value), MARGIN + 40, rowY, { baseline: 'top' });
+    w.y = rowY + 6;
+  }
+
+  if (result.metadata.description) {
+    w.space(3);
+    w.text(result.metadata.description, { color: COLORS.muted, style: 'italic' });
+  }
+
+  if (result.aiAnalysis?.summary) {
+    w.subheading('Summary');
+    w.text(result.aiAnalysis.summary);
+  }
+}
+
+function drawCategories(w: Writer, result: AnalysisResult): void {
+  w.heading('Category Breakdown');
+
+  const barX = MARGIN + 58;
+  const barWidth = 80;
+  const rowHeight = 9;
+
+  for (const category of CHECK_CATEGORIES) {
+    const score = result.categories[category];
+    if (!score) continue;
+
+    w.ensureSpace(rowHeight);
+    const rowY = w.y;
+
+    w.setFont({ size: 10, style: 'bold' });
+    w.doc.text(CATEGORY_NAMES[category], MARGIN, rowY + 1, { baseline: 'top' });
+
+    w.doc.setFillColor(...COLORS.track);
+    w.doc.rect(barX, rowY + 1, barWidth, 4, 'F');
+    w.doc.setFillColor(...STATUS_COLORS[score.status]);
+    w.doc.rect(barX, rowY + 1, (barWidth * Math.min(100, Math.max(0, score.percentage))) / 100, 4, 'F');
+
+    w.setFont({ size: 10 });
+    w.doc.text(`${score.percentage}%`, barX + barWidth + 4, rowY + 1, { baseline: 'top' });
+    w.setFont({ size: 9, color: COLORS.muted });
+    w.doc.text(`${score.score}/${score.maxScore} pts`, MARGIN + CONTENT_WIDTH, rowY + 1, { baseline: 'top', align: 'right' });
+
+    w.y = rowY + rowHeight;
+  }
+}
+
+function drawRecommendations(w: Writer, result: AnalysisResult): void {
+  w.heading('Prioritised Recommendations');
+
+  const recommendations = [...result.allRecommendations].sort(
+    (a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority)
+  );
+
+  if (recommendations.length === 0) {
+    w.text('No recommendations - every check passed.', { color: COLORS.muted });
+    return;
+  }
+
+  recommendations.forEach((rec, i) => {
+    w.ensureSpace(22);
+    w.space(2);
+    w.text(`${i + 1}. ${rec.title}`, { size: 11, style: 'bold', after: 0.5 });
+    w.text(
+      `${rec.priority.toUpperCase()} PRIORITY  |  ${categoryName(rec.category)}  |  Impact: ${rec.impact}`,
+      { size: 8, style: 'bold', color: PRIORITY_COLORS[rec.priority], after: 1.5 }
+    );
+    w.text(rec.description, { after: 1.5 });
+    w.text('How to fix', { size: 9, style: 'bold', color: COLORS.muted, after: 0.5 });
+    w.text(rec.howToFix, { after: 1.5 });
+    if (rec.codeExample) {
+      w.code(rec.codeExample);
+    }
+  });
+}
+
+function drawChecks(w: Writer, result: AnalysisResult): void {
+  w.heading('All Checks');
+
+  for (const category of CHECK_CATEGORIES) {
+    const checks = result.checks.filter(c => c.category === category);
+    if (checks.length === 0) continue;
+
+    const passed = checks.filter(c => c.passed).length;
+    w.subheading(`${CATEGORY_NAMES[category]} (${passed}/${checks.length} passed)`);
+
+    for (const check of checks) {
+      w.ensureSpace(12);
+      const rowY = w.y;
+
+      w.setFont({ size: 8, style: 'bold', color: check.passed ? STATUS_COLORS.good : STATUS_COLORS.poor });
+      w.doc.text(check.passed ? 'PASS' : 'FAIL', MARGIN, rowY + 0.5, { baseline: 'top' });
+      w.setFont({ size: 10, style: 'bold' });
+      w.doc.text(toPdfText(check.name), MARGIN + 12, rowY, { baseline: 'top' });
+      w.setFont({ size: 9, color: COLORS.muted });
+      w.doc.text(`${check.score}/${check.maxScore}`, MARGIN + CONTENT_WIDTH, rowY, { baseline: 'top', align: 'right' });
+
+      w.y = rowY + 5;
+      w.text(check.details, { size: 9, color: COLORS.muted, indent: 12, after: 2 });
+    }
+  }
+}
+
+function drawCitationPreviews(w: Writer, result: AnalysisResult): void {
+  const previews = result.insights.citationPreviews;
+  if (previews.length === 0) return;
+
+  w.heading('Citation Previews');
+  w.text('Passages an AI assistant is most likely to quote for each query, ranked locally from the page.', {
+    size: 9,
+    color: COLORS.muted,
+    after: 3,
+  });
+
+  for (const preview of previews) {
+    const quote = { style: 'italic', indent: 5, after: 1 } as const;
+    // Passages are short, so keep each one on a single page with its query
+    w.ensureSpace(w.measure(preview.citation, quote) + 12);
+    w.text(`"${preview.query}"`, { style: 'bold', after: 1 });
+
+    const startY = w.y;
+    w.text(preview.citation, quote);
+    w.doc.setDrawColor(...COLORS.brand);
+    w.doc.setLineWidth(0.8);
+    w.doc.line(MARGIN + 1.5, startY, MARGIN + 1.5, w.y - 1);
+
+    w.text(`${preview.source}  |  ${preview.confidence} confidence`, { size: 8, color: COLORS.muted, indent: 5, after: 4 });
+  }
+}
+
+function drawClaudeAssessment(w: Writer, result: AnalysisResult): void {
+  w.heading('Claude Assessment');
+
+  const ai = result.aiAnalysis;
+  if (!ai) {
+    w.text('AI analysis was not included in this scan. Re-run the scan with AI analysis enabled for a full assessment.', {
+      color: COLORS.muted,
+    });
+    return;
+  }
+
+  w.text(`AI readiness score: ${ai.aiReadinessScore}/100`, { size: 11, style: 'bold', after: 2 });
+  w.text(ai.summary, { after: 3 });
+
+  const understanding = ai.contentUnderstanding;
+  w.subheading('Content Understanding');
+  w.bullets([
+    `Main topic: ${understanding.mainTopic}`,
+    `Target audience: ${understanding.targetAudience}`,
+    `Content type: ${understanding.contentType}`,
+  ]);
+  if (understanding.keyMessages.length > 0) {
+    w.text('Key messages', { size: 9, style: 'bold', color: COLORS.muted, after: 0.5 });
+    w.bullets(understanding.keyMessages);
+  }
+
+  if (ai.citationSimulation.likelyQueries.length > 0) {
+    w.subheading('Likely Queries');
+    w.bullets(ai.citationSimulation.likelyQueries);
+  }
+
+  if (ai.citationSimulation.sampleCitations.length > 0) {
+    w.subheading('Simulated Citations');
+    for (const sample of ai.citationSimulation.sampleCitations) {
+      w.ensureSpace(18);
+      w.text(`"${sample.userQuery}"`, { style: 'bold', after: 0.5 });
+      w.text(sample.aiResponse, { indent: 5, after: 0.5 });
+      w.text(`Cited: "${sample.citedText}" (${sample.confidence} confidence)`, {
+        size: 9,
+        style: 'italic',
+        color: COLORS.muted,
+        indent: 5,
+        after: 3,
+      });
+    }
+  }
+
+  if (ai.improvements.length > 0) {
+    w.subheading('Suggested Improvements');
+    const improvements = [...ai.improvements].sort(
+      (a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority)
+    );
+    for (const improvement of improvements) {
+      w.ensureSpace(16);
+      w.text(improvement.issue, { style: 'bold', after: 0.5 });
+      w.text(`${improvement.priority.toUpperCase()} PRIORITY  |  ${improvement.category}`, {
+        size: 8,
+        style: 'bold',
+        color: PRIORITY_COLORS[improvement.priority] ?? COLORS.muted,
+        after: 1,
+      });
+      w.text(improvement.recommendation, { after: 1.5 });
+      if (improvement.exampleFix) {
+        w.code(improvement.exampleFix);
+      }
+    }
+  }
+
+  if (ai.missingContent.length > 0) {
+    w.subheading('Missing Content');
+    for (const gap of ai.missingContent) {
+      w.ensureSpace(14);
+      w.text(gap.topic, { style: 'bold', after: 0.5 });
+      w.text(gap.reason, { size: 9, color: COLORS.muted, after: 0.5 });
+      w.text(gap.suggestedContent, { after: 3 });
+    }
+  }
+
+  if (ai.rewriteSuggestions.length > 0) {
+    w.subheading('Rewrite Suggestions');
+    for (const rewrite of ai.rewriteSuggestions) {
+      w.ensureSpace(18);
+      w.text('Before', { size: 8, style: 'bold', color: COLORS.muted, after: 0.5 });
+      w.text(rewrite.original, { style: 'italic', after: 1 });
+      w.text('After', { size: 8, style: 'bold', color: COLORS.muted, after: 0.5 });
+      w.text(rewrite.improved, { after: 1 });
+      w.text(rewrite.reason, { size: 9, color: COLORS.muted, after: 3 });
+    }
+  }
+
+  const competitive = ai.competitiveAnalysis;
+  const lists: Array<[string, string[]]> = [
+    ['Strengths', competitive.strengths],
+    ['Weaknesses', competitive.weaknesses],
+    ['Opportunities', competitive.opportunities],
+  ];
+  if (lists.some(([, items]) => items.length > 0)) {
+    w.subheading('Competitive Position');
+    for (const [label, items] of lists) {
+      if (items.length === 0) continue;
+      w.text(label, { size: 9, style: 'bold', color: COLORS.muted, after: 0.5 });
+      w.bullets(items);
+    }
+  }
+}
+
+function drawFooters(doc: jsPDF, result: AnalysisResult): void {
+  const pages = doc.getNumberOfPages();
+  const footerY = PAGE_HEIGHT - MARGIN + 4;
+
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(...COLORS.border);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, footerY - 3, PAGE_WIDTH - MARGIN, footerY - 3);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...COLORS.muted);
+    doc.text(toPdfText(`AI Search Optimizer  |  ${result.metadata.domain}  |  ${formatDate(new Date(result.timestamp))}`), MARGIN, footerY, { baseline: 'top' });
+    doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, footerY, { baseline: 'top', align: 'right' });
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Recommendations carry display labels like 'Technical'; checks carry keys
+ */
+function categoryName(category: string): string {
+  return CATEGORY_NAMES[category as CheckCategory] ?? category;
+}
+
+const REPLACEMENTS: Array<[RegExp, string]> = [
+  [/[‘’‚′]/g, "'"],
+  [/[“”„″]/g, '"'],
+  [/[–—−]/g, '-'],
+  [/…/g, '...'],
+  [/[→⟶]/g, '->'],
+  [/[›»]/g, '>'],
+  [/[•●▪]/g, '-'],
+  [/[   ]/g, ' '],
+  [/™/g, '(TM)'],
+];
+
+/**
+ * The standard PDF fonts only cover Latin-1. Map common typographic
+ * characters to ASCII and drop anything else rather than print garbage.
+ */
+function toPdfText(value: string): string {
+  let text = value ?? '';
+  for (const [pattern, replacement] of REPLACEMENTS) {
+    text = text.replace(pattern, replacement);
+  }
+  return text.replace(/\r\n?/g, '\n').replace(/[^\n\x20-\x7E\xA1-\xFF]/g, '');
+}
@@ -0,0 +1,168 @@
+/**
+ * Report Storage
+ *
+ * Persists full analysis results under stable IDs, with optional public
+ * share tokens. The default adapter writes JSON files to disk; swap in
+ * another `ReportStore` (e.g. a database) with `setReportStore`.
+ *
+ * Note: serverless platforms have ephemeral filesystems, so point
+ * REPORT_STORE_DIR at persistent storage or use a database adapter
+ * in production.
+ */
+
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AnalysisResult } from './analyzer';
+import { createWriteQueue, readJsonFile, writeJsonFile } from './json-file';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ReportSummary {
+  id: string;
+  userId: string;
+  url: string;
+  title: string;
+  score: number;
+  grade: AnalysisResult['grade'];
+  createdAt: string;
+  /** Set when the report has a public share link */
+  shareToken: string | null;
+}
+
+export interface StoredReport extends ReportSummary {
+  result: AnalysisResult;
+}
+
+export interface ReportStore {
+  save(userId: string, result: AnalysisResult): Promise<StoredReport>;
+  get(id: string): Promise<StoredReport | null>;
+  /** Newest first */
+  list(userId: string, options?: { limit?: number; offset?: number }): Promise<ReportSummary[]>;
+  delete(id: string): Promise<boolean>;
+  /** Pass null to revoke the share link */
+  setShareToken(id: string, token: string | null): Promise<ReportSummary | null>;
+  getByShareToken(token: string): Promise<StoredReport | null>;
+}
+
+// ============================================
+// IDs and tokens
+// ============================================
+
+export function generateReportId(): string {
+  return randomBytes(12).toString('base64url');
+}
+
+/**
+ * 192 bits of randomness - share links must not be guessable
+ */
+export function generateShareToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export function isValidReportId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+// ============================================
+// File adapter
+// ============================================
+
+/**
+ * One JSON file per report plus an index of summaries, so listing never
+ * has to read full results. Writes are serialized within the process.
+ */
+export function createFileReportStore(directory: string): ReportStore {
+  const indexPath = path.join(directory, 'index.json');
+  const reportPath = (id: string) => path.join(directory, `${id}.json`);
+  const serialize = createWriteQueue();
+
+  const readIndex = async (): Promise<ReportSummary[]> => (await readJsonFile<ReportSummary[]>(indexPath)) ?? [];
+  const writeIndex = (index: ReportSummary[]): Promise<void> => writeJsonFile(indexPath, index);
+
+  const readReport = async (summary: ReportSummary): Promise<StoredReport | null> => {
+    const result = await readJsonFile<AnalysisResult>(reportPath(summary.id));
+    return result ? { ...summary, result } : null;
+  };
+
+  return {
+    save: (userId, result) => serialize(async () => {
+      const summary: ReportSummary = {
+        id: generateReportId(),
+        userId,
+        url: result.url,
+        title: result.metadata.title,
+        score: result.score,
+        grade: result.grade,
+        createdAt: new Date().toISOString(),
+        shareToken: null,
+      };
+
+      await writeJsonFile(reportPath(summary.id), result);
+      await writeIndex([...(await readIndex()), summary]);
+      return { ...summary, result };
+    }),
+
+    get: async (id) => {
+      if (!isValidReportId(id)) return null;
+      const summary = (await readIndex()).find(r => r.id === id);
+      return summary ? readReport(summary) : null;
+    },
+
+    list: async (userId, options = {}) => {
+      const offset = options.offset ?? 0;
+      const limit = options.limit ?? 50;
+      return (await readIndex())
+        .filter(r => r.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(offset, offset + limit);
+    },
+
+    delete: (id) => serialize(async () => {
+      const index = await readIndex();
+      if (!index.some(r => r.id === id)) return false;
+
+      await writeIndex(index.filter(r => r.id !== id));
+      await fs.rm(reportPath(id), { force: true });
+      return true;
+    }),
+
+    setShareToken: (id, token) => serialize(async () => {
+      const index = await readIndex();
+      const summary = index.find(r => r.id === id);
+      if (!summary) return null;
+
+      summary.shareToken = token;
+      await writeIndex(index);
+      return summary;
+    }),
+
+    getByShareToken: async (token) => {
+      if (!isValidReportId(token)) return null;
+      const summary = (await readIndex()).find(r => r.shareToken === token);
+      return summary ? readReport(summary) : null;
+    },
+  };
+}
+
+// ============================================
+// Default store
+// ============================================
+
+let store: ReportStore | null = null;
+
+export function getReportStore(): ReportStore {
+  if (!store) {
+    const directory = process.env.REPORT_STORE_DIR || path.join(process.cwd(), '.data', 'reports');
+    store = createFileReportStore(directory);
+  }
+  return store;
+}
+
+export function setReportStore(custom: ReportStore): void {
+  store = custom;
+}
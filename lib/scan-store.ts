@@ -0,0 +1,103 @@
+/**
+ * Recent Scans
+ *
+ * Keeps the last few full results of each signed-in user's scans under
+ * random scan IDs. Reports and exports are made by scan ID rather than
+ * from a result the client sends back, so they always show what the
+ * server measured.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import path from 'path';
+import type { AnalysisResult } from './analyzer';
+import { createWriteQueue, readJsonFile, writeJsonFile } from './json-file';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RecentScan {
+  id: string;
+  createdAt: string;
+  result: AnalysisResult;
+}
+
+export interface ScanStore {
+  /** Returns the new scan ID */
+  save(userId: string, result: AnalysisResult): Promise<string>;
+  /** Null when the scan is unknown, someone else's or expired */
+  get(userId: string, scanId: string): Promise<AnalysisResult | null>;
+}
+
+const MAX_SCANS_PER_USER = 10;
+const SCAN_TTL = 24 * 60 * 60 * 1000;
+const SCAN_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+export function isValidScanId(id: unknown): id is string {
+  return typeof id === 'string' && SCAN_ID_PATTERN.test(id);
+}
+
+/**
+ * Stores a signed-in user's scan and returns its ID, or null when it
+ * couldn't be stored (the scan itself still succeeded)
+ */
+export async function rememberScan(userId: string, result: AnalysisResult): Promise<string | null> {
+  try {
+    return await getScanStore().save(userId, result);
+  } catch (error) {
+    console.error('[Scans] Failed to store scan:', error);
+    return null;
+  }
+}
+
+// ============================================
+// File adapter
+// ============================================
+
+/**
+ * One file per user holding their most recent scans
+ */
+export function createFileScanStore(directory: string): ScanStore {
+  const serialize = createWriteQueue();
+  const fileFor = (userId: string) =>
+    path.join(directory, `${createHash('sha256').update(userId).digest('hex').slice(0, 32)}.json`);
+
+  const fresh = (scans: RecentScan[]) => {
+    const cutoff = Date.now() - SCAN_TTL;
+    return scans.filter(scan => new Date(scan.createdAt).getTime() > cutoff);
+  };
+
+  return {
+    save: (userId, result) => serialize(async () => {
+      const file = fileFor(userId);
+      const scan: RecentScan = { id: randomBytes(18).toString('base64url'), createdAt: new Date().toISOString(), result };
+      const scans = fresh((await readJsonFile<RecentScan[]>(file)) ?? []);
+      await writeJsonFile(file, [...scans, scan].slice(-MAX_SCANS_PER_USER));
+      return scan.id;
+    }),
+
+    get: async (userId, scanId) => {
+      if (!isValidScanId(scanId)) return null;
+      const scans = fresh((await readJsonFile<RecentScan[]>(fileFor(userId))) ?? []);
+      return scans.find(scan => scan.id === scanId)?.result ?? null;
+    },
+  };
+}
+
+// ============================================
+// Default store
+// ============================================
+
+let store: ScanStore | null = null;
+
+export function getScanStore(): ScanStore {
+  if (!store) {
+    const directory = process.env.SCAN_STORE_DIR || path.join(process.cwd(), '.data', 'scans');
+    store = createFileScanStore(directory);
+  }
+  return store;
+}
+
+export function setScanStore(custom: ScanStore): void {
+  store = custom;
+}
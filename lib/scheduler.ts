@@ -0,0 +1,369 @@
+/**
+ * Scheduled Re-Scans
+ *
+ * Re-analyzes saved URLs daily, weekly or monthly, compares each run
+ * with the schedule's previous run and sends regression alerts to the
+ * schedule's webhooks. Runs are triggered by `runDueSchedules`, which
+ * the cron route calls.
+ */
+
+import { randomBytes } from 'crypto';
+import path from 'path';
+import { analyzeUrl, type AnalysisResult } from './analyzer';
+import {
+  sendAlert,
+  type DeliveryResult,
+  type RegressionAlert,
+  type ScanErrorAlert,
+  type ScheduleAlert,
+  type WebhookTarget,
+} from './alerts';
+import { diffChecks, recordScan, toHistoryEntry, type HistoryEntry } from './history';
+import { createWriteQueue, readJsonFile, writeJsonFile } from './json-file';
+import type { Plan } from './user';
+import { isValidUrl, runWithConcurrency } from './utils';
+
+// ============================================
+// Types
+// ============================================
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'monthly';
+
+type ScanSnapshot = Pick<HistoryEntry, 'score' | 'grade' | 'passedChecks' | 'failedChecks'>;
+
+export interface Schedule {
+  id: string;
+  userId: string;
+  url: string;
+  frequency: ScheduleFrequency;
+  /** Alert when the score drops by more than this many points */
+  scoreDropThreshold: number;
+  /** Checks whose pass → fail flip triggers an alert; ['*'] watches all */
+  watchChecks: string[];
+  webhooks: WebhookTarget[];
+  enabled: boolean;
+  createdAt: string;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastError: string | null;
+  lastScan: ScanSnapshot | null;
+}
+
+export type ScheduleInput = Pick<Schedule, 'url' | 'frequency' | 'scoreDropThreshold' | 'watchChecks' | 'webhooks' | 'enabled'>;
+
+export interface ScheduleRun {
+  scheduleId: string;
+  url: string;
+  ranAt: string;
+  score: number | null;
+  grade: AnalysisResult['grade'] | null;
+  alert: ScheduleAlert | null;
+  deliveries: DeliveryResult[];
+  error?: string;
+}
+
+export interface ScheduleStore {
+  /** Null when the user already has `limit` schedules; checked atomically with the write */
+  create(userId: string, input: ScheduleInput, limit: number): Promise<Schedule | null>;
+  get(id: string): Promise<Schedule | null>;
+  list(userId: string): Promise<Schedule[]>;
+  listDue(now: Date): Promise<Schedule[]>;
+  update(id: string, patch: Partial<Omit<Schedule, 'id' | 'userId' | 'createdAt'>>): Promise<Schedule | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export const FREQUENCIES: ScheduleFrequency[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * Checks that most often break silently on deploys
+ */
+export const DEFAULT_WATCHED_CHECKS = [
+  'schema-markup',
+  'schema-json-syntax',
+  'ai-crawler-access',
+  'ai-snippet-directives',
+  'canonical-url',
+  'meta-description',
+  'llms-txt',
+];
+
+export const DEFAULT_SCORE_DROP_THRESHOLD = 5;
+
+/** Every schedule is re-fetched by cron, so each plan gets a fixed number */
+export const MAX_SCHEDULES_PER_PLAN: Record<Plan, number> = {
+  free: 1,
+  pro: 25,
+};
+
+const MAX_WEBHOOKS = 5;
+const MAX_RUNS_PER_TRIGGER = 20;
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validates user input for a new schedule, or for an update when
+ * `partial` is set (missing fields are then left out of the result).
+ */
+export function parseScheduleInput(
+  body: Record<string, unknown>,
+  partial = false
+): { value: Partial<ScheduleInput> } | { error: string } {
+  const value: Partial<ScheduleInput> = {};
+
+  if (body.url !== undefined || !partial) {
+    if (typeof body.url !== 'string' || !isValidUrl(body.url)) {
+      return { error: 'Invalid URL. Please enter a valid http or https URL.' };
+    }
+    value.url = body.url;
+  }
+
+  if (body.frequency !== undefined || !partial) {
+    const frequency = body.frequency ?? 'weekly';
+    if (!FREQUENCIES.includes(frequency as ScheduleFrequency)) {
+      return { error: `frequency must be one of ${FREQUENCIES.join(', ')}` };
+    }
+    value.frequency = frequency as ScheduleFrequency;
+  }
+
+  if (body.scoreDropThreshold !== undefined || !partial) {
+    const threshold = body.scoreDropThreshold ?? DEFAULT_SCORE_DROP_THRESHOLD;
+    if (typeof threshold !== 'number' || threshold < 0 || threshold > 100) {
+      return { error: 'scoreDropThreshold must be a number between 0 and 100' };
+    }
+    value.scoreDropThreshold = threshold;
+  }
+
+  if (body.watchChecks !== undefined || !partial) {
+    const watchChecks = body.watchChecks ?? DEFAULT_WATCHED_CHECKS;
+    if (!Array.isArray(watchChecks) || watchChecks.some(id => typeof id !== 'string')) {
+      return { error: 'watchChecks must be an array of check IDs' };
+    }
+    value.watchChecks = watchChecks as string[];
+  }
+
+  if (body.webhooks !== undefined || !partial) {
+    const webhooks = body.webhooks ?? [];
+    if (!Array.isArray(webhooks) || webhooks.length > MAX_WEBHOOKS) {
+      return { error: `webhooks must be an array of up to ${MAX_WEBHOOKS} targets` };
+    }
+    for (const webhook of webhooks) {
+      if (!webhook || typeof webhook.url !== 'string' || !isValidUrl(webhook.url)) {
+        return { error: 'Each webhook needs a valid http or https url' };
+      }
+      if (webhook.format !== undefined && !['json', 'slack'].includes(webhook.format)) {
+        return { error: 'Webhook format must be json or slack' };
+      }
+    }
+    value.webhooks = webhooks.map((w: { url: string; format?: WebhookTarget['format'] }) => ({
+      url: w.url,
+      format: w.format ?? 'json',
+    }));
+  }
+
+  if (body.enabled !== undefined || !partial) {
+    const enabled = body.enabled ?? true;
+    if (typeof enabled !== 'boolean') {
+      return { error: 'enabled must be a boolean' };
+    }
+    value.enabled = enabled;
+  }
+
+  return { value };
+}
+
+// ============================================
+// Running
+// ============================================
+
+export function computeNextRun(frequency: ScheduleFrequency, from: Date): Date {
+  const next = new Date(from);
+  if (frequency === 'daily') next.setUTCDate(next.getUTCDate() + 1);
+  if (frequency === 'weekly') next.setUTCDate(next.getUTCDate() + 7);
+  if (frequency === 'monthly') {
+    // Clamped to the end of shorter months: Jan 31 runs next on Feb 28, not Mar 3
+    const day = next.getUTCDate();
+    next.setUTCDate(1);
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+    next.setUTCDate(Math.min(day, lastDay));
+  }
+  return next;
+}
+
+export async function runDueSchedules(now = new Date()): Promise<ScheduleRun[]> {
+  const due = (await getScheduleStore().listDue(now)).slice(0, MAX_RUNS_PER_TRIGGER);
+  console.log(`[Scheduler] ${due.length} schedules due`);
+
+  const runs: ScheduleRun[] = [];
+  await runWithConcurrency(due, 2, async (schedule) => {
+    runs.push(await runSchedule(schedule, now));
+  });
+  return runs;
+}
+
+export async function runSchedule(schedule: Schedule, now = new Date()): Promise<ScheduleRun> {
+  const store = getScheduleStore();
+  const ranAt = now.toISOString();
+  const nextRunAt = computeNextRun(schedule.frequency, now).toISOString();
+
+  try {
+    // Heuristic-only, so scores aren't moved by the AI blend between runs
+    const result = await analyzeUrl(schedule.url, false);
+    const snapshot = toHistoryEntry(result);
+
+    await recordScan(schedule.userId, result).catch(error => {
+      console.error('[Scheduler] Failed to record history:', error);
+    });
+
+    const alert = detectRegression(schedule, schedule.lastScan, snapshot, result);
+    const deliveries = alert && schedule.webhooks.length > 0 ? await sendAlert(alert, schedule.webhooks) : [];
+    if (alert) {
+      console.log(`[Scheduler] Regression on ${schedule.url}: ${alert.reasons.join('; ')}`);
+    }
+
+    await store.update(schedule.id, {
+      lastRunAt: ranAt,
+      nextRunAt,
+      lastError: null,
+      lastScan: {
+        score: snapshot.score,
+        grade: snapshot.grade,
+        passedChecks: snapshot.passedChecks,
+        failedChecks: snapshot.failedChecks,
+      },
+    });
+
+    return { scheduleId: schedule.id, url: schedule.url, ranAt, score: result.score, grade: result.grade, alert, deliveries };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Scheduler] Run failed for ${schedule.url}:`, error);
+
+    // Alert once when a schedule starts failing, not on every run while it stays down
+    const alert: ScanErrorAlert | null = schedule.lastError === null
+      ? { scheduleId: schedule.id, url: schedule.url, timestamp: ranAt, error: message }
+      : null;
+    const deliveries = alert && schedule.webhooks.length > 0 ? await sendAlert(alert, schedule.webhooks) : [];
+
+    await store.update(schedule.id, { lastRunAt: ranAt, nextRunAt, lastError: message });
+    return { scheduleId: schedule.id, url: schedule.url, ranAt, score: null, grade: null, alert, deliveries, error: message };
+  }
+}
+
+export function detectRegression(
+  schedule: Pick<Schedule, 'id' | 'url' | 'scoreDropThreshold' | 'watchChecks'>,
+  previous: ScanSnapshot | null,
+  current: ScanSnapshot,
+  result: AnalysisResult
+): RegressionAlert | null {
+  if (!previous) return null;
+
+  const reasons: string[] = [];
+  const scoreDrop = previous.score - current.score;
+  if (scoreDrop > schedule.scoreDropThreshold) {
+    reasons.push(`Score dropped ${scoreDrop} points (threshold ${schedule.scoreDropThreshold})`);
+  }
+
+  const watchAll = schedule.watchChecks.includes('*');
+  const newlyFailing = diffChecks(previous, current).nowFailing
+    .filter(id => watchAll || schedule.watchChecks.includes(id))
+    .map(id => {
+      const check = result.checks.find(c => c.id === id);
+      return { id, name: check?.name ?? id, details: check?.details ?? '' };
+    });
+  for (const check of newlyFailing) {
+    reasons.push(`${check.name} now fails`);
+  }
+
+  if (reasons.length === 0) return null;
+
+  return {
+    scheduleId: schedule.id,
+    url: schedule.url,
+    timestamp: result.timestamp,
+    previousScore: previous.score,
+    score: current.score,
+    previousGrade: previous.grade,
+    grade: current.grade,
+    scoreDrop,
+    newlyFailing,
+    reasons,
+  };
+}
+
+// ============================================
+// File adapter
+// ============================================
+
+export function createFileScheduleStore(directory: string): ScheduleStore {
+  const file = path.join(directory, 'schedules.json');
+  const serialize = createWriteQueue();
+  const readAll = async () => (await readJsonFile<Schedule[]>(file)) ?? [];
+
+  return {
+    create: (userId, input, limit) => serialize(async () => {
+      const schedules = await readAll();
+      if (schedules.filter(s => s.userId === userId).length >= limit) return null;
+
+      const now = new Date().toISOString();
+      const schedule: Schedule = {
+        ...input,
+        id: randomBytes(12).toString('base64url'),
+        userId,
+        createdAt: now,
+        // First run happens on the next trigger and sets the baseline
+        nextRunAt: now,
+        lastRunAt: null,
+        lastError: null,
+        lastScan: null,
+      };
+      await writeJsonFile(file, [...schedules, schedule]);
+      return schedule;
+    }),
+
+    get: async (id) => (await readAll()).find(s => s.id === id) ?? null,
+
+    list: async (userId) => (await readAll()).filter(s => s.userId === userId),
+
+    listDue: async (now) => (await readAll())
+      .filter(s => s.enabled && new Date(s.nextRunAt) <= now)
+      .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt)),
+
+    update: (id, patch) => serialize(async () => {
+      const schedules = await readAll();
+      const index = schedules.findIndex(s => s.id === id);
+      if (index < 0) return null;
+
+      schedules[index] = { ...schedules[index], ...patch };
+      await writeJsonFile(file, schedules);
+      return schedules[index];
+    }),
+
+    delete: (id) => serialize(async () => {
+      const schedules = await readAll();
+      const remaining = schedules.filter(s => s.id !== id);
+      if (remaining.length === schedules.length) return false;
+      await writeJsonFile(file, remaining);
+      return true;
+    }),
+  };
+}
+
+// ============================================
+// Default store
+// ============================================
+
+let store: ScheduleStore | null = null;
+
+export function getScheduleStore(): ScheduleStore {
+  if (!store) {
+    const directory = process.env.SCHEDULE_STORE_DIR || path.join(process.cwd(), '.data', 'schedules');
+    store = createFileScheduleStore(directory);
+  }
+  return store;
+}
+
+export function setScheduleStore(custom: ScheduleStore): void {
+  store = custom;
+}
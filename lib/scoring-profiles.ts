@@ -0,0 +1,341 @@
+/**
+ * Scoring Profiles
+ *
+ * A product page, a recipe, a local-business page and a long-form article
+ * shouldn't be judged by the same weights. A profile scales each check's
+ * points, weights the categories against each other, sets how much of the
+ * final score comes from the AI readiness score, and sets the grade
+ * thresholds. The page's content type (from JSON-LD, then page structure)
+ * picks the default profile; a scan can ask for another one.
+ *
+ * The "general" profile scores exactly like the analyzer did before
+ * profiles existed. In-house profiles can call registerScoringProfile()
+ * at startup.
+ */
+
+import type * as cheerio from 'cheerio';
+import type { Check } from './analyzer';
+import type { CheckCategory } from './checks/types';
+import { ARTICLE_TYPES, type StructuredDataReport } from './structured-data';
+
+// ============================================
+// Types
+// ============================================
+
+export type ContentType = 'article' | 'product' | 'recipe' | 'local-business' | 'general';
+
+export interface ContentTypeDetection {
+  type: ContentType;
+  /** 'default' when nothing on the page pointed to a type */
+  source: 'structured-data' | 'page-structure' | 'default';
+  /** Human-readable reason, e.g. 'Product structured data' */
+  evidence: string;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description: string;
+  /** Content type this profile is the default for */
+  contentType?: ContentType;
+  /** Multiplies a check's points by check ID (default 1). 0 leaves the check out of the score. */
+  checkWeights: Record<string, number>;
+  /** Weights a category's points in the overall score (default 1) */
+  categoryWeights: Partial<Record<CheckCategory, number>>;
+  /** Share of the final score taken from the AI readiness score, 0-1 */
+  aiBlend: number;
+  /** Lowest score for each grade; anything below D is an F */
+  gradeThresholds: { A: number; B: number; C: number; D: number };
+}
+
+/** How a scan was scored, reported in `result.scoring` */
+export interface ScoringSummary {
+  profile: string;
+  profileName: string;
+  contentType: ContentTypeDetection;
+  /** True when the scan named a profile instead of using the detected one */
+  overridden: boolean;
+}
+
+export const DEFAULT_SCORING_PROFILE = 'general';
+
+const DEFAULT_GRADE_THRESHOLDS: ScoringProfile['gradeThresholds'] = { A: 90, B: 80, C: 70, D: 60 };
+
+// Dated-authorship checks that mean nothing on catalogue or business pages
+const EDITORIAL_CHECKS = ['author-info', 'publish-date', 'schema-author', 'schema-date-published'];
+const without = (ids: string[]) => Object.fromEntries(ids.map(id => [id, 0]));
+
+// ============================================
+// Built-in profiles
+// ============================================
+
+const BUILT_IN_PROFILES: ScoringProfile[] = [
+  {
+    id: 'general',
+    name: 'General',
+    description: 'Every check at its standard weight. Used when the content type is unclear.',
+    contentType: 'general',
+    checkWeights: {},
+    categoryWeights: {},
+    aiBlend: 0.6,
+    gradeThresholds: DEFAULT_GRADE_THRESHOLDS,
+  },
+  {
+    id: 'article',
+    name: 'Long-form article',
+    description: 'Guides, blog posts and news. Rewards authorship, dates, facts and quotable sections.',
+    contentType: 'article',
+    checkWeights: {
+      'author-info': 1.5,
+      'publish-date': 1.5,
+      'schema-author': 1.5,
+      'schema-date-published': 1.5,
+      'statistics': 1.2,
+      'chunk-citability': 1.2,
+      'table-of-contents': 1.5,
+      'content-length': 1.2,
+      'faq-section': 0.6,
+    },
+    categoryWeights: { citationReadiness: 1.2, credibilitySignals: 1.2 },
+    aiBlend: 0.6,
+    gradeThresholds: DEFAULT_GRADE_THRESHOLDS,
+  },
+  {
+    id: 'product',
+    name: 'Product page',
+    description: 'Product and pricing pages. Rewards Product schema, a direct answer up front and buyer FAQs; ignores authorship.',
+    contentType: 'product',
+    checkWeights: {
+      ...without([...EDITORIAL_CHECKS, 'table-of-contents']),
+      'schema-markup': 1.5,
+      'upfront-answer': 1.5,
+      'content-length': 0.5,
+      'definitions': 0.5,
+      'statistics': 0.7,
+      'external-links': 0.5,
+    },
+    categoryWeights: { technicalSeo: 1.3, credibilitySignals: 0.6 },
+    aiBlend: 0.5,
+    gradeThresholds: { A: 85, B: 75, C: 65, D: 55 },
+  },
+  {
+    id: 'recipe',
+    name: 'Recipe',
+    description: 'Recipes. Rewards Recipe schema and clear structure; long prose and tables of contents matter less.',
+    contentType: 'recipe',
+    checkWeights: {
+      'schema-markup': 1.5,
+      'subheadings': 1.2,
+      'publish-date': 0.5,
+      'schema-date-published': 0.5,
+      'faq-section': 0.5,
+      'table-of-contents': 0,
+      'definitions': 0.3,
+      'statistics': 0.5,
+      'content-length': 0.7,
+      'external-links': 0.3,
+    },
+    categoryWeights: { technicalSeo: 1.3 },
+    aiBlend: 0.5,
+    gradeThresholds: DEFAULT_GRADE_THRESHOLDS,
+  },
+  {
+    id: 'local-business',
+    name: 'Local business',
+    description: 'Shops, restaurants and service businesses. Rewards LocalBusiness schema, FAQs and direct answers; ignores authorship.',
+    contentType: 'local-business',
+    checkWeights: {
+      ...without([...EDITORIAL_CHECKS, 'table-of-contents']),
+      'schema-markup': 1.5,
+      'faq-section': 1.2,
+      'upfront-answer': 1.5,
+      'content-length': 0.5,
+      'statistics': 0.3,
+      'definitions': 0.3,
+      'external-links': 0.5,
+      'chunk-citability': 0.7,
+    },
+    categoryWeights: { technicalSeo: 1.3, citationReadiness: 0.7 },
+    aiBlend: 0.4,
+    gradeThresholds: { A: 85, B: 75, C: 65, D: 55 },
+  },
+];
+
+// ============================================
+// Registry
+// ============================================
+
+const profiles = new Map<string, ScoringProfile>();
+
+export function registerScoringProfile(profile: ScoringProfile): void {
+  if (profiles.has(profile.id)) {
+    throw new Error(`Scoring profile "${profile.id}" is already registered`);
+  }
+  if (profile.aiBlend < 0 || profile.aiBlend > 1) {
+    throw new Error(`Scoring profile "${profile.id}" needs an aiBlend between 0 and 1`);
+  }
+  profiles.set(profile.id, profile);
+}
+
+export function unregisterScoringProfile(id: string): boolean {
+  return id !== DEFAULT_SCORING_PROFILE && profiles.delete(id);
+}
+
+export function getScoringProfile(id: string): ScoringProfile | undefined {
+  return profiles.get(id);
+}
+
+export function listScoringProfiles(): ScoringProfile[] {
+  return Array.from(profiles.values());
+}
+
+for (const profile of BUILT_IN_PROFILES) {
+  registerScoringProfile(profile);
+}
+
+/**
+ * Validates a profile ID from a request body; undefined or empty means auto-detect
+ */
+export function parseScoringProfile(value: unknown): { value: string | undefined } | { error: string } {
+  if (value === undefined || value === null || value === '') return { value: undefined };
+  if (typeof value !== 'string' || !profiles.has(value)) {
+    return { error: `scoringProfile must be one of: ${Array.from(profiles.keys()).join(', ')}` };
+  }
+  return { value };
+}
+
+/**
+ * The profile a scan uses: the requested one, or the one registered for
+ * the detected content type
+ */
+export function resolveScoringProfile(
+  contentType: ContentType,
+  requested?: string
+): { profile: ScoringProfile; overridden: boolean } {
+  if (requested) {
+    const profile = profiles.get(requested);
+    if (!profile) {
+      throw new Error(`Unknown scoring profile "${requested}". Available: ${Array.from(profiles.keys()).join(', ')}`);
+    }
+    return { profile, overridden: true };
+  }
+
+  const profile = listScoringProfiles().find(p => p.contentType === contentType)
+    ?? profiles.get(DEFAULT_SCORING_PROFILE)!;
+  return { profile, overridden: false };
+}
+
+// ============================================
+// Content type detection
+// ============================================
+
+const RECIPE_TYPES = ['Recipe'];
+const PRODUCT_TYPES = ['Product', 'ProductGroup', 'Offer', 'AggregateOffer', 'IndividualProduct'];
+const LOCAL_BUSINESS_TYPES = [
+  'LocalBusiness', 'Restaurant', 'FoodEstablishment', 'CafeOrCoffeeShop', 'Bakery', 'BarOrPub',
+  'Store', 'AutoRepair', 'Dentist', 'MedicalClinic', 'Physician', 'Hotel', 'LodgingBusiness',
+  'LegalService', 'Attorney', 'RealEstateAgent', 'HairSalon', 'BeautySalon', 'HealthClub',
+  'ProfessionalService', 'HomeAndConstructionBusiness', 'Plumber', 'Electrician',
+];
+
+// In order of precedence: a recipe is often also a BlogPosting, a shop page also an Organization
+const SCHEMA_RULES: Array<{ type: ContentType; schemaTypes: string[] }> = [
+  { type: 'recipe', schemaTypes: RECIPE_TYPES },
+  { type: 'product', schemaTypes: PRODUCT_TYPES },
+  { type: 'local-business', schemaTypes: LOCAL_BUSINESS_TYPES },
+  { type: 'article', schemaTypes: ARTICLE_TYPES },
+];
+
+const PRICE_PATTERN = /[$£€]\s?\d|\d+[.,]\d{2}\s?(usd|eur|gbp)\b/i;
+const BUY_PATTERN = /\b(add to (cart|basket|bag)|buy now|in stock)\b/i;
+const HOURS_PATTERN = /\b(opening hours|hours of operation|open (daily|monday|mon|7 days))\b/i;
+const LONG_ARTICLE_WORDS = 800;
+
+/**
+ * Structured data wins; page structure is the fallback
+ */
+export function detectContentType(
+  $: cheerio.CheerioAPI,
+  structuredData: StructuredDataReport,
+  textContent: string
+): ContentTypeDetection {
+  for (const rule of SCHEMA_RULES) {
+    const match = structuredData.types.find(type => rule.schemaTypes.includes(type));
+    if (match) return { type: rule.type, source: 'structured-data', evidence: `${match} structured data` };
+  }
+
+  const headings = $('h1, h2, h3, h4').toArray().map(el => $(el).text().toLowerCase());
+  if (headings.some(h => h.includes('ingredients')) && headings.some(h => /instructions|directions|method|steps/.test(h))) {
+    return { type: 'recipe', source: 'page-structure', evidence: 'Ingredients and instructions headings' };
+  }
+
+  const actions = $('button, input[type="submit"], a').toArray().map(el => $(el).text() || $(el).attr('value') || '').join(' ');
+  if (BUY_PATTERN.test(actions) && PRICE_PATTERN.test(textContent)) {
+    return { type: 'product', source: 'page-structure', evidence: 'Price and purchase button' };
+  }
+
+  const hasPhone = $('a[href^="tel:"]').length > 0;
+  if (hasPhone && ($('address').length > 0 || HOURS_PATTERN.test(textContent))) {
+    return { type: 'local-business', source: 'page-structure', evidence: 'Phone link with address or opening hours' };
+  }
+
+  const wordCount = textContent.split(/\s+/).filter(w => w.length > 0).length;
+  if ($('meta[property="og:type"]').attr('content') === 'article') {
+    return { type: 'article', source: 'page-structure', evidence: 'og:type article' };
+  }
+  if ($('article').length > 0 && wordCount >= LONG_ARTICLE_WORDS) {
+    return { type: 'article', source: 'page-structure', evidence: `<article> with ${wordCount} words` };
+  }
+
+  return { type: 'general', source: 'default', evidence: 'No content type signals found' };
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+export function checkWeight(profile: ScoringProfile, checkId: string): number {
+  return profile.checkWeights[checkId] ?? 1;
+}
+
+/**
+ * Scales each check's points by the profile's weight. Pass/fail is left alone.
+ */
+export function weightChecks(checks: Check[], profile: ScoringProfile): Check[] {
+  return checks.map(check => {
+    const weight = checkWeight(profile, check.id);
+    if (weight === 1) return check;
+    return { ...check, score: Math.round(check.score * weight), maxScore: Math.round(check.maxScore * weight) };
+  });
+}
+
+/**
+ * Heuristic score (0-100) from category points, each category's points
+ * multiplied by its weight
+ */
+export function weightedScore(
+  categories: Record<CheckCategory, { score: number; maxScore: number }>,
+  profile: ScoringProfile
+): number {
+  let total = 0;
+  let max = 0;
+  for (const [category, value] of Object.entries(categories) as Array<[CheckCategory, { score: number; maxScore: number }]>) {
+    const weight = profile.categoryWeights[category] ?? 1;
+    total += value.score * weight;
+    max += value.maxScore * weight;
+  }
+  return max > 0 ? Math.round((total / max) * 100) : 0;
+}
+
+export function blendAIScore(heuristicScore: number, aiScore: number, profile: ScoringProfile): number {
+  return Math.round(aiScore * profile.aiBlend + heuristicScore * (1 - profile.aiBlend));
+}
+
+export function scoreToGrade(score: number, profile: ScoringProfile): 'A' | 'B' | 'C' | 'D' | 'F' {
+  const { A, B, C, D } = profile.gradeThresholds;
+  if (score >= A) return 'A';
+  if (score >= B) return 'B';
+  if (score >= C) return 'C';
+  if (score >= D) return 'D';
+  return 'F';
+}
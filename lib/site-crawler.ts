@@ -0,0 +1,334 @@
+/**
+ * Site-Wide Crawl
+ *
+ * Discovers pages from sitemap.xml (including sitemap indexes) or by
+ * following same-origin links, runs the analyzer on each page with
+ * bounded concurrency and aggregates the results into a site report.
+ */
+
+import * as cheerio from 'cheerio';
+import { analyzeUrl, fetchSiteFiles, type AnalysisResult, type AnalyzeOptions } from './analyzer';
+import { CHECK_CATEGORIES, type CheckCategory } from './checks';
+import { normalizeUrl, runWithConcurrency } from './utils';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CrawlOptions {
+  /** 'auto' uses the sitemap when one exists and falls back to links */
+  mode?: 'auto' | 'sitemap' | 'links';
+  maxPages?: number;
+  /** Link depth from the start URL (links mode only) */
+  maxDepth?: number;
+  concurrency?: number;
+  includeAI?: boolean;
+  analyzeOptions?: AnalyzeOptions;
+  onPage?: (page: SitePageResult, completed: number, total: number) => void;
+}
+
+export interface SitePageResult {
+  url: string;
+  depth: number;
+  score: number | null;
+  grade: AnalysisResult['grade'] | null;
+  wordCount: number | null;
+  categories: Partial<Record<CheckCategory, number>>;
+  failedChecks: string[];
+  error?: string;
+}
+
+export interface SiteReport {
+  startUrl: string;
+  origin: string;
+  discovery: 'sitemap' | 'links';
+  startedAt: string;
+  completedAt: string;
+  pagesAnalyzed: number;
+  pagesFailed: number;
+  averageScore: number;
+  gradeDistribution: Record<AnalysisResult['grade'], number>;
+  categoryAverages: Record<CheckCategory, number>;
+  commonFailures: Array<{
+    id: string;
+    name: string;
+    category: string;
+    failedOn: number;
+    percentage: number;
+    exampleUrls: string[];
+  }>;
+  pages: SitePageResult[];
+}
+
+export const CRAWL_LIMITS = {
+  maxPages: 100,
+  maxDepth: 5,
+  concurrency: 5,
+};
+
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|svg|ico|css|js|json|xml|txt|zip|gz|mp3|mp4|mov|avi|docx?|xlsx?|pptx?)$/i;
+const MAX_SITEMAP_FILES = 20;
+
+// ============================================
+// Crawl
+// ============================================
+
+export async function crawlSite(startUrl: string, options: CrawlOptions = {}): Promise<SiteReport> {
+  const startedAt = new Date().toISOString();
+  const maxPages = clamp(options.maxPages ?? 25, 1, CRAWL_LIMITS.maxPages);
+  const maxDepth = clamp(options.maxDepth ?? 2, 0, CRAWL_LIMITS.maxDepth);
+  const concurrency = clamp(options.concurrency ?? 3, 1, CRAWL_LIMITS.concurrency);
+  const mode = options.mode ?? 'auto';
+  const origin = new URL(startUrl).origin;
+  // Every page is on the same origin, so its robots.txt and llms.txt are fetched once
+  const siteFiles = options.analyzeOptions?.siteFiles ?? fetchSiteFiles(startUrl);
+  const pageOptions: CrawlOptions = { ...options, analyzeOptions: { ...options.analyzeOptions, siteFiles } };
+
+  let sitemapUrls: string[] = [];
+  if (mode !== 'links') {
+    sitemapUrls = await discoverFromSitemap(startUrl, maxPages, (await siteFiles).robots.content);
+    console.log(`[Site Crawl] Sitemap discovery found ${sitemapUrls.length} URLs`);
+    if (mode === 'sitemap' && sitemapUrls.length === 0) {
+      throw new Error(`No sitemap found for ${origin}`);
+    }
+  }
+
+  const discovery: SiteReport['discovery'] = sitemapUrls.length > 0 ? 'sitemap' : 'links';
+  const seen = new Set<string>();
+  const pages: SitePageResult[] = [];
+  const checkNames = new Map<string, { name: string; category: string }>();
+
+  let level = (discovery === 'sitemap' ? sitemapUrls : [startUrl])
+    .filter(url => markSeen(seen, url))
+    .slice(0, maxPages);
+
+  for (let depth = 0; level.length > 0; depth++) {
+    const nextLevel: string[] = [];
+    const followLinks = discovery === 'links' && depth < maxDepth;
+
+    await runWithConcurrency(level, concurrency, async (url) => {
+      const page = await analyzePage(url, depth, pageOptions, checkNames, followLinks ? (links) => {
+        for (const link of links) {
+          if (seen.size >= maxPages) break;
+          if (new URL(link).origin === origin && markSeen(seen, link)) nextLevel.push(link);
+        }
+      } : undefined);
+
+      pages.push(page);
+      options.onPage?.(page, pages.length, Math.max(seen.size, pages.length));
+    });
+
+    level = nextLevel;
+  }
+
+  return buildSiteReport({ startUrl, origin, discovery, startedAt, pages, checkNames });
+}
+
+async function analyzePage(
+  url: string,
+  depth: number,
+  options: CrawlOptions,
+  checkNames: Map<string, { name: string; category: string }>,
+  onLinks?: (links: string[]) => void
+): Promise<SitePageResult> {
+  try {
+    const result = await analyzeUrl(url, options.includeAI ?? false, {
+      ...options.analyzeOptions,
+      onDocument: ($, pageUrl) => {
+        options.analyzeOptions?.onDocument?.($, pageUrl);
+        onLinks?.(extractLinks($, pageUrl));
+      },
+    });
+
+    for (const check of result.checks) {
+      checkNames.set(check.id, { name: check.name, category: check.category });
+    }
+
+    return {
+      url,
+      depth,
+      score: result.score,
+      grade: result.grade,
+      wordCount: result.metadata.wordCount,
+      categories: Object.fromEntries(
+        Object.entries(result.categories).map(([key, cat]) => [key, cat.percentage])
+      ),
+      failedChecks: result.checks.filter(c => !c.passed).map(c => c.id),
+    };
+  } catch (error) {
+    console.error(`[Site Crawl] Failed to analyze ${url}:`, error);
+    return {
+      url,
+      depth,
+      score: null,
+      grade: null,
+      wordCount: null,
+      categories: {},
+      failedChecks: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// ============================================
+// Discovery
+// ============================================
+
+/**
+ * Collect page URLs from the sitemaps listed in robots.txt, falling
+ * back to /sitemap.xml. Sitemap indexes are followed recursively. Pass
+ * `robots` when robots.txt was already fetched (null when there is none).
+ */
+export async function discoverFromSitemap(startUrl: string, limit: number, robots?: string | null): Promise<string[]> {
+  const origin = new URL(startUrl).origin;
+  if (robots === undefined) robots = await fetchText(`${origin}/robots.txt`);
+  const declared = robots
+    ? Array.from(robots.matchAll(/^\s*sitemap:\s*(\S+)/gim), m => m[1])
+    : [];
+
+  const queue = declared.length > 0 ? declared : [`${origin}/sitemap.xml`];
+  const visited = new Set<string>();
+  const urls: string[] = [];
+
+  while (queue.length > 0 && urls.length < limit && visited.size < MAX_SITEMAP_FILES) {
+    const sitemapUrl = queue.shift()!;
+    if (visited.has(sitemapUrl)) continue;
+    visited.add(sitemapUrl);
+
+    const xml = await fetchText(sitemapUrl);
+    if (!xml) continue;
+
+    const $ = cheerio.load(xml, { xml: true });
+
+    $('sitemapindex > sitemap > loc').each((_, el) => {
+      queue.push($(el).text().trim());
+    });
+
+    $('urlset > url > loc').each((_, el) => {
+      const loc = $(el).text().trim();
+      try {
+        if (new URL(loc).origin === origin && !NON_HTML_EXTENSIONS.test(new URL(loc).pathname)) {
+          urls.push(loc);
+        }
+      } catch {
+        // Ignore malformed <loc> entries
+      }
+    });
+  }
+
+  return urls.slice(0, limit);
+}
+
+export function extractLinks($: cheerio.CheerioAPI, pageUrl: string): string[] {
+  const links: string[] = [];
+
+  $('a[href]').each((_, el) => {
+    const href = $(el).attr('href') || '';
+    if (/^(mailto|tel|javascript):/i.test(href)) return;
+    if (($(el).attr('rel') || '').includes('nofollow')) return;
+
+    try {
+      const resolved = new URL(href, pageUrl);
+      if (!/^https?:$/.test(resolved.protocol) || NON_HTML_EXTENSIONS.test(resolved.pathname)) return;
+      resolved.hash = '';
+      links.push(resolved.toString());
+    } catch {
+      // Ignore unparseable hrefs
+    }
+  });
+
+  return links;
+}
+
+async function fetchText(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; AISearchOptimizer/2.0)' },
+      signal: AbortSignal.timeout(10000),
+      redirect: 'follow',
+    });
+    return response.ok ? await response.text() : null;
+  } catch (error) {
+    console.error(`[Site Crawl] Fetch failed for ${url}:`, error);
+    return null;
+  }
+}
+
+// ============================================
+// Report
+// ============================================
+
+function buildSiteReport(input: {
+  startUrl: string;
+  origin: string;
+  discovery: SiteReport['discovery'];
+  startedAt: string;
+  pages: SitePageResult[];
+  checkNames: Map<string, { name: string; category: string }>;
+}): SiteReport {
+  const analyzed = input.pages.filter(p => p.score !== null);
+  const gradeDistribution: SiteReport['gradeDistribution'] = { A: 0, B: 0, C: 0, D: 0, F: 0 };
+  for (const page of analyzed) {
+    if (page.grade) gradeDistribution[page.grade]++;
+  }
+
+  const categoryAverages = {} as SiteReport['categoryAverages'];
+  for (const category of CHECK_CATEGORIES) {
+    const values = analyzed
+      .map(p => p.categories[category])
+      .filter((v): v is number => v !== undefined);
+    categoryAverages[category] = average(values);
+  }
+
+  const failures = new Map<string, string[]>();
+  for (const page of analyzed) {
+    for (const id of page.failedChecks) {
+      failures.set(id, [...(failures.get(id) || []), page.url]);
+    }
+  }
+
+  const commonFailures = Array.from(failures.entries())
+    .map(([id, urls]) => ({
+      id,
+      name: input.checkNames.get(id)?.name || id,
+      category: input.checkNames.get(id)?.category || 'unknown',
+      failedOn: urls.length,
+      percentage: Math.round((urls.length / analyzed.length) * 100),
+      exampleUrls: urls.slice(0, 3),
+    }))
+    .sort((a, b) => b.failedOn - a.failedOn);
+
+  return {
+    startUrl: input.startUrl,
+    origin: input.origin,
+    discovery: input.discovery,
+    startedAt: input.startedAt,
+    completedAt: new Date().toISOString(),
+    pagesAnalyzed: analyzed.length,
+    pagesFailed: input.pages.length - analyzed.length,
+    averageScore: average(analyzed.map(p => p.score as number)),
+    gradeDistribution,
+    categoryAverages,
+    commonFailures,
+    pages: input.pages.sort((a, b) => (a.score ?? -1) - (b.score ?? -1)),
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function markSeen(seen: Set<string>, url: string): boolean {
+  const key = normalizeUrl(url);
+  if (seen.has(key)) return false;
+  seen.add(key);
+  return true;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.floor(value)));
+}
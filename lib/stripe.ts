@@ -11,8 +11,9 @@ export const PRO_FEATURES = [
   'Full detailed reports',
   'PDF export',
   'Competitor comparison',
+  'Site-wide crawls',
   'Priority support',
-  'API access (coming soon)',
+  'API access',
 ];
 
 export const FREE_FEATURES = [
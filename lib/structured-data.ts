@@ -0,0 +1,287 @@
+/**
+ * Structured Data Parsing & Validation
+ *
+ * Parses every JSON-LD block and microdata item on a page and checks
+ * common schema.org types for required and recommended properties.
+ */
+
+import type * as cheerio from 'cheerio';
+
+// ============================================
+// Types
+// ============================================
+
+export interface StructuredDataItem {
+  source: 'json-ld' | 'microdata';
+  types: string[];
+  properties: string[];
+  data: Record<string, unknown>;
+  missingRequired: string[];
+  missingRecommended: string[];
+  issues: string[];
+}
+
+export interface StructuredDataParseError {
+  block: number;
+  message: string;
+  line: number | null;
+  column: number | null;
+  excerpt: string;
+}
+
+export interface StructuredDataReport {
+  types: string[];
+  items: StructuredDataItem[];
+  parseErrors: StructuredDataParseError[];
+  jsonLdBlocks: number;
+  microdataItems: number;
+}
+
+interface TypeRule {
+  required: string[];
+  recommended: string[];
+  validate?: (data: Record<string, unknown>) => string[];
+}
+
+// ============================================
+// Validation rules
+// ============================================
+
+export const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'TechArticle', 'ScholarlyArticle', 'Report'];
+
+const ARTICLE_RULE: TypeRule = {
+  required: ['headline'],
+  recommended: ['author', 'datePublished', 'dateModified', 'image', 'publisher'],
+  validate: (data) => {
+    const issues: string[] = [];
+    for (const author of asArray(data.author)) {
+      if (typeof author === 'object' && author && !(author as Record<string, unknown>).name) {
+        issues.push('author is missing "name"');
+      }
+    }
+    for (const key of ['datePublished', 'dateModified']) {
+      const value = data[key];
+      if (typeof value === 'string' && isNaN(Date.parse(value))) {
+        issues.push(`${key} "${value}" is not an ISO 8601 date`);
+      }
+    }
+    return issues;
+  },
+};
+
+const TYPE_RULES: Record<string, TypeRule> = {
+  ...Object.fromEntries(ARTICLE_TYPES.map(type => [type, ARTICLE_RULE])),
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: [],
+    validate: (data) => {
+      const issues: string[] = [];
+      asArray(data.mainEntity).forEach((entry, i) => {
+        const question = (entry || {}) as Record<string, unknown>;
+        const answer = asArray(question.acceptedAnswer)[0] as Record<string, unknown> | undefined;
+        if (!question.name) issues.push(`mainEntity[${i}] Question is missing "name"`);
+        if (!answer || !answer.text) issues.push(`mainEntity[${i}] is missing "acceptedAnswer.text"`);
+      });
+      return issues;
+    },
+  },
+  HowTo: {
+    required: ['name', 'step'],
+    recommended: ['description', 'totalTime', 'image', 'supply', 'tool'],
+    validate: (data) => {
+      const issues: string[] = [];
+      asArray(data.step).forEach((entry, i) => {
+        const step = entry as Record<string, unknown> | string;
+        if (typeof step === 'object' && step && !step.text && !step.itemListElement) {
+          issues.push(`step[${i}] is missing "text"`);
+        }
+      });
+      return issues;
+    },
+  },
+  Product: {
+    required: ['name'],
+    recommended: ['image', 'description', 'brand', 'offers', 'aggregateRating', 'review'],
+    validate: (data) => data.offers || data.aggregateRating || data.review
+      ? []
+      : ['Product needs at least one of "offers", "aggregateRating" or "review"'],
+  },
+  Organization: {
+    required: ['name'],
+    recommended: ['url', 'logo', 'sameAs', 'contactPoint'],
+  },
+  Person: {
+    required: ['name'],
+    recommended: ['url', 'sameAs', 'jobTitle', 'image'],
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    recommended: [],
+    validate: (data) => {
+      const issues: string[] = [];
+      asArray(data.itemListElement).forEach((entry, i) => {
+        const item = (entry || {}) as Record<string, unknown>;
+        if (item.position === undefined) issues.push(`itemListElement[${i}] is missing "position"`);
+        if (!item.name && !(item.item as Record<string, unknown> | undefined)?.name) {
+          issues.push(`itemListElement[${i}] is missing "name"`);
+        }
+      });
+      return issues;
+    },
+  },
+};
+
+export function isArticleType(types: string[]): boolean {
+  return types.some(type => ARTICLE_TYPES.includes(type));
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Must run before <script> tags are stripped from the document
+ */
+export function extractStructuredData($: cheerio.CheerioAPI): StructuredDataReport {
+  const items: StructuredDataItem[] = [];
+  const parseErrors: StructuredDataParseError[] = [];
+
+  const blocks = $('script[type="application/ld+json"]');
+  blocks.each((index, el) => {
+    const raw = cleanJsonLd($(el).html() || '');
+    if (!raw) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      parseErrors.push(describeParseError(index + 1, raw, error));
+      return;
+    }
+
+    for (const node of flattenJsonLd(parsed)) {
+      items.push(validateItem('json-ld', node));
+    }
+  });
+
+  const microdata = $('[itemscope][itemtype]').filter((_, el) => $(el).attr('itemprop') === undefined);
+  microdata.each((_, el) => {
+    items.push(validateItem('microdata', readMicrodataItem($, el)));
+  });
+
+  return {
+    types: Array.from(new Set(items.flatMap(item => item.types))),
+    items,
+    parseErrors,
+    jsonLdBlocks: blocks.length,
+    microdataItems: microdata.length,
+  };
+}
+
+function cleanJsonLd(raw: string): string {
+  return raw
+    .replace(/^\s*<!--/, '')
+    .replace(/-->\s*$/, '')
+    .replace(/^\s*\/\/\s*<!\[CDATA\[/, '')
+    .replace(/\/\/\s*\]\]>\s*$/, '')
+    .trim();
+}
+
+function describeParseError(block: number, raw: string, error: unknown): StructuredDataParseError {
+  const message = error instanceof Error ? error.message : String(error);
+  const positionMatch = message.match(/position (\d+)/);
+
+  let line: number | null = null;
+  let column: number | null = null;
+  let excerpt = raw.slice(0, 80);
+
+  if (positionMatch) {
+    const position = parseInt(positionMatch[1], 10);
+    const before = raw.slice(0, position).split('\n');
+    line = before.length;
+    column = before[before.length - 1].length + 1;
+    excerpt = raw.slice(Math.max(0, position - 40), position + 40);
+  }
+
+  return { block, message, line, column, excerpt: excerpt.replace(/\s+/g, ' ').trim() };
+}
+
+/**
+ * Top-level nodes of a JSON-LD document, including arrays and @graph members
+ */
+function flattenJsonLd(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value.flatMap(flattenJsonLd);
+  if (!value || typeof value !== 'object') return [];
+
+  const node = value as Record<string, unknown>;
+  const graph = Array.isArray(node['@graph']) ? flattenJsonLd(node['@graph']) : [];
+  return node['@type'] ? [node, ...graph] : graph;
+}
+
+function readMicrodataItem($: cheerio.CheerioAPI, el: Parameters<cheerio.CheerioAPI>[0]): Record<string, unknown> {
+  const root = $(el);
+  const data: Record<string, unknown> = {
+    '@type': (root.attr('itemtype') || '').split(/\s+/).filter(Boolean),
+  };
+
+  root.find('[itemprop]').each((_, propEl) => {
+    const prop = $(propEl);
+    // Only properties whose nearest item scope is this item
+    const owner = prop.parent().closest('[itemscope]');
+    if (owner.length === 0 || owner.get(0) !== root.get(0)) return;
+
+    const value = prop.is('[itemscope]')
+      ? readMicrodataItem($, propEl)
+      : prop.attr('content') ?? prop.attr('datetime') ?? prop.attr('href') ?? prop.attr('src') ?? prop.text().replace(/\s+/g, ' ').trim();
+
+    for (const name of (prop.attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+      const existing = data[name];
+      data[name] = existing === undefined ? value : [...asArray(existing), value];
+    }
+  });
+
+  return data;
+}
+
+function validateItem(source: StructuredDataItem['source'], data: Record<string, unknown>): StructuredDataItem {
+  const types = asArray(data['@type']).map(t => normalizeType(String(t)));
+  const properties = Object.keys(data).filter(key => !key.startsWith('@'));
+
+  const missingRequired: string[] = [];
+  const missingRecommended: string[] = [];
+  const issues: string[] = [];
+
+  for (const type of types) {
+    const rule = TYPE_RULES[type];
+    if (!rule) continue;
+    missingRequired.push(...rule.required.filter(prop => isEmpty(data[prop])));
+    missingRecommended.push(...rule.recommended.filter(prop => isEmpty(data[prop])));
+    if (rule.validate) issues.push(...rule.validate(data));
+  }
+
+  return {
+    source,
+    types,
+    properties,
+    data,
+    missingRequired: Array.from(new Set(missingRequired)),
+    missingRecommended: Array.from(new Set(missingRecommended)),
+    issues,
+  };
+}
+
+function normalizeType(type: string): string {
+  return type.replace(/^https?:\/\/schema\.org\//i, '').replace(/^schema:/, '');
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim().length === 0;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
@@ -0,0 +1,71 @@
+/**
+ * Score Thresholds
+ *
+ * Pass/fail gates for CI: a minimum overall score, minimum category
+ * percentages and checks that must pass.
+ */
+
+import type { AnalysisResult } from './analyzer';
+import { CATEGORY_NAMES, CHECK_CATEGORIES, type CheckCategory } from './checks';
+
+// ============================================
+// Types
+// ============================================
+
+export interface Thresholds {
+  /** Minimum overall score (0-100) */
+  minScore?: number;
+  /** Minimum percentage per category (0-100) */
+  categories?: Partial<Record<CheckCategory, number>>;
+  /** Check IDs that must pass */
+  requiredChecks?: string[];
+}
+
+export interface ThresholdFailure {
+  type: 'score' | 'category' | 'check';
+  /** 'score', the category key or the check ID */
+  target: string;
+  message: string;
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+export function evaluateThresholds(result: AnalysisResult, thresholds: Thresholds): ThresholdFailure[] {
+  const failures: ThresholdFailure[] = [];
+
+  if (thresholds.minScore !== undefined && result.score < thresholds.minScore) {
+    failures.push({
+      type: 'score',
+      target: 'score',
+      message: `Score ${result.score} is below the minimum of ${thresholds.minScore}`,
+    });
+  }
+
+  for (const [category, minimum] of Object.entries(thresholds.categories ?? {})) {
+    const score = result.categories[category as CheckCategory];
+    if (minimum === undefined || !score || score.percentage >= minimum) continue;
+
+    failures.push({
+      type: 'category',
+      target: category,
+      message: `${CATEGORY_NAMES[category as CheckCategory]} is ${score.percentage}%, below the minimum of ${minimum}%`,
+    });
+  }
+
+  for (const id of thresholds.requiredChecks ?? []) {
+    const check = result.checks.find(c => c.id === id);
+    if (!check) {
+      failures.push({ type: 'check', target: id, message: `Check "${id}" did not run` });
+    } else if (!check.passed) {
+      failures.push({ type: 'check', target: id, message: `${check.name} failed: ${check.details}` });
+    }
+  }
+
+  return failures;
+}
+
+export function isCheckCategory(value: string): value is CheckCategory {
+  return (CHECK_CATEGORIES as string[]).includes(value);
+}
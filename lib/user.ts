@@ -19,8 +19,39 @@ export interface UserData {
   savedReports: string[];
 }
 
+export type Plan = 'free' | 'pro';
+
+export function getPlan(userData: UserData): Plan {
+  return userData.isPro ? 'pro' : 'free';
+}
+
+/**
+ * Plan for an optional user ID; 'free' when signed out or Clerk is unavailable
+ */
+export async function getUserPlan(userId: string | null): Promise<Plan> {
+  if (!userId) return 'free';
+  try {
+    return getPlan(await getUserById(userId));
+  } catch (error) {
+    console.error('[User] Failed to load plan:', error);
+    return 'free';
+  }
+}
+
 const FREE_SCANS_PER_MONTH = parseInt(process.env.FREE_SCANS_PER_MONTH || '3', 10);
 
+/**
+ * Current user ID, or null when signed out or Clerk isn't configured
+ */
+export async function getCurrentUserId(): Promise<string | null> {
+  try {
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get current user data
  */
@@ -31,6 +62,13 @@ export async function getCurrentUser(): Promise<UserData | null> {
     return null;
   }
 
+  return getUserById(userId);
+}
+
+/**
+ * Get user data by ID, for requests without a session (e.g. API keys)
+ */
+export async function getUserById(userId: string): Promise<UserData> {
   const clerk = await clerkClient();
   const user = await clerk.users.getUser(userId);
   const metadata = (user.publicMetadata || {}) as Record<string, unknown>;
@@ -95,9 +133,99 @@ export async function canScan(userData: UserData): Promise<{
 }
 
 /**
- * Increment scan count for user
+ * Increment scan count for user, by `count` for multi-page scans
  */
-export async function incrementScanCount(userId: string): Promise<void> {
+export async function incrementScanCount(userId: string, count: number = 1): Promise<void> {
+  return withUserLock(userId, () => writeScanCount(userId, count));
+}
+
+// ============================================
+// Quota reservations
+// ============================================
+
+// Clerk metadata updates are read-modify-write, so each user's reads and
+// writes of the scan count run one at a time within the process
+const userLocks = new Map<string, Promise<unknown>>();
+
+// Scans reserved by `reserveScans` and not yet counted or released
+const inFlightScans = new Map<string, number>();
+
+function withUserLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const previous = userLocks.get(userId) ?? Promise.resolve();
+  const run = previous.then(task, task);
+  const settled = run.catch(() => undefined);
+  userLocks.set(userId, settled);
+  settled.then(() => {
+    if (userLocks.get(userId) === settled) userLocks.delete(userId);
+  });
+  return run;
+}
+
+/**
+ * Holds `count` scans of the user's quota for work that is about to run,
+ * so parallel requests can't all pass the check before any is counted.
+ * `pending` scans are already promised elsewhere (e.g. queued jobs).
+ * Follow with `commitScans` once the scans succeed, or `releaseScans`.
+ */
+export async function reserveScans(
+  userId: string,
+  count: number,
+  options: { pending?: number } = {}
+): Promise<{ allowed: true; user: UserData; remaining?: number } | { allowed: false; reason: string; remaining: number }> {
+  return withUserLock(userId, async () => {
+    const user = await getUserById(userId);
+    const quota = await canScan(user);
+    if (!quota.allowed) {
+      return { allowed: false, reason: quota.reason ?? 'Monthly scan limit reached.', remaining: 0 };
+    }
+
+    const inFlight = inFlightScans.get(userId) ?? 0;
+    if (quota.remaining !== undefined) {
+      const available = Math.max(0, quota.remaining - inFlight - (options.pending ?? 0));
+      if (available < count) {
+        return {
+          allowed: false,
+          reason: available === 0
+            ? 'Monthly scan limit reached. Upgrade to Pro for unlimited scans.'
+            : `This needs ${count} scans but only ${available} remain this month.`,
+          remaining: available,
+        };
+      }
+      inFlightScans.set(userId, inFlight + count);
+      return { allowed: true, user, remaining: available - count };
+    }
+
+    inFlightScans.set(userId, inFlight + count);
+    return { allowed: true, user };
+  });
+}
+
+/**
+ * Counts reserved scans against the quota and releases the reservation
+ */
+export async function commitScans(userId: string, count: number = 1): Promise<void> {
+  return withUserLock(userId, async () => {
+    try {
+      await writeScanCount(userId, count);
+    } finally {
+      releaseScans(userId, count);
+    }
+  });
+}
+
+/**
+ * Gives back reserved scans that didn't run or failed
+ */
+export function releaseScans(userId: string, count: number = 1): void {
+  const remaining = (inFlightScans.get(userId) ?? 0) - count;
+  if (remaining > 0) {
+    inFlightScans.set(userId, remaining);
+  } else {
+    inFlightScans.delete(userId);
+  }
+}
+
+async function writeScanCount(userId: string, count: number): Promise<void> {
   const clerk = await clerkClient();
   const user = await clerk.users.getUser(userId);
   const metadata = (user.publicMetadata || {}) as Record<string, unknown>;
@@ -105,8 +233,8 @@ export async function incrementScanCount(userId: string): Promise<void> {
   await clerk.users.updateUser(userId, {
     publicMetadata: {
       ...metadata,
-      scansThisMonth: ((metadata.scansThisMonth as number) || 0) + 1,
-      totalScans: ((metadata.totalScans as number) || 0) + 1,
+      scansThisMonth: ((metadata.scansThisMonth as number) || 0) + count,
+      totalScans: ((metadata.totalScans as number) || 0) + count,
     },
   });
 }
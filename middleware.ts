@@ -14,11 +14,18 @@ const isPublicRoute = createRouteMatcher([
   '/sign-up(.*)',
   '/api/webhooks/(.*)',
   '/api/demo-analyze',
+  '/share/(.*)',
+  '/api/share/(.*)',
+  '/api/cron',
 ]);
 
-export default clerkEnabled ? clerkMiddleware((auth, request) => {
-  if (!isPublicRoute(request)) {
-    auth().protect();
+// Public API routes authenticate with API keys in the route handlers,
+// so they must not require a Clerk session
+const isApiKeyRoute = createRouteMatcher(['/api/v1/(.*)']);
+
+export default clerkEnabled ? clerkMiddleware(async (auth, request) => {
+  if (!isPublicRoute(request) && !isApiKeyRoute(request)) {
+    await auth.protect();
   }
 }) : clerkMiddleware();
 
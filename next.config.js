@@ -1,7 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['jsdom'],
+    serverComponentsExternalPackages: ['jsdom', 'jspdf'],
   },
 }
 
@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseJsonReply } from '../lib/ai-analysis-schema';
+
+test('parses a bare JSON reply', () => {
+  assert.deepEqual(parseJsonReply('{"a":1}'), { a: 1 });
+});
+
+test('parses a reply with text before the object', () => {
+  assert.deepEqual(parseJsonReply('Here is the analysis:\n{"a":1}'), { a: 1 });
+});
+
+test('parses a reply with text after the object', () => {
+  assert.deepEqual(parseJsonReply('{"a":1}\n\nHope this helps!'), { a: 1 });
+});
+
+test('parses a fenced block', () => {
+  assert.deepEqual(parseJsonReply('```json\n{"a":{"b":[1,2]}}\n```'), { a: { b: [1, 2] } });
+});
+
+test('parses a fenced block followed by notes', () => {
+  assert.deepEqual(parseJsonReply('```json\n{"a":1}\n```\n\nNotes: the score is an estimate.'), { a: 1 });
+});
+
+test('throws when there is no object', () => {
+  assert.throws(() => parseJsonReply('Sorry, I cannot help with that.'));
+});
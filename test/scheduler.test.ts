@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { computeNextRun } from '../lib/scheduler';
+
+const next = (frequency: Parameters<typeof computeNextRun>[0], from: string) =>
+  computeNextRun(frequency, new Date(from)).toISOString();
+
+test('daily and weekly runs move by whole days', () => {
+  assert.equal(next('daily', '2024-12-31T09:30:00.000Z'), '2025-01-01T09:30:00.000Z');
+  assert.equal(next('weekly', '2024-02-26T09:30:00.000Z'), '2024-03-04T09:30:00.000Z');
+});
+
+test('monthly runs keep the day of the month', () => {
+  assert.equal(next('monthly', '2024-03-15T09:30:00.000Z'), '2024-04-15T09:30:00.000Z');
+  assert.equal(next('monthly', '2024-12-31T09:30:00.000Z'), '2025-01-31T09:30:00.000Z');
+});
+
+test('monthly runs clamp to the last day of shorter months', () => {
+  assert.equal(next('monthly', '2025-01-31T09:30:00.000Z'), '2025-02-28T09:30:00.000Z');
+  assert.equal(next('monthly', '2024-01-31T09:30:00.000Z'), '2024-02-29T09:30:00.000Z');
+  assert.equal(next('monthly', '2024-05-31T09:30:00.000Z'), '2024-06-30T09:30:00.000Z');
+});
@@ -0,0 +1,65 @@
+/**
+ * Scoring Regression Tests
+ *
+ * Runs the heuristic analysis on the saved pages in test/fixtures and
+ * compares the score, grade, scoring profile and every check's pass/fail
+ * with the expectations saved next to each page (`<name>.expected.json`).
+ * After an intended scoring change, regenerate them with
+ * `UPDATE_FIXTURES=1 npm test` and review the diff.
+ */
+
+import assert from 'node:assert/strict';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { test } from 'node:test';
+import { analyzeHtml, type AnalysisResult } from '../lib/analyzer';
+
+interface FixtureExpectation {
+  score: number;
+  grade: AnalysisResult['grade'];
+  scoringProfile: string | null;
+  /** Check ID to passed */
+  checks: Record<string, boolean>;
+}
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const UPDATE = process.env.UPDATE_FIXTURES === '1';
+
+function summarize(result: AnalysisResult): FixtureExpectation {
+  return {
+    score: result.score,
+    grade: result.grade,
+    scoringProfile: result.scoring?.profile ?? null,
+    checks: Object.fromEntries(result.checks.map(check => [check.id, check.passed])),
+  };
+}
+
+const fixtures = readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.html')).sort();
+
+for (const file of fixtures) {
+  const name = file.replace(/\.html$/, '');
+
+  test(`scores the ${name} fixture as before`, async () => {
+    const html = readFileSync(path.join(FIXTURES_DIR, file), 'utf8');
+    // No AI pass and no robots.txt/llms.txt fetches: the result depends on the HTML alone
+    const result = await analyzeHtml(html, {
+      baseUrl: `https://example.com/${name}`,
+      includeAI: false,
+      fetchSiteFiles: false,
+    });
+    const actual = summarize(result);
+
+    const expectedFile = path.join(FIXTURES_DIR, `${name}.expected.json`);
+    if (UPDATE || !existsSync(expectedFile)) {
+      assert.ok(UPDATE, `${name}.expected.json is missing; run with UPDATE_FIXTURES=1 to create it`);
+      writeFileSync(expectedFile, `${JSON.stringify(actual, null, 2)}\n`);
+      return;
+    }
+
+    const expected = JSON.parse(readFileSync(expectedFile, 'utf8')) as FixtureExpectation;
+    assert.deepEqual(actual.checks, expected.checks, `${name}: check results changed`);
+    assert.equal(actual.scoringProfile, expected.scoringProfile, `${name}: scoring profile changed`);
+    assert.equal(actual.score, expected.score, `${name}: score changed`);
+    assert.equal(actual.grade, expected.grade, `${name}: grade changed`);
+  });
+}